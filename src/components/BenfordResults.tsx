@@ -1,6 +1,10 @@
 import { AlertTriangle, CheckCircle, XCircle, TrendingUp, Users, Flag, BarChart3 } from 'lucide-react';
 import { cn } from '../utils/cn';
-import type { BenfordResult, DigitFrequency } from '../types';
+import { FirstTwoDigitsChart } from './charts/FirstTwoDigitsChart';
+import { formatEnding } from '../utils/benfordAnalysis';
+import { formatPValue } from '../utils/statistics';
+import { getConformityLabel } from '../utils/conformity';
+import type { BenfordResult, ConformityLevel, DigitFrequency, DigitTestResult, LastTwoDigitsTestResult } from '../types';
 
 interface BenfordResultsProps {
   result: BenfordResult;
@@ -44,23 +48,34 @@ function MetricCard({ title, value, description, icon: Icon, status }: MetricCar
 
 interface DigitFrequencyChartProps {
   frequencies: DigitFrequency[];
+  title?: string;
 }
 
-function DigitFrequencyChart({ frequencies }: DigitFrequencyChartProps) {
+function DigitFrequencyChart({ frequencies, title = 'Digit Frequency Analysis' }: DigitFrequencyChartProps) {
   const maxPercentage = Math.max(...frequencies.map(f => Math.max(f.observed, f.expected)));
   
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
         <BarChart3 className="w-5 h-5" />
-        <span>Digit Frequency Analysis</span>
+        <span>{title}</span>
       </h3>
       
       <div className="space-y-3">
         {frequencies.map((freq) => (
           <div key={freq.digit} className="space-y-1">
             <div className="flex justify-between text-sm">
-              <span className="font-medium">Digit {freq.digit}</span>
+              <span className="font-medium">
+                Digit {freq.digit}
+                {freq.significance !== 'none' && (
+                  <span className={cn(
+                    'ml-2 px-1.5 py-0.5 rounded text-xs',
+                    freq.significance === 'significant_99' ? 'bg-red-100 text-red-700' : 'bg-amber-100 text-amber-700'
+                  )}>
+                    {freq.significance === 'significant_99' ? 'p < 0.01' : 'p < 0.05'}
+                  </span>
+                )}
+              </span>
               <div className="space-x-4 text-xs">
                 <span className="text-blue-600">Observed: {freq.observed.toFixed(1)}%</span>
                 <span className="text-gray-600">Expected: {freq.expected.toFixed(1)}%</span>
@@ -69,6 +84,7 @@ function DigitFrequencyChart({ frequencies }: DigitFrequencyChartProps) {
                 )}>
                   Δ {freq.deviation.toFixed(1)}%
                 </span>
+                <span className="text-gray-600">Z: {freq.zStatistic.toFixed(2)}</span>
               </div>
             </div>
             
@@ -117,20 +133,89 @@ function DigitFrequencyChart({ frequencies }: DigitFrequencyChartProps) {
   );
 }
 
-export function BenfordResults({ result, className }: BenfordResultsProps) {
-  const getOverallStatus = () => {
-    switch (result.overallAssessment) {
-      case 'compliant':
-        return { status: 'good' as const, icon: CheckCircle, text: 'Compliant' };
-      case 'acceptable':
-        return { status: 'good' as const, icon: CheckCircle, text: 'Acceptable' };
-      case 'suspicious':
-        return { status: 'warning' as const, icon: AlertTriangle, text: 'Suspicious' };
-      case 'highly_suspicious':
-        return { status: 'danger' as const, icon: XCircle, text: 'Highly Suspicious' };
-    }
-  };
+interface DigitTestSectionProps {
+  test: DigitTestResult | LastTwoDigitsTestResult; // the last-two digits test has no MAD ranges
+  title: string;
+  description: string;
+  chart?: React.ReactNode;
+}
+
+function getAssessmentDisplay(assessment: BenfordResult['overallAssessment']) {
+  switch (assessment) {
+    case 'compliant':
+      return { status: 'good' as const, icon: CheckCircle, text: 'Compliant' };
+    case 'acceptable':
+      return { status: 'good' as const, icon: CheckCircle, text: 'Acceptable' };
+    case 'suspicious':
+      return { status: 'warning' as const, icon: AlertTriangle, text: 'Suspicious' };
+    case 'highly_suspicious':
+      return { status: 'danger' as const, icon: XCircle, text: 'Highly Suspicious' };
+  }
+}
+
+function getConformityStatus(level: ConformityLevel): 'good' | 'warning' | 'danger' {
+  switch (level) {
+    case 'close':
+    case 'acceptable':
+      return 'good';
+    case 'marginal':
+      return 'warning';
+    case 'nonconformity':
+      return 'danger';
+  }
+}
+
+function DigitTestSection({ test, title, description, chart }: DigitTestSectionProps) {
+  if (test.totalAnalyzed === 0) {
+    return (
+      <div className="bg-white border border-gray-200 rounded-lg p-6">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center space-x-2">
+          <BarChart3 className="w-5 h-5" />
+          <span>{title}</span>
+        </h3>
+        <p className="text-sm text-gray-500 mt-2">Not enough qualifying amounts to run this test.</p>
+      </div>
+    );
+  }
+
+  const verdict = getAssessmentDisplay(test.overallAssessment);
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-lg p-6 space-y-6">
+      <p className="text-sm text-gray-600">{description}</p>
+
+      <div className={cn('grid grid-cols-1 gap-4', 'conformity' in test ? 'md:grid-cols-3' : 'md:grid-cols-2')}>
+        <MetricCard
+          title="Conformity"
+          value={verdict.text}
+          description={`${test.totalAnalyzed.toLocaleString()} amounts tested${'conformity' in test ? '' : ', judged by chi-square p-value'}`}
+          icon={verdict.icon}
+          status={verdict.status}
+        />
+        {'conformity' in test && (
+          <MetricCard
+            title="MAD Score"
+            value={test.mad.toFixed(4)}
+            description={`${getConformityLabel(test.conformity.level)} (acceptable < ${test.conformity.thresholds.acceptable})`}
+            icon={TrendingUp}
+            status={getConformityStatus(test.conformity.level)}
+          />
+        )}
+        <MetricCard
+          title="Chi-Square"
+          value={test.chiSquare.toFixed(2)}
+          description={`${test.degreesOfFreedom} df, p = ${formatPValue(test.chiSquarePValue)}`}
+          icon={BarChart3}
+          status={test.chiSquarePValue < 0.01 ? 'danger' : test.chiSquarePValue < 0.05 ? 'warning' : 'good'}
+        />
+      </div>
+
+      {chart ?? <DigitFrequencyChart frequencies={test.digitFrequencies} title={title} />}
+    </div>
+  );
+}
 
+export function BenfordResults({ result, className }: BenfordResultsProps) {
   const getRiskLevel = () => {
     switch (result.riskLevel) {
       case 'low':
@@ -144,7 +229,7 @@ export function BenfordResults({ result, className }: BenfordResultsProps) {
     }
   };
 
-  const overallStatus = getOverallStatus();
+  const overallStatus = getAssessmentDisplay(result.overallAssessment);
   const riskLevel = getRiskLevel();
 
   return (
@@ -161,6 +246,8 @@ export function BenfordResults({ result, className }: BenfordResultsProps) {
           </div>
           <div className="text-gray-500">•</div>
           <span className="text-gray-600">{result.totalAnalyzed.toLocaleString()} transactions analyzed</span>
+          <div className="text-gray-500">•</div>
+          <span className="text-gray-600">Profile: {result.profile.name}</span>
         </div>
       </div>
 
@@ -177,9 +264,9 @@ export function BenfordResults({ result, className }: BenfordResultsProps) {
         <MetricCard
           title="MAD Score"
           value={result.mad.toFixed(4)}
-          description="Mean Absolute Deviation"
+          description={`${getConformityLabel(result.conformity.level)} (acceptable < ${result.conformity.thresholds.acceptable})`}
           icon={TrendingUp}
-          status={result.mad < 0.012 ? 'good' : result.mad < 0.022 ? 'warning' : 'danger'}
+          status={getConformityStatus(result.conformity.level)}
         />
         
         <MetricCard
@@ -222,6 +309,43 @@ export function BenfordResults({ result, className }: BenfordResultsProps) {
         <DigitFrequencyChart frequencies={result.digitFrequencies} />
       </div>
 
+      {/* Second Digit Test */}
+      <DigitTestSection
+        test={result.secondDigitTest}
+        title="Second Digit Analysis"
+        description="Second digit test (amounts of 10 or more). Fabricated amounts often pass the first digit test but fail here."
+      />
+
+      {/* First-Two Digits Test */}
+      <DigitTestSection
+        test={result.firstTwoDigitsTest}
+        title="First-Two Digits Analysis"
+        description="First-two digits test (10-99) with Nigrini's conformity ranges. Highlighted bars are spikes significant at the 95% level."
+        chart={<FirstTwoDigitsChart frequencies={result.firstTwoDigitsTest.digitFrequencies} className="p-0 border-0" />}
+      />
+
+      {/* Last-Two Digits Test */}
+      <DigitTestSection
+        test={result.lastTwoDigitsTest}
+        title="Last-Two Digits Analysis"
+        description={
+          result.lastTwoDigitsTest.overrepresentedEndings.length > 0
+            ? `Over-represented endings: ${result.lastTwoDigitsTest.overrepresentedEndings.map(f => formatEnding(f.digit)).join(', ')}. Each ending should appear about 1% of the time (amounts of 10 or more). Nigrini's MAD ranges are for Benford's distribution, so the verdict uses the chi-square p-value.`
+            : 'No ending is over-represented. Each ending should appear about 1% of the time (amounts of 10 or more). Nigrini\'s MAD ranges are for Benford\'s distribution, so the verdict uses the chi-square p-value.'
+        }
+        chart={
+          <FirstTwoDigitsChart
+            frequencies={result.lastTwoDigitsTest.digitFrequencies}
+            className="p-0 border-0"
+            title="Last-Two Digits Analysis"
+            description="Observed vs uniform frequencies for endings 00-99"
+            footnote="Spikes at 00, 50 or 99 suggest invented or rounded amounts"
+            expectedLabel="Expected (uniform)"
+            formatDigits={formatEnding}
+          />
+        }
+      />
+
       {/* Suspicious Vendors */}
       {result.suspiciousVendors.length > 0 && (
         <div className="bg-white border border-gray-200 rounded-lg p-6">
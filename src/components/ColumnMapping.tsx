@@ -1,12 +1,16 @@
 import { useState } from 'react';
 import { ChevronDown, Check, AlertTriangle } from 'lucide-react';
 import { cn } from '../utils/cn';
-import type { ColumnMapping } from '../types';
+import { NUMBER_FORMAT_OPTIONS, describeNumberFormat } from '../utils/numberFormat';
+import { DATE_ORDER_OPTIONS, describeDateOrder, isDateOrderSettled } from '../utils/dateFormat';
+import type { ColumnMapping, DateFormatDetection, NumberFormat, NumberFormatDetection } from '../types';
 
 interface ColumnMappingProps {
   availableColumns: string[];
   initialMapping: Partial<ColumnMapping>;
   onMappingChange: (mapping: ColumnMapping) => void;
+  detectedNumberFormat?: NumberFormatDetection;
+  detectedDateFormat?: DateFormatDetection;
   className?: string;
 }
 
@@ -18,8 +22,16 @@ const OPTIONAL_FIELDS = [
   { key: 'vendor', label: 'Vendor', description: 'Company or supplier name' },
   { key: 'date', label: 'Date', description: 'Transaction date' },
   { key: 'category', label: 'Category', description: 'Expense category or type' },
+  { key: 'currency', label: 'Currency', description: 'ISO code or symbol; detected from the amounts when not mapped' },
+  { key: 'transactionType', label: 'Transaction Type', description: 'Payment method or bank transaction code, e.g. CHECK or ATM' },
 ] as const;
 
+const AUTO_FORMAT = 'auto';
+
+function getNumberFormatKey({ decimalSeparator, groupSeparator }: NumberFormat) {
+  return `${decimalSeparator}|${groupSeparator}`;
+}
+
 interface DropdownProps {
   value: string | undefined;
   options: string[];
@@ -114,6 +126,8 @@ export function ColumnMapping({
   availableColumns, 
   initialMapping, 
   onMappingChange, 
+  detectedNumberFormat,
+  detectedDateFormat,
   className 
 }: ColumnMappingProps) {
   const [mapping, setMapping] = useState<Partial<ColumnMapping>>(initialMapping);
@@ -128,7 +142,29 @@ export function ColumnMapping({
     }
   };
 
+  const updateNumberFormat = (key: string) => {
+    const numberFormat = NUMBER_FORMAT_OPTIONS.find(format => getNumberFormatKey(format) === key);
+    const newMapping = { ...mapping, numberFormat };
+    setMapping(newMapping);
+    
+    if (newMapping.amount) {
+      onMappingChange(newMapping as ColumnMapping);
+    }
+  };
+
+  const updateDateOrder = (value: string) => {
+    const dateOrder = DATE_ORDER_OPTIONS.find(order => order === value);
+    const newMapping = { ...mapping, dateOrder };
+    setMapping(newMapping);
+    
+    if (newMapping.amount) {
+      onMappingChange(newMapping as ColumnMapping);
+    }
+  };
+
   const isValid = mapping.amount !== undefined;
+  const detected = detectedNumberFormat?.source === 'detected' ? detectedNumberFormat : undefined;
+  const detectedDate = detectedDateFormat?.source === 'detected' ? detectedDateFormat : undefined;
 
   return (
     <div className={cn('space-y-6', className)}>
@@ -195,6 +231,66 @@ export function ColumnMapping({
             </div>
           ))}
         </div>
+
+        {/* Number Format */}
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700">
+            Number Format
+          </label>
+          <select
+            value={mapping.numberFormat ? getNumberFormatKey(mapping.numberFormat) : AUTO_FORMAT}
+            onChange={(e) => updateNumberFormat(e.target.value)}
+            className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+          >
+            <option value={AUTO_FORMAT}>
+              Auto-detect{detected ? ` (${describeNumberFormat(detected.format)})` : ''}
+            </option>
+            {NUMBER_FORMAT_OPTIONS.map(format => (
+              <option key={getNumberFormatKey(format)} value={getNumberFormatKey(format)}>
+                {describeNumberFormat(format)}
+              </option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500">
+            Decimal and thousands separators of the amount column, e.g. 1.234,56 for German or 1'234.56 for Swiss exports
+          </p>
+          {detected && detected.sampleSize > 0 && detected.decisiveCount === 0 && (
+            <p className="text-xs text-amber-600">
+              No amount in the sample settles the format; check it if amounts are written like 1.234
+            </p>
+          )}
+        </div>
+
+        {/* Date Format */}
+        {mapping.date && (
+          <div className="space-y-2">
+            <label className="block text-sm font-medium text-gray-700">
+              Date Format
+            </label>
+            <select
+              value={mapping.dateOrder ?? AUTO_FORMAT}
+              onChange={(e) => updateDateOrder(e.target.value)}
+              className="w-full px-3 py-2 bg-white border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+            >
+              <option value={AUTO_FORMAT}>
+                Auto-detect{detectedDate ? ` (${describeDateOrder(detectedDate.order)})` : ''}
+              </option>
+              {DATE_ORDER_OPTIONS.map(order => (
+                <option key={order} value={order}>
+                  {describeDateOrder(order)}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500">
+              Order of day and month in dates such as 03/04/2024; ISO dates and Excel serial dates are read either way
+            </p>
+            {detectedDate && !isDateOrderSettled(detectedDate) && detectedDate.ambiguousCount > 0 && (
+              <p className="text-xs text-amber-600">
+                No date in the sample has a day above 12, so day and month could be swapped; choose the format to confirm
+              </p>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Validation Status */}
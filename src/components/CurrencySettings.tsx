@@ -0,0 +1,134 @@
+import { useMemo, useRef, useState } from 'react';
+import { Coins, Upload, X } from 'lucide-react';
+import { cn } from '../utils/cn';
+import { CURRENCY_CODES, UNKNOWN_CURRENCY, countCurrencies, parseExchangeRatesCsv, rebaseExchangeRates } from '../utils/currency';
+import type { ExchangeRateTable, ProcessedDataset } from '../types';
+
+interface CurrencySettingsProps {
+  dataset: ProcessedDataset;
+  onExchangeRatesChange: (table: ExchangeRateTable | null) => void;
+  className?: string;
+}
+
+export function CurrencySettings({ dataset, onExchangeRatesChange, className }: CurrencySettingsProps) {
+  const [fileError, setFileError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const conversion = dataset.currencyConversion;
+
+  const currencyCounts = useMemo(
+    () => countCurrencies([...dataset.data, ...(dataset.credits ?? []), ...(dataset.unconverted ?? [])]),
+    [dataset.data, dataset.credits, dataset.unconverted]
+  );
+  const detectedCodes = currencyCounts.map(entry => entry.currency).filter(currency => currency !== UNKNOWN_CURRENCY);
+  const [reportingCurrency, setReportingCurrency] = useState(conversion?.reportingCurrency ?? detectedCodes[0] ?? 'USD');
+
+  if (currencyCounts.length < 2 && !conversion) return null;
+
+  const reportingOptions = Array.from(new Set([...detectedCodes, ...Array.from(CURRENCY_CODES).sort()]));
+
+  const handleReportingCurrencyChange = (currency: string) => {
+    setReportingCurrency(currency);
+    if (!conversion) return;
+    // Loaded rates are quoted in the old reporting currency; re-quote them, or
+    // drop them when the table cannot convert to the new currency
+    try {
+      onExchangeRatesChange(rebaseExchangeRates(conversion, currency));
+      setFileError(null);
+    } catch (error) {
+      onExchangeRatesChange(null);
+      setFileError(error instanceof Error ? error.message : 'Exchange rates removed');
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const rates = parseExchangeRatesCsv(await file.text());
+      setFileError(null);
+      onExchangeRatesChange({ reportingCurrency, rates });
+    } catch (error) {
+      setFileError(error instanceof Error ? error.message : 'Invalid exchange-rate file');
+    }
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200 p-6 space-y-4', className)}>
+      <div className="flex items-center space-x-3">
+        <Coins className="w-6 h-6 text-primary-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Currencies</h3>
+          <p className="text-sm text-gray-600">
+            Benford tests need amounts in one currency. Upload an exchange-rate table (CSV with date, currency and rate
+            columns, where rate is the value of one unit in the reporting currency) to convert before analysis.
+          </p>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {currencyCounts.map(({ currency, count }) => (
+          <span key={currency} className="px-2 py-1 text-xs font-medium rounded bg-gray-100 text-gray-700">
+            {currency} · {count.toLocaleString()} rows
+          </span>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-4">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Reporting Currency</label>
+          <select
+            value={reportingCurrency}
+            onChange={(e) => handleReportingCurrencyChange(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          >
+            {reportingOptions.map(code => (
+              <option key={code} value={code}>{code}</option>
+            ))}
+          </select>
+        </div>
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          <Upload className="w-4 h-4" />
+          <span>{conversion ? 'Replace Exchange Rates' : 'Upload Exchange Rates'}</span>
+        </button>
+        {conversion && (
+          <button
+            type="button"
+            onClick={() => onExchangeRatesChange(null)}
+            className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            <X className="w-4 h-4" />
+            <span>Remove Rates</span>
+          </button>
+        )}
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+      </div>
+
+      {fileError && (
+        <p className="text-sm text-red-600 whitespace-pre-line">{fileError}</p>
+      )}
+
+      {conversion && (
+        <div className="text-sm text-gray-700 space-y-1">
+          <p>
+            {conversion.rates.length.toLocaleString()} rates loaded; {conversion.convertedRows.toLocaleString()} rows
+            converted to {conversion.reportingCurrency}.
+          </p>
+          {conversion.unconvertedRows > 0 && (
+            <p className="text-amber-700">
+              {conversion.unconvertedRows.toLocaleString()} rows in {conversion.missingCurrencies.join(', ')} have no rate and
+              are left out of the analysis.
+            </p>
+          )}
+          {currencyCounts.some(entry => entry.currency === UNKNOWN_CURRENCY) && (
+            <p className="text-gray-500">Rows without a currency are taken to be in {conversion.reportingCurrency}.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import { useEffect, useRef, useState } from 'react';
+import { Download, Edit2, Plus, Trash2, Upload } from 'lucide-react';
+import { useCustomRules } from '../hooks/useCustomRules';
+import { CUSTOM_RULE_SEVERITIES, exportCustomRulesJson } from '../utils/customRules';
+import { RULE_FIELDS, RULE_FUNCTIONS, validateRuleExpression } from '../utils/ruleExpression';
+import { CUSTOM_RULE_WEIGHTS } from '../utils/flagRules';
+import { cn } from '../utils/cn';
+import type { CustomRule, CustomRuleSeverity } from '../types';
+
+interface CustomRulesEditorProps {
+  userId: string;
+  onSuccess: (message: string) => void;
+  onError: (message: string) => void;
+}
+
+type RuleDraft = Omit<CustomRule, 'id'> & { id?: string };
+
+const EMPTY_DRAFT: RuleDraft = { name: '', expression: '', severity: 'medium', enabled: true };
+
+const EXAMPLE_RULES = [
+  'category == "Meals" and amount > 250',
+  'weekday(date) in [Sat, Sun]',
+  'vendor matches /cash/i and isRound(amount, 100)',
+];
+
+const SEVERITY_STYLES: Record<CustomRuleSeverity, string> = {
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-orange-100 text-orange-800',
+  critical: 'bg-red-100 text-red-800',
+};
+
+export function CustomRulesEditor({ userId, onSuccess, onError }: CustomRulesEditorProps) {
+  const { rules, isLoading, error, loadRules, saveRule, deleteRule, importRules } = useCustomRules();
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadRules(userId);
+  }, [userId, loadRules]);
+
+  const expressionError = draft.expression.trim() ? validateRuleExpression(draft.expression) : null;
+  const canSave = draft.name.trim() !== '' && draft.expression.trim() !== '' && !expressionError;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    try {
+      await saveRule({ ...draft, name: draft.name.trim() });
+      onSuccess(draft.id ? `Rule "${draft.name.trim()}" updated` : `Rule "${draft.name.trim()}" added`);
+      setDraft(EMPTY_DRAFT);
+    } catch (saveError) {
+      console.error('Failed to save custom rule:', saveError);
+      onError('Failed to save custom rule');
+    }
+  };
+
+  const handleToggle = async (rule: CustomRule) => {
+    try {
+      await saveRule({ ...rule, enabled: !rule.enabled });
+    } catch (saveError) {
+      console.error('Failed to update custom rule:', saveError);
+      onError('Failed to update custom rule');
+    }
+  };
+
+  const handleDelete = async (rule: CustomRule) => {
+    if (!window.confirm(`Delete rule "${rule.name}"?`)) return;
+    try {
+      await deleteRule(rule.id);
+      if (draft.id === rule.id) setDraft(EMPTY_DRAFT);
+      onSuccess(`Rule "${rule.name}" deleted`);
+    } catch (deleteError) {
+      console.error('Failed to delete custom rule:', deleteError);
+      onError('Failed to delete custom rule');
+    }
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportCustomRulesJson(rules)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `custom_rules_${new Date().toISOString().split('T')[0]}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const count = await importRules(await file.text());
+      onSuccess(`Imported ${count} rule${count === 1 ? '' : 's'}`);
+    } catch (importError) {
+      onError(`Import failed: ${importError instanceof Error ? importError.message : 'invalid file'}`);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between">
+        <div>
+          <h4 className="text-md font-medium text-gray-900 mb-1">Custom Rules</h4>
+          <p className="text-sm text-gray-500">
+            Conditions checked against every transaction alongside the built-in flags. A matching rule adds its severity to the transaction's risk score.
+          </p>
+        </div>
+        <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+          >
+            <Upload className="w-4 h-4" />
+            <span>Import</span>
+          </button>
+          <button
+            type="button"
+            onClick={handleExport}
+            disabled={rules.length === 0}
+            className="flex items-center space-x-1 px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Download className="w-4 h-4" />
+            <span>Export</span>
+          </button>
+          <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+        </div>
+      </div>
+
+      {/* Rule form */}
+      <div className="bg-gray-50 border border-gray-200 rounded-lg p-4 space-y-3">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="md:col-span-2">
+            <label className="block text-sm font-medium text-gray-700 mb-1">Rule Name</label>
+            <input
+              type="text"
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              placeholder="Large weekend meals"
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Severity</label>
+            <select
+              value={draft.severity}
+              onChange={(e) => setDraft({ ...draft, severity: e.target.value as CustomRuleSeverity })}
+              className="block w-full px-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {CUSTOM_RULE_SEVERITIES.map(severity => (
+                <option key={severity} value={severity}>
+                  {severity.charAt(0).toUpperCase() + severity.slice(1)} (+{CUSTOM_RULE_WEIGHTS[severity]})
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Condition</label>
+          <textarea
+            value={draft.expression}
+            onChange={(e) => setDraft({ ...draft, expression: e.target.value })}
+            rows={2}
+            spellCheck={false}
+            className={cn(
+              'block w-full px-3 py-2 font-mono text-sm border rounded-lg focus:outline-none focus:ring-2 focus:border-transparent',
+              expressionError ? 'border-red-300 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'
+            )}
+            placeholder={EXAMPLE_RULES[0]}
+          />
+          {expressionError ? (
+            <p className="mt-1 text-sm text-red-600">{expressionError}</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">
+              Fields: {RULE_FIELDS.join(', ')}. Functions: {RULE_FUNCTIONS.join(', ')}.
+              Combine with and, or, not; compare with ==, !=, &lt;, &gt;, in [..], matches /../, contains. Text comparisons ignore case.
+            </p>
+          )}
+        </div>
+
+        <div className="flex items-center justify-between">
+          <label className="flex items-center space-x-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={draft.enabled}
+              onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span>Enabled</span>
+          </label>
+          <div className="flex items-center space-x-2">
+            {draft.id && (
+              <button
+                type="button"
+                onClick={() => setDraft(EMPTY_DRAFT)}
+                className="px-3 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={!canSave}
+              className="flex items-center space-x-1 px-3 py-2 text-sm font-medium bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Plus className="w-4 h-4" />
+              <span>{draft.id ? 'Update Rule' : 'Add Rule'}</span>
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Saved rules */}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+      {isLoading ? (
+        <p className="text-sm text-gray-500">Loading rules...</p>
+      ) : rules.length === 0 ? (
+        <div className="text-sm text-gray-500">
+          <p>No custom rules yet. For example:</p>
+          <ul className="mt-1 space-y-1">
+            {EXAMPLE_RULES.map(example => (
+              <li key={example}>
+                <button
+                  type="button"
+                  onClick={() => setDraft({ ...draft, expression: example })}
+                  className="font-mono text-xs text-blue-600 hover:text-blue-700"
+                >
+                  {example}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : (
+        <ul className="divide-y divide-gray-200 border border-gray-200 rounded-lg">
+          {rules.map(rule => {
+            const ruleError = validateRuleExpression(rule.expression);
+            return (
+              <li key={rule.id} className={cn('flex items-center justify-between p-3', !rule.enabled && 'opacity-60')}>
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{rule.name}</span>
+                    <span className={cn('px-2 py-0.5 text-xs font-medium rounded-full', SEVERITY_STYLES[rule.severity])}>
+                      {rule.severity}
+                    </span>
+                  </div>
+                  <code className="block mt-1 text-xs text-gray-600 truncate">{rule.expression}</code>
+                  {ruleError && <p className="mt-1 text-xs text-red-600">{ruleError}</p>}
+                </div>
+                <div className="flex items-center space-x-3 ml-4">
+                  <label className="flex items-center space-x-1 text-xs text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => handleToggle(rule)}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>Enabled</span>
+                  </label>
+                  <button
+                    type="button"
+                    onClick={() => setDraft(rule)}
+                    className="text-gray-400 hover:text-blue-600"
+                    title="Edit rule"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(rule)}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Delete rule"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { ChevronLeft, ChevronRight, Eye, AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
+import { ChevronLeft, ChevronRight, Eye, AlertCircle, CheckCircle2, XCircle, RotateCcw } from 'lucide-react';
 import { cn } from '../utils/cn';
 import type { ProcessedDataset, CleanedDataRow } from '../types';
 
@@ -94,6 +94,11 @@ export function DataPreview({ dataset, className }: DataPreviewProps) {
             <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
               Category
             </th>
+            {dataset.columnMapping.transactionType && (
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Transaction Type
+              </th>
+            )}
           </tr>
         </thead>
         <tbody className="bg-white divide-y divide-gray-200">
@@ -107,10 +112,18 @@ export function DataPreview({ dataset, className }: DataPreviewProps) {
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                 {formatValue(row.date)}
+                {row.dateAmbiguous && (
+                  <span className="ml-1 text-amber-600" title="Day and month could be swapped">?</span>
+                )}
               </td>
               <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
                 {formatValue(row.category)}
               </td>
+              {dataset.columnMapping.transactionType && (
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {formatValue(row.transactionType)}
+                </td>
+              )}
             </tr>
           ))}
         </tbody>
@@ -158,7 +171,7 @@ export function DataPreview({ dataset, className }: DataPreviewProps) {
       </div>
 
       {/* Validation Summary */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className={cn('grid grid-cols-1 gap-4', validation.creditRows > 0 ? 'md:grid-cols-4' : 'md:grid-cols-3')}>
         <div className="p-4 bg-blue-50 rounded-lg border border-blue-200">
           <div className="flex items-center space-x-2">
             <Eye className="w-5 h-5 text-blue-600" />
@@ -188,6 +201,19 @@ export function DataPreview({ dataset, className }: DataPreviewProps) {
             {validation.removedRows.toLocaleString()}
           </p>
         </div>
+
+        {validation.creditRows > 0 && (
+          <div className="p-4 bg-amber-50 rounded-lg border border-amber-200">
+            <div className="flex items-center space-x-2">
+              <RotateCcw className="w-5 h-5 text-amber-600" />
+              <span className="text-sm font-medium text-amber-900">Credits &amp; Refunds</span>
+            </div>
+            <p className="text-2xl font-bold text-amber-900 mt-1">
+              {validation.creditRows.toLocaleString()}
+            </p>
+            <p className="text-xs text-amber-700 mt-1">Negative amounts, analyzed separately</p>
+          </div>
+        )}
       </div>
 
       {/* Errors and Warnings */}
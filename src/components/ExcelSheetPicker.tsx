@@ -0,0 +1,90 @@
+import { FileSpreadsheet } from 'lucide-react';
+import { cn } from '../utils/cn';
+import type { ExcelSheetSelection, ExcelWorkbookSummary } from '../types';
+
+interface ExcelSheetPickerProps {
+  summary: ExcelWorkbookSummary;
+  selection: ExcelSheetSelection[];
+  onSelectionChange: (selection: ExcelSheetSelection[]) => void;
+  className?: string;
+}
+
+export function ExcelSheetPicker({ summary, selection, onSelectionChange, className }: ExcelSheetPickerProps) {
+  const toggleSheet = (name: string, headerRow: number) => {
+    const isSelected = selection.some(entry => entry.name === name);
+    if (isSelected && selection.length === 1) return; // at least one sheet stays selected
+
+    // Keep the workbook's sheet order when stacking
+    const next = isSelected
+      ? selection.filter(entry => entry.name !== name)
+      : summary.sheets
+        .filter(sheet => sheet.name === name || selection.some(entry => entry.name === sheet.name))
+        .map(sheet => selection.find(entry => entry.name === sheet.name) ?? { name, headerRow });
+    onSelectionChange(next);
+  };
+
+  const updateHeaderRow = (name: string, value: string) => {
+    const rowNumber = parseInt(value, 10);
+    if (!(rowNumber >= 1)) return;
+    onSelectionChange(selection.map(entry => (entry.name === name ? { ...entry, headerRow: rowNumber - 1 } : entry)));
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200 p-6 space-y-4', className)}>
+      <div className="flex items-center space-x-3">
+        <FileSpreadsheet className="w-6 h-6 text-primary-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Sheets</h3>
+          <p className="text-sm text-gray-600">
+            Choose the sheets to analyze. Several sheets are stacked into one dataset, with a column naming each
+            row's sheet. Check the header row if a sheet starts with title rows.
+          </p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {summary.sheets.map(sheet => {
+          const selected = selection.find(entry => entry.name === sheet.name);
+          return (
+            <div key={sheet.name} className="flex flex-wrap items-center justify-between gap-3 px-4 py-3">
+              <label className="flex items-center space-x-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected !== undefined}
+                  onChange={() => toggleSheet(sheet.name, sheet.headerRow)}
+                  className="rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                />
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{sheet.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {sheet.rowCount.toLocaleString()} rows · {sheet.columns.length} columns
+                    {sheet.totalRowsSkipped > 0 && ` · ${sheet.totalRowsSkipped} total row${sheet.totalRowsSkipped === 1 ? '' : 's'} skipped`}
+                  </div>
+                </div>
+              </label>
+              {selected && (
+                <div className="flex items-center space-x-2">
+                  <label htmlFor={`header-row-${sheet.name}`} className="text-sm text-gray-700">Header row</label>
+                  <input
+                    id={`header-row-${sheet.name}`}
+                    type="number"
+                    min={1}
+                    value={selected.headerRow + 1}
+                    onChange={(e) => updateHeaderRow(sheet.name, e.target.value)}
+                    className="w-20 px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  />
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {summary.hiddenSheets.length > 0 && (
+        <p className="text-xs text-gray-500">
+          Hidden sheets are not imported: {summary.hiddenSheets.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,50 @@
 import { useCallback, useState } from 'react';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle2, XCircle } from 'lucide-react';
 import { cn } from '../utils/cn';
-import type { FileUploadState, FileType } from '../types';
+import { getFileType } from '../utils/dataProcessing';
+import type { FileUploadState, FileType, StreamingImportProgress } from '../types';
 
 interface FileUploadProps {
   onFileSelect: (file: File, fileType: FileType) => void;
+  onFilesSelect?: (files: File[]) => void; // several files at once, to be combined
   uploadState: FileUploadState;
+  importProgress?: StreamingImportProgress | null;
+  onCancelImport?: () => void;
   className?: string;
 }
 
-const ACCEPTED_EXTENSIONS = ['.csv', '.xlsx', '.xls', '.json'];
+const ACCEPTED_EXTENSIONS = ['.csv', '.xlsx', '.xls', '.json', '.ofx', '.qfx', '.qif', '.xml'];
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+const MAX_CSV_FILE_SIZE = 2 * 1024 * 1024 * 1024; // 2GB, imported in chunks
 
-export function FileUpload({ onFileSelect, uploadState, className }: FileUploadProps) {
+function formatBytes(bytes: number) {
+  return bytes >= 1024 * 1024 * 1024
+    ? `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Check a dropped file's extension and size. Combined files are read whole,
+ * so only a single CSV may exceed 50MB.
+ */
+function validateFile(file: File, combining: boolean): FileType {
+  // Get file extension
+  const extension = '.' + file.name.toLowerCase().split('.').pop();
+  if (!ACCEPTED_EXTENSIONS.includes(extension)) {
+    throw new Error(`Unsupported file type. Please upload: ${ACCEPTED_EXTENSIONS.join(', ')}`);
+  }
+
+  // Validate file size; only CSV can be streamed past 50MB
+  const maxSize = extension === '.csv' && !combining ? MAX_CSV_FILE_SIZE : MAX_FILE_SIZE;
+  if (file.size > maxSize) {
+    throw new Error(maxSize === MAX_CSV_FILE_SIZE ? 'CSV files must be less than 2GB' : `${file.name} must be less than 50MB`);
+  }
+
+  return getFileType(file.name);
+}
+
+export function FileUpload({ onFileSelect, onFilesSelect, uploadState, importProgress, onCancelImport, className }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false);
 
   const onDrop = useCallback(
@@ -22,29 +53,19 @@ export function FileUpload({ onFileSelect, uploadState, className }: FileUploadP
       if (!file) return;
 
       try {
-        // Validate file size
-        if (file.size > MAX_FILE_SIZE) {
-          throw new Error('File size must be less than 50MB');
-        }
-
-        // Get file extension
-        const extension = '.' + file.name.toLowerCase().split('.').pop();
-        if (!ACCEPTED_EXTENSIONS.includes(extension)) {
-          throw new Error(`Unsupported file type. Please upload: ${ACCEPTED_EXTENSIONS.join(', ')}`);
+        if (acceptedFiles.length > 1 && onFilesSelect) {
+          acceptedFiles.forEach(accepted => validateFile(accepted, true));
+          onFilesSelect(acceptedFiles);
+          return;
         }
 
-        // Determine file type
-        const fileType: FileType = 
-          extension === '.csv' ? 'csv' :
-          extension === '.json' ? 'json' : 'xlsx';
-
-        onFileSelect(file, fileType);
+        onFileSelect(file, validateFile(file, false));
       } catch (error) {
         // Error handling will be done in parent component
         console.error('File selection error:', error);
       }
     },
-    [onFileSelect]
+    [onFileSelect, onFilesSelect]
   );
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
@@ -54,9 +75,12 @@ export function FileUpload({ onFileSelect, uploadState, className }: FileUploadP
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
       'application/vnd.ms-excel': ['.xls'],
       'application/json': ['.json'],
+      'application/x-ofx': ['.ofx', '.qfx'],
+      'application/x-qif': ['.qif'],
+      'application/xml': ['.xml'],
     },
-    maxFiles: 1,
-    maxSize: MAX_FILE_SIZE,
+    maxFiles: onFilesSelect ? 0 : 1, // 0 means no limit
+    maxSize: MAX_CSV_FILE_SIZE,
     onDragEnter: () => setDragActive(true),
     onDragLeave: () => setDragActive(false),
     onDropAccepted: () => setDragActive(false),
@@ -72,6 +96,14 @@ export function FileUpload({ onFileSelect, uploadState, className }: FileUploadP
       };
     }
 
+    if (uploadState.files && uploadState.files.length > 1) {
+      return {
+        icon: CheckCircle2,
+        text: `${uploadState.files.length} files selected`,
+        className: 'text-green-600 border-green-300 bg-green-50',
+      };
+    }
+
     if (uploadState.file) {
       return {
         icon: CheckCircle2,
@@ -84,7 +116,9 @@ export function FileUpload({ onFileSelect, uploadState, className }: FileUploadP
       icon: Upload,
       text: isDragActive || dragActive
         ? 'Drop your file here...'
-        : 'Drop your file here, or click to browse',
+        : onFilesSelect
+          ? 'Drop your file here, or click to browse (several files are combined)'
+          : 'Drop your file here, or click to browse',
       className: isDragActive || dragActive
         ? 'text-primary-600 border-primary-400 bg-primary-50'
         : 'text-gray-600 border-gray-300 bg-gray-50',
@@ -117,10 +151,10 @@ export function FileUpload({ onFileSelect, uploadState, className }: FileUploadP
             {!uploadState.file && !uploadState.error && (
               <>
                 <p className="text-sm text-gray-500">
-                  Supported formats: CSV, Excel (.xlsx, .xls), JSON
+                  Supported formats: CSV, Excel (.xlsx, .xls), JSON, bank statements (OFX/QFX, QIF, CAMT.053 XML)
                 </p>
                 <p className="text-xs text-gray-400">
-                  Maximum file size: 50MB
+                  Maximum file size: 50MB (CSV up to 2GB)
                 </p>
               </>
             )}
@@ -147,18 +181,56 @@ export function FileUpload({ onFileSelect, uploadState, className }: FileUploadP
       </div>
 
       {uploadState.file && !uploadState.error && (
-        <div className="mt-4 p-4 bg-gray-50 rounded-lg">
-          <div className="flex items-center space-x-3">
-            <FileText className="w-5 h-5 text-gray-600" />
-            <div className="flex-1">
-              <p className="text-sm font-medium text-gray-900">
-                {uploadState.file.name}
+        <div className="mt-4 p-4 bg-gray-50 rounded-lg space-y-3">
+          {(uploadState.files ?? [uploadState.file]).map((file, index) => (
+            <div key={`${file.name}-${index}`} className="flex items-center space-x-3">
+              <FileText className="w-5 h-5 text-gray-600" />
+              <div className="flex-1">
+                <p className="text-sm font-medium text-gray-900">
+                  {file.name}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {(file.size / 1024).toFixed(1)} KB • {file.name.split('.').pop()?.toUpperCase()}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {uploadState.isUploading && importProgress && (
+        <div className="mt-4 p-4 bg-primary-50 border border-primary-200 rounded-lg">
+          <div className="flex items-center justify-between">
+            <div className="text-sm text-primary-900 space-y-1">
+              <p className="font-medium">
+                Streaming import: {formatBytes(importProgress.bytesProcessed)} of {formatBytes(importProgress.totalBytes)}
               </p>
-              <p className="text-xs text-gray-500">
-                {(uploadState.file.size / 1024).toFixed(1)} KB • {uploadState.fileType?.toUpperCase()}
+              <p className="text-xs text-primary-700">
+                {importProgress.rowsProcessed.toLocaleString()} rows read • {importProgress.validRows.toLocaleString()} valid •{' '}
+                {importProgress.rowsPerSecond.toLocaleString()} rows/sec
               </p>
             </div>
+            {onCancelImport && (
+              <button
+                onClick={onCancelImport}
+                className="flex items-center space-x-1 px-3 py-2 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50 transition-colors"
+              >
+                <XCircle className="w-4 h-4" />
+                <span>Cancel</span>
+              </button>
+            )}
           </div>
+
+          {importProgress.validRows > 0 && (
+            <div className="mt-3 grid grid-cols-9 gap-1 text-center text-xs">
+              {importProgress.firstDigitCounts.slice(1).map((count, index) => (
+                <div key={index} className="bg-white rounded px-1 py-1">
+                  <div className="font-medium text-gray-900">{index + 1}</div>
+                  <div className="text-gray-500">{((count / importProgress.validRows) * 100).toFixed(1)}%</div>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,102 @@
+import { Files, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { cn } from '../utils/cn';
+import { SOURCE_FILE_COLUMN } from '../utils/fileCombiner';
+import type { ColumnAliases, SchemaReconciliation } from '../types';
+
+interface SourceFilesReviewProps {
+  reconciliation: SchemaReconciliation;
+  aliases: ColumnAliases;
+  onAliasesChange: (aliases: ColumnAliases) => void;
+  onCombine: () => void;
+  className?: string;
+}
+
+export function SourceFilesReview({ reconciliation, aliases, onAliasesChange, onCombine, className }: SourceFilesReviewProps) {
+  const totalRows = reconciliation.files.reduce((sum, file) => sum + file.rowCount, 0);
+
+  const updateAlias = (fileName: string, column: string, target: string) => {
+    const fileAliases = { ...(aliases[fileName] ?? {}) };
+    if (target) {
+      fileAliases[column] = target;
+    } else {
+      delete fileAliases[column];
+    }
+    onAliasesChange({ ...aliases, [fileName]: fileAliases });
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200 p-6 space-y-4', className)}>
+      <div className="flex items-center space-x-3">
+        <Files className="w-6 h-6 text-primary-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">Combine Files</h3>
+          <p className="text-sm text-gray-600">
+            Columns are matched by name, ignoring case and spacing. Not every file has the same columns: map a column
+            to the one it matches in the other files, or combine as is and leave missing columns blank. A
+            "{SOURCE_FILE_COLUMN}" column is added.
+          </p>
+        </div>
+      </div>
+
+      <div className="divide-y divide-gray-200 border border-gray-200 rounded-md">
+        {reconciliation.files.map(file => {
+          const fileAliases = aliases[file.name] ?? {};
+          const mappable = Array.from(new Set([...Object.keys(fileAliases), ...file.extraColumns]));
+          return (
+            <div key={file.name} className="px-4 py-3 space-y-2">
+              <div className="flex items-center justify-between">
+                <div>
+                  <div className="text-sm font-medium text-gray-900">{file.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {file.rowCount.toLocaleString()} rows · {file.columns.length} columns
+                  </div>
+                </div>
+                {file.missingColumns.length === 0 ? (
+                  <span className="flex items-center space-x-1 text-xs text-green-700">
+                    <CheckCircle2 className="w-4 h-4" />
+                    <span>All columns</span>
+                  </span>
+                ) : (
+                  <span className="flex items-center space-x-1 text-xs text-amber-700">
+                    <AlertTriangle className="w-4 h-4" />
+                    <span>Missing: {file.missingColumns.join(', ')}</span>
+                  </span>
+                )}
+              </div>
+
+              {mappable.map(column => (
+                <div key={column} className="flex flex-wrap items-center gap-2 text-sm">
+                  <span className="text-gray-700">"{column}"</span>
+                  <span className="text-gray-400">→</span>
+                  <select
+                    value={fileAliases[column] ?? ''}
+                    onChange={(e) => updateAlias(file.name, column, e.target.value)}
+                    className="px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                  >
+                    <option value="">Keep as its own column</option>
+                    {(fileAliases[column] ? [fileAliases[column], ...file.missingColumns] : file.missingColumns).map(target => (
+                      <option key={target} value={target}>{target}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between">
+        <p className="text-sm text-gray-600">
+          {reconciliation.files.length} files · {totalRows.toLocaleString()} rows · {reconciliation.columns.length} columns
+        </p>
+        <button
+          type="button"
+          onClick={onCombine}
+          className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-md hover:bg-primary-700 transition-colors"
+        >
+          Combine {reconciliation.files.length} Files
+        </button>
+      </div>
+    </div>
+  );
+}
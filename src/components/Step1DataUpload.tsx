@@ -1,10 +1,16 @@
-import { ArrowRight, CheckCircle2, Upload, Settings, Eye } from 'lucide-react';
+import { ArrowRight, CheckCircle2, Upload, Settings, Eye, Landmark } from 'lucide-react';
 import { FileUpload } from './FileUpload';
 import { ColumnMapping } from './ColumnMapping';
+import { ExcelSheetPicker } from './ExcelSheetPicker';
+import { SourceFilesReview } from './SourceFilesReview';
 import { DataPreview } from './DataPreview';
 import { SampleDataGenerator } from './SampleDataGenerator';
+import { VendorMergeReview } from './VendorMergeReview';
+import { CurrencySettings } from './CurrencySettings';
 import { useDataUpload } from '../hooks/useDataUpload';
 import { cn } from '../utils/cn';
+import { getFileType } from '../utils/dataProcessing';
+import { isBankStatement } from '../utils/bankStatements';
 import type { ProcessedDataset } from '../types';
 
 interface Step1DataUploadProps {
@@ -75,8 +81,20 @@ export function Step1DataUpload({ onComplete, className }: Step1DataUploadProps)
     availableColumns,
     suggestedMapping,
     processedDataset,
+    importProgress,
+    workbookSummary,
+    sheetSelection,
+    schemaReconciliation,
+    columnAliases,
     handleFileSelect,
+    handleFilesSelect,
+    updateColumnAliases,
+    combineSourceFiles,
     updateColumnMapping,
+    updateSheetSelection,
+    updateVendorMergeMap,
+    updateExchangeRates,
+    cancelImport,
     resetUpload,
     isFileUploaded,
     isColumnsMapped,
@@ -94,6 +112,10 @@ export function Step1DataUpload({ onComplete, className }: Step1DataUploadProps)
 
   const currentStep = getCurrentStep();
 
+  // Bank statements map their columns themselves
+  const uploadedFiles = uploadState.files ?? (uploadState.file ? [uploadState.file] : []);
+  const isStatementUpload = uploadedFiles.length > 0 && uploadedFiles.every(file => isBankStatement(getFileType(file.name)));
+
   const handleProceedToAnalysis = () => {
     if (canProceedToAnalysis && processedDataset) {
       onComplete(processedDataset);
@@ -159,9 +181,29 @@ export function Step1DataUpload({ onComplete, className }: Step1DataUploadProps)
           
           <FileUpload
             onFileSelect={handleFileSelect}
+            onFilesSelect={handleFilesSelect}
             uploadState={uploadState}
+            importProgress={importProgress}
+            onCancelImport={cancelImport}
           />
           
+          {schemaReconciliation && !uploadState.error && (
+            <SourceFilesReview
+              reconciliation={schemaReconciliation}
+              aliases={columnAliases}
+              onAliasesChange={updateColumnAliases}
+              onCombine={combineSourceFiles}
+            />
+          )}
+          
+          {isFileUploaded && workbookSummary && (
+            <ExcelSheetPicker
+              summary={workbookSummary}
+              selection={sheetSelection}
+              onSelectionChange={updateSheetSelection}
+            />
+          )}
+          
           {uploadState.error && (
             <div className="flex justify-center">
               <button
@@ -180,11 +222,27 @@ export function Step1DataUpload({ onComplete, className }: Step1DataUploadProps)
             'border-t border-gray-200 pt-8 space-y-6',
             currentStep > 2 && 'opacity-75'
           )}>
-            <ColumnMapping
-              availableColumns={availableColumns}
-              initialMapping={suggestedMapping}
-              onMappingChange={updateColumnMapping}
-            />
+            {isStatementUpload ? (
+              <div className="bg-white rounded-lg border border-gray-200 p-6 flex items-start space-x-3">
+                <Landmark className="w-6 h-6 text-primary-600 flex-shrink-0" />
+                <div>
+                  <h3 className="text-lg font-semibold text-gray-900">Bank Statement</h3>
+                  <p className="text-sm text-gray-600">
+                    Payee, amount, booking date, transaction type, currency and debit/credit direction are mapped
+                    automatically. Debits are analyzed as payments; credits are kept apart as the credit stream.
+                  </p>
+                </div>
+              </div>
+            ) : (
+              <ColumnMapping
+                key={availableColumns.join('\n')}
+                availableColumns={availableColumns}
+                initialMapping={suggestedMapping}
+                onMappingChange={updateColumnMapping}
+                detectedNumberFormat={processedDataset?.numberFormat}
+                detectedDateFormat={processedDataset?.dateFormat}
+              />
+            )}
           </div>
         )}
 
@@ -192,6 +250,12 @@ export function Step1DataUpload({ onComplete, className }: Step1DataUploadProps)
         {isColumnsMapped && processedDataset && (
           <div className="border-t border-gray-200 pt-8 space-y-6">
             <DataPreview dataset={processedDataset} />
+            <CurrencySettings dataset={processedDataset} onExchangeRatesChange={updateExchangeRates} />
+            <VendorMergeReview
+              data={processedDataset.data}
+              mergeMap={processedDataset.vendorMergeMap}
+              onMergeMapChange={updateVendorMergeMap}
+            />
             
             {/* Action Buttons */}
             <div className="flex items-center justify-between pt-6 border-t border-gray-200">
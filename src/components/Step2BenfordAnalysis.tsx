@@ -1,10 +1,16 @@
-import { ArrowLeft, ArrowRight, Play, BarChart3, AlertTriangle, CheckCircle } from 'lucide-react';
+import { ArrowLeft, ArrowRight, Play, BarChart3, AlertTriangle, CheckCircle, XCircle } from 'lucide-react';
 import { BenfordResults } from './BenfordResults';
 import { useBenfordAnalysis } from '../hooks/useBenfordAnalysis';
 import { cn } from '../utils/cn';
-import type { ProcessedDataset } from '../types';
+import type { AnalysisStage, ProcessedDataset } from '../types';
 import { useEffect } from 'react';
 
+const ANALYSIS_STAGES: { id: AnalysisStage; label: string }[] = [
+  { id: 'digits', label: 'Running digit tests' },
+  { id: 'vendors', label: 'Analyzing vendors, categories and duplicates' },
+  { id: 'flags', label: 'Flagging suspicious transactions' },
+];
+
 interface Step2BenfordAnalysisProps {
   dataset: ProcessedDataset;
   onBack: () => void;
@@ -17,7 +23,9 @@ export function Step2BenfordAnalysis({ dataset, onBack, onContinue, className }:
     benfordResult,
     isAnalyzing,
     analysisError,
+    progress,
     runAnalysis,
+    cancelAnalysis,
     resetAnalysis,
     hasResult,
     isCompliant,
@@ -180,6 +188,9 @@ export function Step2BenfordAnalysis({ dataset, onBack, onContinue, className }:
   }
 
   if (isAnalyzing) {
+    const percent = progress?.percent ?? 0;
+    const stageIndex = progress ? ANALYSIS_STAGES.findIndex(stage => stage.id === progress.stage) : -1;
+
     return (
       <div className={cn('max-w-4xl mx-auto space-y-8', className)}>
         <div className="text-center space-y-6">
@@ -201,21 +212,44 @@ export function Step2BenfordAnalysis({ dataset, onBack, onContinue, className }:
               Applying Benford's Law analysis to {dataset.validation.validRows.toLocaleString()} transactions...
             </p>
             
-            <div className="max-w-md mx-auto space-y-2 text-sm text-gray-500">
-              <div className="flex items-center justify-center space-x-2">
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse"></div>
-                <span>Extracting first digits</span>
-              </div>
-              <div className="flex items-center justify-center space-x-2">
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse animation-delay-200"></div>
-                <span>Calculating statistical deviations</span>
-              </div>
-              <div className="flex items-center justify-center space-x-2">
-                <div className="w-2 h-2 bg-blue-600 rounded-full animate-pulse animation-delay-400"></div>
-                <span>Identifying suspicious patterns</span>
+            <div className="max-w-md mx-auto space-y-2">
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${percent}%` }}
+                ></div>
               </div>
+              <p className="text-xs text-gray-500">
+                {progress ? `${progress.message} (${Math.round(percent)}%)` : 'Starting analysis'}
+              </p>
+            </div>
+            
+            <div className="max-w-md mx-auto space-y-2 text-sm">
+              {ANALYSIS_STAGES.map((stage, index) => (
+                <div key={stage.id} className="flex items-center justify-center space-x-2">
+                  {index < stageIndex ? (
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                  ) : (
+                    <div className={cn(
+                      'w-2 h-2 rounded-full',
+                      index === stageIndex ? 'bg-blue-600 animate-pulse' : 'bg-gray-300'
+                    )}></div>
+                  )}
+                  <span className={index === stageIndex ? 'text-gray-900 font-medium' : 'text-gray-500'}>
+                    {stage.label}
+                  </span>
+                </div>
+              ))}
             </div>
           </div>
+          
+          <button
+            onClick={cancelAnalysis}
+            className="inline-flex items-center space-x-2 px-4 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 transition-colors"
+          >
+            <XCircle className="w-4 h-4" />
+            <span>Cancel Analysis</span>
+          </button>
         </div>
       </div>
     );
@@ -2,11 +2,23 @@ import { useState, useEffect } from 'react';
 import { ArrowLeft, Download, FileText, BarChart3, Sparkles } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { useBenfordAnalysis } from '../hooks/useBenfordAnalysis';
+import { formatEnding } from '../utils/benfordAnalysis';
+import { formatEvidence } from '../utils/flagRules';
 import { RiskSummary } from './dashboard/RiskSummary';
 import { BenfordChart } from './charts/BenfordChart';
+import { FirstTwoDigitsChart } from './charts/FirstTwoDigitsChart';
 import { DeviationHeatmap } from './charts/DeviationHeatmap';
+import { DriftChart } from './charts/DriftChart';
 import { VendorsTable } from './tables/VendorsTable';
+import { CategoriesTable } from './tables/CategoriesTable';
 import { TransactionsTable } from './tables/TransactionsTable';
+import { SummationTable } from './tables/SummationTable';
+import { DuplicationTable } from './tables/DuplicationTable';
+import { DuplicatePaymentsTable } from './tables/DuplicatePaymentsTable';
+import { OutliersTable } from './tables/OutliersTable';
+import { DuplicateVendorsTable } from './tables/DuplicateVendorsTable';
+import { CreditsTable } from './tables/CreditsTable';
+import { CurrenciesTable } from './tables/CurrenciesTable';
 import type { ProcessedDataset, VendorAnalysis, FlaggedTransaction } from '../types';
 
 interface Step3VisualizationDashboardProps {
@@ -17,7 +29,7 @@ interface Step3VisualizationDashboardProps {
 }
 
 export function Step3VisualizationDashboard({ dataset, onBack, onContinue, className }: Step3VisualizationDashboardProps) {
-  const { benfordResult, isAnalyzing, analysisError, runAnalysis, hasResult } = useBenfordAnalysis();
+  const { benfordResult, isAnalyzing, analysisError, progress, runAnalysis, hasResult } = useBenfordAnalysis();
   const [selectedVendor, setSelectedVendor] = useState<VendorAnalysis | null>(null);
   const [selectedTransaction, setSelectedTransaction] = useState<FlaggedTransaction | null>(null);
 
@@ -82,7 +94,7 @@ export function Step3VisualizationDashboard({ dataset, onBack, onContinue, class
               Generating Interactive Dashboard...
             </h2>
             <p className="text-gray-600">
-              Processing your analysis results for visualization
+              {progress ? `${progress.message} (${Math.round(progress.percent)}%)` : 'Processing your analysis results for visualization'}
             </p>
           </div>
         </div>
@@ -190,11 +202,78 @@ export function Step3VisualizationDashboard({ dataset, onBack, onContinue, class
       {/* Main Chart */}
       <BenfordChart frequencies={benfordResult.digitFrequencies} />
 
+      {/* First-Two Digits Chart */}
+      {benfordResult.firstTwoDigitsTest.totalAnalyzed > 0 && (
+        <FirstTwoDigitsChart frequencies={benfordResult.firstTwoDigitsTest.digitFrequencies} />
+      )}
+
+      {/* Last-Two Digits Chart */}
+      {benfordResult.lastTwoDigitsTest.totalAnalyzed > 0 && (
+        <FirstTwoDigitsChart
+          frequencies={benfordResult.lastTwoDigitsTest.digitFrequencies}
+          title="Last-Two Digits Analysis"
+          description="Observed vs uniform frequencies for endings 00-99"
+          footnote="Spikes at 00, 50 or 99 suggest invented or rounded amounts"
+          expectedLabel="Expected (uniform)"
+          formatDigits={formatEnding}
+        />
+      )}
+
+      {/* Drift Over Time */}
+      {benfordResult.temporalDrift && (
+        <DriftChart
+          drift={benfordResult.temporalDrift}
+          data={dataset.data}
+          vendors={benfordResult.suspiciousVendors.map(vendor => vendor.vendor)}
+        />
+      )}
+
+      {/* Summation Test */}
+      {benfordResult.summationTest.totalAnalyzed > 0 && (
+        <SummationTable result={benfordResult.summationTest} />
+      )}
+
+      {/* Number Duplication Test */}
+      {benfordResult.numberDuplication.totalAnalyzed > 0 && (
+        <DuplicationTable result={benfordResult.numberDuplication} data={dataset.data} />
+      )}
+
+      {/* Duplicate Payments */}
+      <DuplicatePaymentsTable result={benfordResult.duplicatePayments} data={dataset.data} />
+
+      {/* Vendor & Category Outliers */}
+      {benfordResult.robustOutliers.baselines.length > 0 && (
+        <OutliersTable result={benfordResult.robustOutliers} data={dataset.data} />
+      )}
+
+      {/* Likely Duplicate Vendors */}
+      {benfordResult.duplicateVendors.groups.length > 0 && (
+        <DuplicateVendorsTable result={benfordResult.duplicateVendors} />
+      )}
+
+      {/* Analysis by Currency */}
+      {benfordResult.currencyAnalysis.currencies.length > 0 && (
+        <CurrenciesTable result={benfordResult.currencyAnalysis} />
+      )}
+
+      {/* Credits & Refunds */}
+      {benfordResult.creditAnalysis.totalCredits > 0 && (
+        <CreditsTable result={benfordResult.creditAnalysis} credits={dataset.credits ?? []} />
+      )}
+
       {/* Deviation Heatmap */}
       {benfordResult.suspiciousVendors.length > 0 && (
         <DeviationHeatmap vendors={benfordResult.suspiciousVendors} />
       )}
 
+      {/* Category Analysis */}
+      {benfordResult.categoryAnalysis.length > 0 && (
+        <>
+          <CategoriesTable categories={benfordResult.categoryAnalysis} />
+          <DeviationHeatmap categories={benfordResult.categoryAnalysis} />
+        </>
+      )}
+
       {/* Tables Section */}
       <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
         {/* Vendors Table */}
@@ -246,7 +325,7 @@ export function Step3VisualizationDashboard({ dataset, onBack, onContinue, class
                 </div>
                 <div>
                   <label className="text-sm font-medium text-gray-700">MAD Score</label>
-                  <p className="text-xl font-bold text-gray-900">{selectedVendor.mad.toFixed(2)}</p>
+                  <p className="text-xl font-bold text-gray-900">{selectedVendor.mad.toFixed(4)}</p>
                 </div>
                 <div>
                   <label className="text-sm font-medium text-gray-700">Chi-Square</label>
@@ -331,10 +410,20 @@ export function Step3VisualizationDashboard({ dataset, onBack, onContinue, class
               </div>
 
               <div>
-                <label className="text-sm font-medium text-gray-700">Reason for Flagging</label>
-                <p className="text-sm text-gray-900 bg-amber-50 p-3 rounded-md mt-1">
-                  {selectedTransaction.reason}
-                </p>
+                <label className="text-sm font-medium text-gray-700">
+                  Rules Triggered (score {selectedTransaction.score})
+                </label>
+                <div className="space-y-2 mt-1">
+                  {selectedTransaction.ruleHits.map((hit, hitIndex) => (
+                    <div key={`${hit.ruleId}-${hitIndex}`} className="text-sm bg-amber-50 p-3 rounded-md">
+                      <div className="flex items-center justify-between">
+                        <span className="font-medium text-gray-900">{hit.description}</span>
+                        <span className="text-xs text-gray-600">+{hit.weight}</span>
+                      </div>
+                      <p className="text-xs text-gray-600 mt-1">{formatEvidence(hit.evidence)}</p>
+                    </div>
+                  ))}
+                </div>
               </div>
             </div>
           </div>
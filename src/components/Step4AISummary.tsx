@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { ArrowLeft, Brain, FileText, Sparkles, TrendingUp } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { useBenfordAnalysis } from '../hooks/useBenfordAnalysis';
+import { getConformityLabel } from '../utils/conformity';
 import { AISummaryPanel } from './ai/AISummaryPanel';
 import { RiskSummary } from './dashboard/RiskSummary';
 import type { ProcessedDataset } from '../types';
@@ -211,8 +212,8 @@ export function Step4AISummary({ dataset, onBack, onContinue, className }: Step4
                 </div>
                 <div>
                   <p className="text-sm text-gray-600">MAD Score</p>
-                  <p className="text-2xl font-bold text-gray-900">{benfordResult.mad.toFixed(3)}</p>
-                  <p className="text-xs text-gray-500">Mean Absolute Deviation</p>
+                  <p className="text-2xl font-bold text-gray-900">{benfordResult.mad.toFixed(4)}</p>
+                  <p className="text-xs text-gray-500">{getConformityLabel(benfordResult.conformity.level)}</p>
                 </div>
               </div>
             </div>
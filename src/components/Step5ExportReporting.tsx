@@ -1,5 +1,5 @@
 import { useState, useEffect } from 'react';
-import { ArrowLeft, Download, FileText, Settings, CheckCircle, AlertCircle } from 'lucide-react';
+import { ArrowLeft, Download, FileText, Settings, CheckCircle, AlertCircle, Receipt, Tags } from 'lucide-react';
 import { cn } from '../utils/cn';
 import { useBenfordAnalysis } from '../hooks/useBenfordAnalysis';
 import { generateAISummary } from '../utils/aiSummary';
@@ -7,6 +7,8 @@ import { generatePDFReport, type ReportConfig } from '../utils/pdfReportGenerato
 import { 
   exportFlaggedTransactionsCSV, 
   exportSuspiciousVendorsCSV,
+  exportCategoryAnalysisCSV,
+  exportDuplicatePaymentsCSV,
   downloadFile,
   generateFilename 
 } from '../utils/reportExporter';
@@ -89,6 +91,34 @@ export function Step5ExportReporting({ dataset, onBack, className }: Step5Export
     }
   };
 
+  const handleExportCategoryAnalysis = () => {
+    if (!benfordResult) return;
+    
+    try {
+      const csv = exportCategoryAnalysisCSV(benfordResult);
+      downloadFile(csv, generateFilename('category_analysis', 'csv'), 'text/csv');
+      setExportSuccess('Category analysis exported successfully!');
+      setTimeout(() => setExportSuccess(null), 3000);
+    } catch (error) {
+      setExportError('Failed to export category analysis');
+      console.error('Export error:', error);
+    }
+  };
+
+  const handleExportDuplicatePayments = () => {
+    if (!benfordResult) return;
+    
+    try {
+      const csv = exportDuplicatePaymentsCSV(benfordResult, dataset);
+      downloadFile(csv, generateFilename('duplicate_payments', 'csv'), 'text/csv');
+      setExportSuccess('Duplicate payments exported successfully!');
+      setTimeout(() => setExportSuccess(null), 3000);
+    } catch (error) {
+      setExportError('Failed to export duplicate payments');
+      console.error('Export error:', error);
+    }
+  };
+
   const handleExportCleanedDataset = () => {
     try {
       const csvData = [
@@ -396,6 +426,48 @@ export function Step5ExportReporting({ dataset, onBack, className }: Step5Export
               </div>
             </div>
 
+            {/* Category Analysis CSV */}
+            <div className="bg-gradient-to-br from-teal-50 to-cyan-50 border border-teal-200 rounded-lg p-6">
+              <div className="text-center">
+                <Tags className="w-12 h-12 text-teal-600 mx-auto mb-4" />
+                <h3 className="font-semibold text-gray-900 mb-2">Category Analysis</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  CSV export of Benford's Law results per expense category
+                </p>
+                <button
+                  onClick={handleExportCategoryAnalysis}
+                  className="w-full inline-flex items-center justify-center space-x-2 px-4 py-2 bg-teal-600 text-white rounded-md hover:bg-teal-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Export CSV</span>
+                </button>
+                <p className="text-xs text-gray-500 mt-2">
+                  {benfordResult.categoryAnalysis.length} categories analyzed
+                </p>
+              </div>
+            </div>
+
+            {/* Duplicate Payments CSV */}
+            <div className="bg-gradient-to-br from-rose-50 to-red-50 border border-rose-200 rounded-lg p-6">
+              <div className="text-center">
+                <Receipt className="w-12 h-12 text-rose-600 mx-auto mb-4" />
+                <h3 className="font-semibold text-gray-900 mb-2">Duplicate Payments</h3>
+                <p className="text-sm text-gray-600 mb-4">
+                  CSV export of exact and near duplicate payment groups
+                </p>
+                <button
+                  onClick={handleExportDuplicatePayments}
+                  className="w-full inline-flex items-center justify-center space-x-2 px-4 py-2 bg-rose-600 text-white rounded-md hover:bg-rose-700 transition-colors"
+                >
+                  <Download className="w-4 h-4" />
+                  <span>Export CSV</span>
+                </button>
+                <p className="text-xs text-gray-500 mt-2">
+                  {benfordResult.duplicatePayments.groups.length} groups
+                </p>
+              </div>
+            </div>
+
             {/* Cleaned Dataset CSV */}
             <div className="bg-gradient-to-br from-green-50 to-emerald-50 border border-green-200 rounded-lg p-6">
               <div className="text-center">
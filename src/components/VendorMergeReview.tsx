@@ -0,0 +1,112 @@
+import { useMemo, useState } from 'react';
+import { GitMerge } from 'lucide-react';
+import { cn } from '../utils/cn';
+import { buildVendorMergeMap, findDuplicateVendors } from '../utils/vendorNormalization';
+import type { CleanedDataRow, VendorMergeMap } from '../types';
+
+interface VendorMergeReviewProps {
+  data: CleanedDataRow[];
+  mergeMap?: VendorMergeMap;
+  onMergeMapChange: (mergeMap: VendorMergeMap) => void;
+  className?: string;
+}
+
+const PAGE_SIZE = 10;
+
+export function VendorMergeReview({ data, mergeMap, onMergeMapChange, className }: VendorMergeReviewProps) {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const proposedGroups = useMemo(() => findDuplicateVendors(data), [data]);
+
+  // Until the user changes something, the proposals' defaults apply
+  const groups = useMemo(() => proposedGroups.map(group => (
+    mergeMap
+      ? { ...group, merged: group.variants.some(variant => mergeMap[variant.name] === group.canonical) }
+      : group
+  )), [proposedGroups, mergeMap]);
+
+  if (groups.length === 0) return null;
+
+  const mergedCount = groups.filter(group => group.merged).length;
+
+  const setMerged = (index: number, merged: boolean) => {
+    onMergeMapChange(buildVendorMergeMap(groups.map((group, i) => (i === index ? { ...group, merged } : group))));
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-3">
+            <GitMerge className="w-6 h-6 text-primary-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">Review Vendor Names</h3>
+              <p className="text-sm text-gray-600">
+                {groups.length} sets of vendor names look like the same vendor. Merged names are analyzed as one vendor;
+                all sets are reported as possible duplicate vendor records.
+              </p>
+            </div>
+          </div>
+          <div className="flex items-center space-x-2 flex-shrink-0 ml-4">
+            <button
+              onClick={() => onMergeMapChange(buildVendorMergeMap(groups.map(group => ({ ...group, merged: true }))))}
+              className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Merge All
+            </button>
+            <button
+              onClick={() => onMergeMapChange({})}
+              className="px-3 py-1 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Merge None
+            </button>
+          </div>
+        </div>
+        <p className="mt-2 text-xs text-gray-500">{mergedCount} of {groups.length} sets merged</p>
+      </div>
+
+      <ul className="divide-y divide-gray-200">
+        {groups.slice(0, visibleCount).map((group, index) => (
+          <li key={group.canonical} className="px-6 py-3 flex items-start space-x-4">
+            <input
+              type="checkbox"
+              checked={group.merged}
+              onChange={(e) => setMerged(index, e.target.checked)}
+              className="mt-1 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+              aria-label={`Merge variants of ${group.canonical}`}
+            />
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-2">
+                <span className="font-medium text-gray-900">{group.canonical}</span>
+                <span className={cn(
+                  'px-2 py-0.5 text-xs font-medium rounded-full',
+                  group.matchType === 'normalized' ? 'bg-green-100 text-green-800' : 'bg-amber-100 text-amber-800'
+                )}>
+                  {group.matchType === 'normalized' ? 'Same name' : `${(group.similarity * 100).toFixed(0)}% similar`}
+                </span>
+              </div>
+              <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                {group.variants.map(variant => (
+                  <span key={variant.name}>
+                    "{variant.name}" <span className="text-gray-400">×{variant.transactionCount}</span>
+                  </span>
+                ))}
+              </div>
+            </div>
+          </li>
+        ))}
+      </ul>
+
+      {groups.length > visibleCount && (
+        <div className="p-4 text-center border-t border-gray-200">
+          <button
+            onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+            className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+          >
+            Show more ({groups.length - visibleCount} remaining)
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@ import { useNavigate } from 'react-router-dom';
 import { Brain, Copy, Download, Sparkles, AlertCircle, CheckCircle, Clock, Zap, FileText, Table, BarChart, Settings } from 'lucide-react';
 import { cn } from '../../utils/cn';
 import { generateAISummary } from '../../utils/aiSummary';
+import { getConformityLabel } from '../../utils/conformity';
 import { createFallbackSummary, type GeminiSummary } from '../../utils/geminiIntegration';
 import { useUsageTracking } from '../../hooks/useUsageTracking';
 import { GeminiAPITest } from './GeminiAPITest';
@@ -751,7 +752,7 @@ export function AISummaryPanel({ result, dataset, className }: AISummaryPanelPro
               </div>
               <div>
                 <span className="font-medium text-purple-600">Deviation Score:</span>
-                <p className="text-gray-700">MAD: {result.mad.toFixed(4)} ({result.mad > 0.022 ? 'High' : result.mad > 0.015 ? 'Medium' : 'Low'} deviation)</p>
+                <p className="text-gray-700">MAD: {result.mad.toFixed(4)} ({getConformityLabel(result.conformity.level)})</p>
               </div>
             </div>
           </div>
@@ -17,6 +17,8 @@ interface CustomTooltipProps {
       expected: number;
       deviation: number;
       count: number;
+      zStatistic: number;
+      significance: DigitFrequency['significance'];
     };
   }>;
   label?: string;
@@ -40,9 +42,14 @@ function CustomTooltip({ active, payload, label }: CustomTooltipProps) {
           <p>
             <span className={cn("font-medium", deviationColor)}>Deviation:</span> {data.deviation.toFixed(1)}%
           </p>
+          <p>
+            <span className="font-medium">Z-statistic:</span> {data.zStatistic.toFixed(2)}
+          </p>
         </div>
-        {data.deviation > 5 && (
-          <p className="text-xs text-red-600 mt-2 font-medium">⚠ Significant deviation detected</p>
+        {data.significance !== 'none' && (
+          <p className="text-xs text-red-600 mt-2 font-medium">
+            ⚠ Significant at the {data.significance === 'significant_99' ? '99%' : '95%'} level
+          </p>
         )}
       </div>
     );
@@ -57,6 +64,8 @@ export function BenfordChart({ frequencies, className }: BenfordChartProps) {
     expected: freq.expected,
     deviation: freq.deviation,
     count: freq.count,
+    zStatistic: freq.zStatistic,
+    significance: freq.significance,
   }));
 
   return (
@@ -1,19 +1,26 @@
 import { TrendingUp } from 'lucide-react';
 import { cn } from '../../utils/cn';
-import type { VendorAnalysis } from '../../types';
+import type { CategoryAnalysis, VendorAnalysis } from '../../types';
 
 interface DeviationHeatmapProps {
-  vendors: VendorAnalysis[];
+  vendors?: VendorAnalysis[];
+  categories?: CategoryAnalysis[];
   className?: string;
 }
 
+interface HeatmapRow {
+  name: string;
+  transactionCount: number;
+  digitDistribution: Record<number, number>;
+}
+
 interface HeatmapCellProps {
   value: number;
-  vendor: string;
+  name: string;
   digit: string;
 }
 
-function HeatmapCell({ value, vendor, digit }: HeatmapCellProps) {
+function HeatmapCell({ value, name, digit }: HeatmapCellProps) {
   const getCellColor = (deviation: number) => {
     if (deviation > 5) return 'bg-red-500 text-white';
     if (deviation > 2) return 'bg-red-200 text-red-800';
@@ -28,20 +35,26 @@ function HeatmapCell({ value, vendor, digit }: HeatmapCellProps) {
         'w-full h-10 flex items-center justify-center text-xs font-medium rounded transition-all hover:scale-105 cursor-pointer',
         getCellColor(value)
       )}
-      title={`${vendor} - Digit ${digit}: ${value > 0 ? '+' : ''}${value.toFixed(1)}% deviation from expected`}
+      title={`${name} - Digit ${digit}: ${value > 0 ? '+' : ''}${value.toFixed(1)}% deviation from expected`}
     >
       {Math.abs(value) > 1 ? `${value > 0 ? '+' : ''}${value.toFixed(1)}` : ''}
     </div>
   );
 }
 
-export function DeviationHeatmap({ vendors, className }: DeviationHeatmapProps) {
-  // Prepare data for heatmap - first 10 vendors with most transactions
-  const topVendors = vendors
+export function DeviationHeatmap({ vendors = [], categories, className }: DeviationHeatmapProps) {
+  // Pass categories for the category x digit variant
+  const groupLabel = categories ? 'Category' : 'Vendor';
+  const rows: HeatmapRow[] = categories
+    ? categories.map(c => ({ name: c.category, transactionCount: c.transactionCount, digitDistribution: c.digitDistribution }))
+    : vendors.map(v => ({ name: v.vendor, transactionCount: v.transactionCount, digitDistribution: v.digitDistribution }));
+
+  // Prepare data for heatmap - first 10 rows with most transactions
+  const topRows = rows
     .sort((a, b) => b.transactionCount - a.transactionCount)
     .slice(0, 10);
 
-  if (topVendors.length === 0) {
+  if (topRows.length === 0) {
     return (
       <div className={cn('bg-white p-6 rounded-lg border border-gray-200', className)}>
         <div className="flex items-center space-x-3 mb-4">
@@ -51,7 +64,7 @@ export function DeviationHeatmap({ vendors, className }: DeviationHeatmapProps)
               Deviation Heatmap
             </h3>
             <p className="text-sm text-gray-600">
-              No vendor data available for heatmap visualization
+              No {groupLabel.toLowerCase()} data available for heatmap visualization
             </p>
           </div>
         </div>
@@ -61,14 +74,11 @@ export function DeviationHeatmap({ vendors, className }: DeviationHeatmapProps)
 
   const digits = ['1', '2', '3', '4', '5', '6', '7', '8', '9'];
   
-  // Calculate deviations for each vendor and digit
-  const heatmapData = topVendors.map(vendor => {
-    const digitCounts = vendor.digitDistribution;
-    const totalTransactions = vendor.transactionCount;
-    
+  // Calculate deviations for each row and digit
+  const heatmapData = topRows.map(row => {
     return digits.map(digit => {
-      const count = digitCounts[parseInt(digit)] || 0;
-      const percentage = totalTransactions > 0 ? (count / totalTransactions) * 100 : 0;
+      // Digit distributions hold observed percentages
+      const percentage = row.digitDistribution[parseInt(digit)] || 0;
       
       // Calculate expected percentage for this digit (Benford's Law)
       const expectedPercentage = Math.log10(1 + 1/parseInt(digit)) * 100;
@@ -84,10 +94,10 @@ export function DeviationHeatmap({ vendors, className }: DeviationHeatmapProps)
         <TrendingUp className="w-6 h-6 text-purple-600" />
         <div>
           <h3 className="text-lg font-semibold text-gray-900">
-            Vendor-Digit Deviation Heatmap
+            {groupLabel}-Digit Deviation Heatmap
           </h3>
           <p className="text-sm text-gray-600">
-            Deviation from Benford's Law by vendor and digit (top 10 vendors by volume)
+            Deviation from Benford's Law by {groupLabel.toLowerCase()} and digit (top 10 {categories ? 'categories' : 'vendors'} by volume)
           </p>
         </div>
       </div>
@@ -107,18 +117,18 @@ export function DeviationHeatmap({ vendors, className }: DeviationHeatmapProps)
             </div>
             
             {/* Rows */}
-            {topVendors.map((vendor, vendorIndex) => (
-              <div key={vendor.vendor} className="grid grid-cols-10 gap-1 mb-1">
+            {topRows.map((row, rowIndex) => (
+              <div key={row.name} className="grid grid-cols-10 gap-1 mb-1">
                 <div className="text-xs text-gray-700 p-2 font-medium text-right pr-4 flex items-center justify-end">
-                  <span className="truncate max-w-32" title={vendor.vendor}>
-                    {vendor.vendor.length > 15 ? vendor.vendor.substring(0, 15) + '...' : vendor.vendor}
+                  <span className="truncate max-w-32" title={row.name}>
+                    {row.name.length > 15 ? row.name.substring(0, 15) + '...' : row.name}
                   </span>
                 </div>
-                {heatmapData[vendorIndex].map((deviation, digitIndex) => (
+                {heatmapData[rowIndex].map((deviation, digitIndex) => (
                   <HeatmapCell
-                    key={`${vendorIndex}-${digitIndex}`}
+                    key={`${rowIndex}-${digitIndex}`}
                     value={deviation}
-                    vendor={vendor.vendor}
+                    name={row.name}
                     digit={digits[digitIndex]}
                   />
                 ))}
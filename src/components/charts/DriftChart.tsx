@@ -0,0 +1,214 @@
+import { useMemo, useState } from 'react';
+import { ComposedChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { Activity, AlertTriangle } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { analyzeDrift, MIN_DRIFT_PERIOD_TRANSACTIONS } from '../../utils/benfordAnalysis';
+import { CONFORMITY_THRESHOLDS, getConformityLabel } from '../../utils/conformity';
+import { formatPValue } from '../../utils/statistics';
+import type { CleanedDataRow, DriftGranularity, DriftPeriod, TemporalDriftResult } from '../../types';
+
+interface DriftChartProps {
+  drift: TemporalDriftResult;
+  data: CleanedDataRow[];
+  vendors?: string[];
+  className?: string;
+}
+
+interface CustomTooltipProps {
+  active?: boolean;
+  payload?: Array<{ payload: DriftPeriod }>;
+}
+
+interface BreakdownDotProps {
+  cx?: number;
+  cy?: number;
+  payload?: DriftPeriod;
+}
+
+const GRANULARITIES: { id: DriftGranularity; label: string }[] = [
+  { id: 'month', label: 'Monthly' },
+  { id: 'quarter', label: 'Quarterly' },
+  { id: 'rolling', label: 'Rolling window' },
+];
+
+// MAD at or above this value is nonconforming for the first-digit test
+const NONCONFORMITY_MAD = CONFORMITY_THRESHOLDS.first_digit.marginal;
+
+function CustomTooltip({ active, payload }: CustomTooltipProps) {
+  if (active && payload && payload.length) {
+    const period = payload[0].payload;
+
+    return (
+      <div className="bg-white p-4 border border-gray-200 rounded-lg shadow-lg">
+        <p className="font-semibold text-gray-900 mb-1">{period.label}</p>
+        <p className="text-xs text-gray-500 mb-2">{period.startDate} to {period.endDate}</p>
+        <div className="space-y-1 text-sm">
+          <p><span className="font-medium">Transactions:</span> {period.transactionCount}</p>
+          <p><span className="text-purple-600 font-medium">MAD:</span> {period.mad.toFixed(4)} ({getConformityLabel(period.conformity)})</p>
+          <p><span className="text-blue-600 font-medium">Chi-Square:</span> {period.chiSquare.toFixed(2)} (p = {formatPValue(period.chiSquarePValue)})</p>
+        </div>
+        {period.isBreakdown && (
+          <p className="text-xs text-red-600 mt-2 font-medium">⚠ Conformity breaks down in this period</p>
+        )}
+        {!period.hasEnoughData && (
+          <p className="text-xs text-gray-500 mt-2">Too few transactions for a reliable verdict</p>
+        )}
+      </div>
+    );
+  }
+  return null;
+}
+
+function BreakdownDot({ cx, cy, payload }: BreakdownDotProps) {
+  if (cx === undefined || cy === undefined || !payload) return null;
+  return payload.isBreakdown
+    ? <circle cx={cx} cy={cy} r={6} fill="#ef4444" stroke="#ffffff" strokeWidth={2} />
+    : <circle cx={cx} cy={cy} r={3} fill="#8b5cf6" />;
+}
+
+export function DriftChart({ drift, data, vendors = [], className }: DriftChartProps) {
+  const [granularity, setGranularity] = useState<DriftGranularity>('month');
+  const [vendor, setVendor] = useState('');
+
+  const series = useMemo(() => {
+    if (vendor) {
+      return analyzeDrift(data.filter(row => row.vendor?.trim() === vendor), granularity);
+    }
+    switch (granularity) {
+      case 'month': return drift.monthly;
+      case 'quarter': return drift.quarterly;
+      case 'rolling': return drift.rolling;
+    }
+  }, [drift, data, vendor, granularity]);
+
+  const breakdowns = series.periods.filter(period => period.isBreakdown);
+
+  return (
+    <div className={cn('bg-white p-6 rounded-lg border border-gray-200', className)}>
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between gap-4 mb-6">
+        <div className="flex items-center space-x-3">
+          <Activity className="w-6 h-6 text-purple-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Benford Drift Over Time
+            </h3>
+            <p className="text-sm text-gray-600">
+              First-digit MAD and chi-square per {granularity === 'rolling' ? `${series.windowSize}-transaction window` : granularity}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-3">
+          <select
+            value={vendor}
+            onChange={(e) => setVendor(e.target.value)}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            title="Select vendor"
+          >
+            <option value="">All transactions</option>
+            {vendors.map(name => (
+              <option key={name} value={name}>{name}</option>
+            ))}
+          </select>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {GRANULARITIES.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setGranularity(option.id)}
+                className={cn(
+                  'px-3 py-2 text-sm transition-colors',
+                  granularity === option.id ? 'bg-purple-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                )}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {series.periods.length === 0 ? (
+        <div className="text-center py-8">
+          <Activity className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">Not enough dated transactions for this view</p>
+        </div>
+      ) : (
+        <>
+          <ResponsiveContainer width="100%" height={350}>
+            <ComposedChart
+              data={series.periods}
+              margin={{
+                top: 20,
+                right: 30,
+                left: 20,
+                bottom: 5,
+              }}
+            >
+              <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} axisLine={{ stroke: '#e5e7eb' }} />
+              <YAxis
+                yAxisId="mad"
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: '#e5e7eb' }}
+                tickFormatter={(value: number) => value.toFixed(3)}
+                label={{ value: 'MAD', angle: -90, position: 'insideLeft' }}
+              />
+              <YAxis
+                yAxisId="chiSquare"
+                orientation="right"
+                tick={{ fontSize: 12 }}
+                axisLine={{ stroke: '#e5e7eb' }}
+                label={{ value: 'Chi-Square', angle: 90, position: 'insideRight' }}
+              />
+              <Tooltip content={<CustomTooltip />} />
+              <Legend />
+              <ReferenceLine
+                yAxisId="mad"
+                y={NONCONFORMITY_MAD}
+                stroke="#ef4444"
+                strokeDasharray="4 4"
+                label={{ value: 'Nonconformity', fontSize: 10, fill: '#ef4444', position: 'insideTopLeft' }}
+              />
+              <Line
+                yAxisId="mad"
+                dataKey="mad"
+                name="MAD"
+                stroke="#8b5cf6"
+                strokeWidth={2}
+                dot={<BreakdownDot />}
+                type="monotone"
+              />
+              <Line
+                yAxisId="chiSquare"
+                dataKey="chiSquare"
+                name="Chi-Square"
+                stroke="#3b82f6"
+                strokeWidth={1.5}
+                strokeDasharray="5 3"
+                dot={false}
+                type="monotone"
+              />
+            </ComposedChart>
+          </ResponsiveContainer>
+
+          <div className="mt-4 text-sm">
+            {breakdowns.length > 0 ? (
+              <div className="flex items-start space-x-2 text-red-700">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                <span>
+                  Conformity breaks down from <strong>{series.firstBreakdown}</strong>
+                  {breakdowns.length > 1 && ` (${breakdowns.length} periods: ${breakdowns.map(period => period.label).join(', ')})`}
+                </span>
+              </div>
+            ) : (
+              <p className="text-gray-500">No period shows a breakdown in conformity</p>
+            )}
+            <p className="text-xs text-gray-500 mt-2">
+              Red points mark periods with at least {MIN_DRIFT_PERIOD_TRANSACTIONS} transactions, nonconforming MAD and chi-square p &lt; 0.05
+            </p>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { ComposedChart, Bar, Line, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { BarChart3 } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import type { DigitFrequency } from '../../types';
+
+interface FirstTwoDigitsChartProps {
+  frequencies: DigitFrequency[];
+  className?: string;
+  title?: string;
+  description?: string;
+  footnote?: string;
+  expectedLabel?: string;
+  formatDigits?: (digits: number) => string;
+}
+
+interface CustomTooltipProps {
+  active?: boolean;
+  payload?: Array<{
+    payload: {
+      digits: number;
+      observed: number;
+      expected: number;
+      count: number;
+      zStatistic: number;
+    };
+  }>;
+  formatDigits: (digits: number) => string;
+}
+
+// Z-statistic above which a bin is significant at the 95% level
+const SIGNIFICANT_Z = 1.96;
+
+function CustomTooltip({ active, payload, formatDigits }: CustomTooltipProps) {
+  if (active && payload && payload.length) {
+    const data = payload[0].payload;
+    const isSpike = data.observed > data.expected && data.zStatistic > SIGNIFICANT_Z;
+
+    return (
+      <div className="bg-white p-4 border border-gray-200 rounded-lg shadow-lg">
+        <p className="font-semibold text-gray-900 mb-2">Digits {formatDigits(data.digits)}</p>
+        <div className="space-y-1 text-sm">
+          <p>
+            <span className="text-blue-600 font-medium">Observed:</span> {data.observed.toFixed(2)}% ({data.count} transactions)
+          </p>
+          <p>
+            <span className="text-gray-600 font-medium">Expected:</span> {data.expected.toFixed(2)}%
+          </p>
+          <p>
+            <span className="font-medium">Z-statistic:</span> {data.zStatistic.toFixed(2)}
+          </p>
+        </div>
+        {isSpike && (
+          <p className="text-xs text-red-600 mt-2 font-medium">⚠ Significant spike detected</p>
+        )}
+      </div>
+    );
+  }
+  return null;
+}
+
+export function FirstTwoDigitsChart({
+  frequencies,
+  className,
+  title = 'First-Two Digits Analysis',
+  description = 'Observed vs expected frequencies for leading digits 10-99',
+  footnote = 'Spikes at 10, 25, 49 or 99 often point to invented amounts',
+  expectedLabel = 'Expected (Benford\'s Law)',
+  formatDigits = String,
+}: FirstTwoDigitsChartProps) {
+  const chartData = frequencies.map(freq => ({
+    digits: freq.digit,
+    observed: freq.observed,
+    expected: freq.expected,
+    count: freq.count,
+    zStatistic: freq.zStatistic,
+  }));
+
+  return (
+    <div className={cn('bg-white p-6 rounded-lg border border-gray-200', className)}>
+      <div className="flex items-center space-x-3 mb-6">
+        <BarChart3 className="w-6 h-6 text-blue-600" />
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {title}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {description}
+          </p>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={400}>
+        <ComposedChart
+          data={chartData}
+          margin={{
+            top: 20,
+            right: 30,
+            left: 20,
+            bottom: 5,
+          }}
+        >
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis
+            dataKey="digits"
+            tick={{ fontSize: 10 }}
+            interval={4}
+            tickFormatter={formatDigits}
+            axisLine={{ stroke: '#e5e7eb' }}
+          />
+          <YAxis
+            tick={{ fontSize: 12 }}
+            axisLine={{ stroke: '#e5e7eb' }}
+            label={{ value: 'Frequency (%)', angle: -90, position: 'insideLeft' }}
+          />
+          <Tooltip content={<CustomTooltip formatDigits={formatDigits} />} />
+          <Legend />
+          <Bar dataKey="observed" name="Observed in Data" fill="#3b82f6">
+            {chartData.map(entry => (
+              <Cell
+                key={entry.digits}
+                fill={entry.observed > entry.expected && entry.zStatistic > SIGNIFICANT_Z ? '#ef4444' : '#3b82f6'}
+              />
+            ))}
+          </Bar>
+          <Line
+            dataKey="expected"
+            name={expectedLabel}
+            stroke="#6b7280"
+            strokeWidth={2}
+            dot={false}
+            type="monotone"
+          />
+        </ComposedChart>
+      </ResponsiveContainer>
+
+      <div className="mt-4 flex items-center justify-between text-xs text-gray-500">
+        <div className="flex items-center space-x-4">
+          <div className="flex items-center space-x-2">
+            <div className="w-3 h-0.5 bg-gray-500"></div>
+            <span>{expectedLabel}</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-3 h-3 bg-blue-500 rounded-sm"></div>
+            <span>Observed in Data</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <div className="w-3 h-3 bg-red-500 rounded-sm"></div>
+            <span>Significant spike (Z &gt; 1.96)</span>
+          </div>
+        </div>
+        <div className="text-right">
+          <p>{footnote}</p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,7 @@
 import { TrendingUp, Shield, AlertTriangle, XCircle, BarChart3, Users, Flag } from 'lucide-react';
 import { cn } from '../../utils/cn';
+import { formatPValue } from '../../utils/statistics';
+import { getConformityLabel } from '../../utils/conformity';
 import type { BenfordResult } from '../../types';
 
 interface RiskSummaryProps {
@@ -81,6 +83,8 @@ function getAssessmentText(assessment: string): string {
 
 export function RiskSummary({ result, className }: RiskSummaryProps) {
   const overallStatus = getOverallStatus(result.overallAssessment);
+  const { thresholds } = result.conformity;
+  const madStatus = result.mad < thresholds.acceptable ? 'good' : result.mad < thresholds.marginal ? 'warning' : 'danger';
   
   const criticalVendors = result.suspiciousVendors.filter(v => v.riskLevel === 'critical').length;
   const highRiskTransactions = result.flaggedTransactions.filter(t => t.riskLevel === 'critical' || t.riskLevel === 'high').length;
@@ -105,13 +109,13 @@ export function RiskSummary({ result, className }: RiskSummaryProps) {
 
         <SummaryCard
           title="Data Compliance"
-          value={`${result.mad.toFixed(1)}`}
-          subtitle={`MAD Score (target: <8.0)`}
+          value={result.mad.toFixed(4)}
+          subtitle={`MAD Score (target: <${thresholds.acceptable})`}
           icon={BarChart3}
-          status={result.mad < 8 ? 'good' : result.mad < 15 ? 'warning' : 'danger'}
+          status={madStatus}
           trend={{
-            direction: result.mad < 8 ? 'down' : 'up',
-            label: result.mad < 8 ? 'Within normal range' : 'Above threshold'
+            direction: result.mad < thresholds.acceptable ? 'down' : 'up',
+            label: getConformityLabel(result.conformity.level)
           }}
         />
 
@@ -142,7 +146,11 @@ export function RiskSummary({ result, className }: RiskSummaryProps) {
             </div>
             <div className="text-sm text-gray-600">Chi-Square Statistic</div>
             <div className="text-xs text-gray-500 mt-1">
-              {result.chiSquare > 15.51 ? 'Significant deviation' : 'Within acceptable range'}
+              {result.degreesOfFreedom} df, p = {formatPValue(result.chiSquarePValue)} •{' '}
+              {result.chiSquarePValue < 0.05 ? 'Significant deviation' : 'Within acceptable range'}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              KS {result.ksStatistic.toFixed(4)} (critical {result.ksCriticalValue.toFixed(4)})
             </div>
           </div>
           
@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { getConformityLabel } from '../../utils/conformity';
+import { formatPValue } from '../../utils/statistics';
+import type { CleanedDataRow, CreditAnalysisResult } from '../../types';
+
+interface CreditsTableProps {
+  result: CreditAnalysisResult;
+  credits: CleanedDataRow[];
+  className?: string;
+}
+
+type CreditsView = 'flagged' | 'vendors';
+
+const PAGE_SIZE = 25;
+
+function getRiskColor(riskLevel: string) {
+  switch (riskLevel) {
+    case 'critical': return 'text-red-700 bg-red-100';
+    case 'high': return 'text-red-600 bg-red-50';
+    default: return 'text-amber-600 bg-amber-50';
+  }
+}
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function CreditsTable({ result, credits, className }: CreditsTableProps) {
+  const [view, setView] = useState<CreditsView>('flagged');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const rowCount = view === 'flagged' ? result.flaggedCredits.length : result.vendorRatios.length;
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <RotateCcw className="w-6 h-6 text-amber-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                Credits & Refunds
+              </h3>
+              <p className="text-sm text-gray-600">
+                {result.totalCredits.toLocaleString()} negative amounts analyzed apart from payments;
+                {' '}{result.unmatchedRefundCount} without an original payment
+                {result.depositCount > 0 && `; ${result.depositCount.toLocaleString()} bank deposits not checked as refunds`}
+              </p>
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-lg font-bold text-amber-600">{formatCurrency(result.totalCreditAmount)}</div>
+            <div className="text-xs text-gray-500">{(result.creditToPaymentRatio * 100).toFixed(1)}% of payments</div>
+          </div>
+        </div>
+
+        {result.benfordTest && (
+          <p className="text-sm text-gray-700 mb-4">
+            First digit test: MAD {result.benfordTest.mad.toFixed(4)} ({getConformityLabel(result.benfordTest.conformity.level)}),
+            {' '}chi-square {result.benfordTest.chiSquare.toFixed(2)} (p = {formatPValue(result.benfordTest.chiSquarePValue)})
+            {result.benfordTest.totalAnalyzed < 50 && (
+              <span className="text-gray-500"> · fewer than 50 credits, treat with caution</span>
+            )}
+          </p>
+        )}
+
+        <div className="flex items-center space-x-2">
+          {(['flagged', 'vendors'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => {
+                setView(option);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              className={cn(
+                'px-3 py-1 text-sm rounded-md border transition-colors',
+                view === option
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              )}
+            >
+              {option === 'flagged' ? `Flagged Credits (${result.flaggedCredits.length})` : `Refund Ratio by Vendor (${result.vendorRatios.length})`}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {rowCount === 0 ? (
+        <div className="text-center py-8">
+          <RotateCcw className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">
+            {view === 'flagged' ? 'No credits flagged' : 'No credits with a vendor'}
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          {view === 'flagged' ? (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Amount
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Vendor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Risk
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Reason
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {result.flaggedCredits.slice(0, visibleCount).map(credit => {
+                  const row = credits[credit.index];
+                  return (
+                    <tr key={credit.index} className="hover:bg-gray-50 transition-colors">
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <div className="text-sm font-medium text-gray-900">-{formatCurrency(Math.abs(credit.amount))}</div>
+                        <div className="text-xs text-gray-500">
+                          Credit #{credit.index + 1}
+                          {row?.date ? ` · ${new Date(row.date).toLocaleDateString()}` : ''}
+                        </div>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-900">
+                        {credit.vendor || 'Unknown'}
+                      </td>
+                      <td className="px-6 py-4 whitespace-nowrap">
+                        <span className={cn('px-2 py-1 rounded text-xs font-medium capitalize', getRiskColor(credit.riskLevel))}>
+                          {credit.riskLevel} · {credit.score}
+                        </span>
+                      </td>
+                      <td className="px-6 py-4 text-sm text-gray-600">
+                        {credit.reason}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          ) : (
+            <table className="w-full">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Vendor
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Payments
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Refunds
+                  </th>
+                  <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Refund Ratio
+                  </th>
+                </tr>
+              </thead>
+              <tbody className="bg-white divide-y divide-gray-200">
+                {result.vendorRatios.slice(0, visibleCount).map(ratio => (
+                  <tr key={ratio.vendor} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                      {ratio.vendor}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(ratio.paymentTotal)}
+                      <div className="text-xs text-gray-500">{ratio.paymentCount} payments</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(ratio.refundTotal)}
+                      <div className="text-xs text-gray-500">{ratio.refundCount} credits</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className={cn(
+                        'text-sm font-medium',
+                        ratio.isHigh ? 'text-red-600' : 'text-gray-900'
+                      )}>
+                        {ratio.ratio === null ? 'Never paid' : `${(ratio.ratio * 100).toFixed(1)}%`}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {rowCount > visibleCount && (
+            <div className="p-4 text-center border-t border-gray-200">
+              <button
+                onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                Show more ({rowCount - visibleCount} remaining)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import { Coins } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { getConformityLabel } from '../../utils/conformity';
+import { formatPValue } from '../../utils/statistics';
+import type { ConformityLevel, CurrencyAnalysisResult } from '../../types';
+
+interface CurrenciesTableProps {
+  result: CurrencyAnalysisResult;
+  className?: string;
+}
+
+function getConformityColor(level: ConformityLevel) {
+  switch (level) {
+    case 'close': return 'text-green-700 bg-green-100';
+    case 'acceptable': return 'text-green-600 bg-green-50';
+    case 'marginal': return 'text-amber-600 bg-amber-50';
+    case 'nonconformity': return 'text-red-700 bg-red-100';
+  }
+}
+
+function formatAmount(amount: number) {
+  return amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function CurrenciesTable({ result, className }: CurrenciesTableProps) {
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <Coins className="w-6 h-6 text-primary-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Analysis by Currency
+            </h3>
+            <p className="text-sm text-gray-600">
+              First digit test on each currency's original amounts
+              {result.reportingCurrency
+                ? `; overall results use amounts converted to ${result.reportingCurrency}`
+                : '; no exchange rates applied, so overall results mix currencies'}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Currency
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Transactions
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Total
+              </th>
+              {result.reportingCurrency && (
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Total ({result.reportingCurrency})
+                </th>
+              )}
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                MAD
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Chi-Square
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Conformity
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {result.currencies.map(breakdown => (
+              <tr key={breakdown.currency} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                  {breakdown.currency}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {breakdown.transactionCount.toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {formatAmount(breakdown.originalTotal)}
+                </td>
+                {result.reportingCurrency && (
+                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                    {breakdown.convertedTotal !== null ? formatAmount(breakdown.convertedTotal) : '-'}
+                  </td>
+                )}
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {breakdown.firstDigitTest.mad.toFixed(4)}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                  {breakdown.firstDigitTest.chiSquare.toFixed(2)}
+                  <span className="text-xs text-gray-400"> (p = {formatPValue(breakdown.firstDigitTest.chiSquarePValue)})</span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={cn('px-2 py-1 rounded text-xs font-medium', getConformityColor(breakdown.firstDigitTest.conformity.level))}>
+                    {getConformityLabel(breakdown.firstDigitTest.conformity.level)}
+                  </span>
+                  {breakdown.firstDigitTest.totalAnalyzed < 50 && (
+                    <div className="text-xs text-gray-400 mt-1">Small sample</div>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
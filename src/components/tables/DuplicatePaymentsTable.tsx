@@ -0,0 +1,189 @@
+import { useState, useMemo } from 'react';
+import { ChevronDown, ChevronRight, Filter, Receipt } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { getDuplicateTypeLabel } from '../../utils/duplicatePayments';
+import type { CleanedDataRow, DuplicatePaymentResult, DuplicatePaymentType } from '../../types';
+
+interface DuplicatePaymentsTableProps {
+  result: DuplicatePaymentResult;
+  data: CleanedDataRow[];
+  className?: string;
+}
+
+const DUPLICATE_TYPES: DuplicatePaymentType[] = ['exact', 'near_same_vendor', 'same_amount_different_vendor'];
+const PAGE_SIZE = 25;
+
+function getTypeColor(type: DuplicatePaymentType) {
+  switch (type) {
+    case 'exact': return 'text-red-700 bg-red-100';
+    case 'near_same_vendor': return 'text-amber-600 bg-amber-50';
+    case 'same_amount_different_vendor': return 'text-blue-600 bg-blue-50';
+  }
+}
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function DuplicatePaymentsTable({ result, data, className }: DuplicatePaymentsTableProps) {
+  const [typeFilter, setTypeFilter] = useState<DuplicatePaymentType[]>([]);
+  const [expandedGroup, setExpandedGroup] = useState<number | null>(null);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const filteredGroups = useMemo(() => {
+    return result.groups
+      .map((group, id) => ({ group, id }))
+      .filter(({ group }) => typeFilter.length === 0 || typeFilter.includes(group.type));
+  }, [result.groups, typeFilter]);
+
+  const handleTypeFilterChange = (type: DuplicatePaymentType, checked: boolean) => {
+    setTypeFilter(checked ? [...typeFilter, type] : typeFilter.filter(t => t !== type));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center justify-between mb-4">
+          <div className="flex items-center space-x-3">
+            <Receipt className="w-6 h-6 text-red-600" />
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">
+                Duplicate Payments
+              </h3>
+              <p className="text-sm text-gray-600">
+                {result.exactCount} exact, {result.nearSameVendorCount} same vendor within {result.windowDays} days,
+                {' '}{result.sameAmountDifferentVendorCount} same amount to different vendors
+              </p>
+            </div>
+          </div>
+          <div className="text-right">
+            <div className="text-lg font-bold text-red-600">{formatCurrency(result.potentialRecovery)}</div>
+            <div className="text-xs text-gray-500">Potential recovery</div>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Filter className="w-4 h-4 text-gray-500" />
+          <span className="text-sm text-gray-700">Type:</span>
+          {DUPLICATE_TYPES.map(type => (
+            <label key={type} className="flex items-center space-x-1 text-sm">
+              <input
+                type="checkbox"
+                checked={typeFilter.includes(type)}
+                onChange={(e) => handleTypeFilterChange(type, e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className={cn('px-2 py-1 rounded text-xs font-medium', getTypeColor(type))}>
+                {getDuplicateTypeLabel(type)}
+              </span>
+            </label>
+          ))}
+        </div>
+      </div>
+
+      {filteredGroups.length === 0 ? (
+        <div className="text-center py-8">
+          <Receipt className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No duplicate payments found</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Type
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Vendor(s)
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Date(s)
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Payments
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Potential Recovery
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {filteredGroups.slice(0, visibleCount).map(({ group, id }) => {
+                const isExpanded = expandedGroup === id;
+
+                return [
+                  <tr
+                    key={id}
+                    className="hover:bg-gray-50 transition-colors cursor-pointer"
+                    onClick={() => setExpandedGroup(isExpanded ? null : id)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-2">
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        <span className={cn('inline-flex px-2 py-1 text-xs font-semibold rounded-full', getTypeColor(group.type))}>
+                          {getDuplicateTypeLabel(group.type)}
+                        </span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {formatCurrency(group.amount)}
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {group.vendors.join(', ')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {group.firstDate === group.lastDate ? group.firstDate : `${group.firstDate} – ${group.lastDate}`}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {group.rowIndices.length}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(group.potentialRecovery)}
+                    </td>
+                  </tr>,
+                  isExpanded && (
+                    <tr key={`${id}-rows`} className="bg-gray-50">
+                      <td colSpan={6} className="px-6 py-4">
+                        <div className="space-y-2">
+                          {group.rowIndices.map(index => {
+                            const row = data[index];
+                            return (
+                              <div key={index} className="grid grid-cols-4 gap-4 text-sm">
+                                <span className="text-gray-600">Row #{index + 1}</span>
+                                <span className="text-gray-900">{row?.vendor || 'N/A'}</span>
+                                <span className="text-gray-900">{row?.category || 'N/A'}</span>
+                                <span className="text-gray-600">
+                                  {row?.date ? new Date(row.date).toLocaleDateString() : 'N/A'}
+                                </span>
+                              </div>
+                            );
+                          })}
+                        </div>
+                      </td>
+                    </tr>
+                  ),
+                ];
+              })}
+            </tbody>
+          </table>
+
+          {filteredGroups.length > visibleCount && (
+            <div className="p-4 text-center border-t border-gray-200">
+              <button
+                onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                Show more ({filteredGroups.length - visibleCount} remaining)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
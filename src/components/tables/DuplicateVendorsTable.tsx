@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { Users } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import type { DuplicateVendorResult, VendorMatchType } from '../../types';
+
+interface DuplicateVendorsTableProps {
+  result: DuplicateVendorResult;
+  className?: string;
+}
+
+const PAGE_SIZE = 25;
+
+function getMatchTypeColor(type: VendorMatchType) {
+  switch (type) {
+    case 'normalized': return 'text-green-700 bg-green-100';
+    case 'fuzzy': return 'text-amber-600 bg-amber-50';
+  }
+}
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function DuplicateVendorsTable({ result, className }: DuplicateVendorsTableProps) {
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const fuzzyCount = result.groups.filter(group => group.matchType === 'fuzzy').length;
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <Users className="w-6 h-6 text-amber-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Likely Duplicate Vendors
+            </h3>
+            <p className="text-sm text-gray-600">
+              {result.groups.length - fuzzyCount} vendors recorded under differently written names,
+              {' '}{fuzzyCount} near-identical names at least {(result.similarityThreshold * 100).toFixed(0)}% similar
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full">
+          <thead className="bg-gray-50">
+            <tr>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Vendor
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Variants
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Match
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Transactions
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Total
+              </th>
+              <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Analysis
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {result.groups.slice(0, visibleCount).map(group => (
+              <tr key={group.canonical} className="hover:bg-gray-50 transition-colors">
+                <td className="px-6 py-4 text-sm font-medium text-gray-900">
+                  {group.canonical}
+                </td>
+                <td className="px-6 py-4 text-sm text-gray-600">
+                  {group.variants.filter(variant => variant.name !== group.canonical).map(variant => (
+                    <div key={variant.name}>
+                      "{variant.name}"
+                      <span className="text-xs text-gray-400"> · {(variant.similarity * 100).toFixed(0)}% · {variant.transactionCount} txns</span>
+                    </div>
+                  ))}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <span className={cn('px-2 py-1 rounded text-xs font-medium', getMatchTypeColor(group.matchType))}>
+                    {group.matchType === 'normalized' ? 'Same name' : `${(group.similarity * 100).toFixed(0)}% similar`}
+                  </span>
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {group.variants.reduce((sum, variant) => sum + variant.transactionCount, 0).toLocaleString()}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                  {formatCurrency(group.variants.reduce((sum, variant) => sum + variant.totalAmount, 0))}
+                </td>
+                <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                  {group.merged ? 'Merged' : 'Kept separate'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {result.groups.length > visibleCount && (
+          <div className="p-4 text-center border-t border-gray-200">
+            <button
+              onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+              className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+            >
+              Show more ({result.groups.length - visibleCount} remaining)
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Copy } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import type { CleanedDataRow, NumberDuplicationResult } from '../../types';
+
+interface DuplicationTableProps {
+  result: NumberDuplicationResult;
+  data: CleanedDataRow[];
+  className?: string;
+}
+
+// Rows shown when an amount is expanded
+const MAX_DRILL_DOWN_ROWS = 20;
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function formatList(values: string[]) {
+  if (values.length === 0) return 'N/A';
+  if (values.length <= 2) return values.join(', ');
+  return `${values.slice(0, 2).join(', ')} +${values.length - 2} more`;
+}
+
+export function DuplicationTable({ result, data, className }: DuplicationTableProps) {
+  const [expandedAmount, setExpandedAmount] = useState<number | null>(null);
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <Copy className="w-6 h-6 text-purple-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Number Duplication Test
+            </h3>
+            <p className="text-sm text-gray-600">
+              {result.duplicatedAmountCount.toLocaleString()} of {result.distinctAmounts.toLocaleString()} distinct amounts occur more than once
+              ({result.duplicatedTransactionCount.toLocaleString()} transactions)
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {result.topAmounts.length === 0 ? (
+        <div className="text-center py-8">
+          <Copy className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No amount occurs more than once</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Count
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Share
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Vendors
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Categories
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {result.topAmounts.map(entry => {
+                const isExpanded = expandedAmount === entry.amount;
+
+                return [
+                  <tr
+                    key={entry.amount}
+                    className="hover:bg-gray-50 transition-colors cursor-pointer"
+                    onClick={() => setExpandedAmount(isExpanded ? null : entry.amount)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        <span>{formatCurrency(entry.amount)}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {entry.count.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {entry.share.toFixed(2)}%
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <span title={entry.vendors.join(', ')}>
+                        {entry.vendors.length} ({formatList(entry.vendors)})
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      <span title={entry.categories.join(', ')}>
+                        {entry.categories.length} ({formatList(entry.categories)})
+                      </span>
+                    </td>
+                  </tr>,
+                  isExpanded && (
+                    <tr key={`${entry.amount}-rows`} className="bg-gray-50">
+                      <td colSpan={5} className="px-6 py-4">
+                        <div className="space-y-2">
+                          {entry.rowIndices.slice(0, MAX_DRILL_DOWN_ROWS).map(index => {
+                            const row = data[index];
+                            return (
+                              <div key={index} className="grid grid-cols-4 gap-4 text-sm">
+                                <span className="text-gray-600">Row #{index + 1}</span>
+                                <span className="text-gray-900">{row?.vendor || 'N/A'}</span>
+                                <span className="text-gray-900">{row?.category || 'N/A'}</span>
+                                <span className="text-gray-600">
+                                  {row?.date ? new Date(row.date).toLocaleDateString() : 'N/A'}
+                                </span>
+                              </div>
+                            );
+                          })}
+                          {entry.rowIndices.length > MAX_DRILL_DOWN_ROWS && (
+                            <div className="text-xs text-gray-500">
+                              +{entry.rowIndices.length - MAX_DRILL_DOWN_ROWS} more rows
+                            </div>
+                          )}
+                        </div>
+                      </td>
+                    </tr>
+                  ),
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
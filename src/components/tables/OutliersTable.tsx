@@ -0,0 +1,168 @@
+import { useState, useMemo } from 'react';
+import { Filter, TrendingUp } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import { getOutlierMethodLabel } from '../../utils/robustOutliers';
+import type { CleanedDataRow, OutlierGroupType, RobustOutlierResult } from '../../types';
+
+interface OutliersTableProps {
+  result: RobustOutlierResult;
+  data: CleanedDataRow[];
+  className?: string;
+}
+
+const GROUP_TYPES: OutlierGroupType[] = ['vendor', 'category'];
+const PAGE_SIZE = 25;
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function OutliersTable({ result, data, className }: OutliersTableProps) {
+  const [groupType, setGroupType] = useState<OutlierGroupType>('vendor');
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const outliers = useMemo(
+    () => result.outliers.filter(outlier => outlier.baseline.groupType === groupType),
+    [result.outliers, groupType]
+  );
+  const baselineCount = result.baselines.filter(baseline => baseline.groupType === groupType).length;
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-3 mb-4">
+          <TrendingUp className="w-6 h-6 text-orange-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Vendor & Category Outliers
+            </h3>
+            <p className="text-sm text-gray-600">
+              Amounts far above their own {groupType}'s typical amounts; at least {result.minAgreeingMethods} of modified z-score,
+              IQR fence and log z-score must agree
+            </p>
+          </div>
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Filter className="w-4 h-4 text-gray-500" />
+          <span className="text-sm text-gray-700">Compare within:</span>
+          {GROUP_TYPES.map(type => (
+            <button
+              key={type}
+              onClick={() => {
+                setGroupType(type);
+                setVisibleCount(PAGE_SIZE);
+              }}
+              className={cn(
+                'px-3 py-1 text-sm rounded-md border capitalize transition-colors',
+                groupType === type
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+              )}
+            >
+              {type}
+            </button>
+          ))}
+          <span className="text-xs text-gray-500">
+            {baselineCount} {groupType === 'vendor' ? 'vendors' : 'categories'} with enough transactions for a baseline
+          </span>
+        </div>
+      </div>
+
+      {outliers.length === 0 ? (
+        <div className="text-center py-8">
+          <TrendingUp className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No {groupType} outliers found</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Amount
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider capitalize">
+                  {groupType}
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Typical (Median)
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Q1 – Q3
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Upper Fence
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Modified Z
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Log Z
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Methods
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {outliers.slice(0, visibleCount).map(outlier => {
+                const row = data[outlier.index];
+                return (
+                  <tr key={`${outlier.baseline.groupType}-${outlier.index}`} className="hover:bg-gray-50 transition-colors">
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="text-sm font-medium text-gray-900">{formatCurrency(outlier.amount)}</div>
+                      <div className="text-xs text-gray-500">
+                        Row #{outlier.index + 1}
+                        {row?.date ? ` · ${new Date(row.date).toLocaleDateString()}` : ''}
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 text-sm text-gray-900">
+                      {outlier.baseline.group}
+                      <div className="text-xs text-gray-500">{outlier.baseline.transactionCount} transactions</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(outlier.baseline.median)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {formatCurrency(outlier.baseline.q1)} – {formatCurrency(outlier.baseline.q3)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-600">
+                      {formatCurrency(outlier.baseline.upperFence)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {outlier.modifiedZ.toFixed(1)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm font-medium text-gray-900">
+                      {outlier.logZ.toFixed(1)}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex flex-wrap gap-1">
+                        {outlier.methods.map(method => (
+                          <span key={method} className="px-2 py-0.5 text-xs font-medium rounded bg-orange-50 text-orange-700">
+                            {getOutlierMethodLabel(method)}
+                          </span>
+                        ))}
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          {outliers.length > visibleCount && (
+            <div className="p-4 text-center border-t border-gray-200">
+              <button
+                onClick={() => setVisibleCount(visibleCount + PAGE_SIZE)}
+                className="text-sm text-blue-600 hover:text-blue-800 transition-colors"
+              >
+                Show more ({outliers.length - visibleCount} remaining)
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronRight, Sigma } from 'lucide-react';
+import { cn } from '../../utils/cn';
+import type { SummationTestResult } from '../../types';
+
+interface SummationTableProps {
+  result: SummationTestResult;
+  className?: string;
+}
+
+function formatCurrency(amount: number) {
+  return `$${amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export function SummationTable({ result, className }: SummationTableProps) {
+  const [expandedBin, setExpandedBin] = useState<number | null>(null);
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-gray-200', className)}>
+      <div className="p-6 border-b border-gray-200">
+        <div className="flex items-center space-x-3">
+          <Sigma className="w-6 h-6 text-indigo-600" />
+          <div>
+            <h3 className="text-lg font-semibold text-gray-900">
+              Summation Test
+            </h3>
+            <p className="text-sm text-gray-600">
+              First-two digits bins holding more than twice their equal share ({result.bins[0]?.expected.toFixed(2) ?? '0.00'}%) of {formatCurrency(result.totalAmount)}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      {result.spikes.length === 0 ? (
+        <div className="text-center py-8">
+          <Sigma className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+          <p className="text-gray-500">No digit bins are dominated by large amounts</p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead className="bg-gray-50">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  First Two Digits
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Transactions
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Bin Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Share of Total
+                </th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                  Top Contributor
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {result.spikes.map(bin => {
+                const isExpanded = expandedBin === bin.digits;
+                const top = bin.topContributors[0];
+
+                return [
+                  <tr
+                    key={bin.digits}
+                    className="hover:bg-gray-50 transition-colors cursor-pointer"
+                    onClick={() => setExpandedBin(isExpanded ? null : bin.digits)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <div className="flex items-center space-x-2 text-sm font-medium text-gray-900">
+                        {isExpanded ? <ChevronDown className="w-4 h-4" /> : <ChevronRight className="w-4 h-4" />}
+                        <span>{bin.digits}</span>
+                      </div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {bin.count.toLocaleString()}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {formatCurrency(bin.sum)}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap">
+                      <span className="text-sm font-medium text-red-600">
+                        {bin.observed.toFixed(2)}%
+                      </span>
+                      <span className="text-xs text-gray-500 ml-1">
+                        ({(bin.observed / bin.expected).toFixed(1)}× expected)
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-900">
+                      {top && (
+                        <span>
+                          {formatCurrency(top.amount)} ({top.shareOfBin.toFixed(1)}% of bin)
+                        </span>
+                      )}
+                    </td>
+                  </tr>,
+                  isExpanded && (
+                    <tr key={`${bin.digits}-contributors`} className="bg-gray-50">
+                      <td colSpan={5} className="px-6 py-4">
+                        <div className="space-y-2">
+                          {bin.topContributors.map(contributor => (
+                            <div key={contributor.index} className="grid grid-cols-4 gap-4 text-sm">
+                              <span className="text-gray-600">Row #{contributor.index + 1}</span>
+                              <span className="text-gray-900">{contributor.vendor || 'Unknown vendor'}</span>
+                              <span className="font-medium text-gray-900">{formatCurrency(contributor.amount)}</span>
+                              <span className="text-gray-600">{contributor.shareOfBin.toFixed(1)}% of bin</span>
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  ),
+                ];
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
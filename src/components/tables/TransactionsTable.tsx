@@ -1,7 +1,9 @@
 import { useState, useMemo } from 'react';
 import { ChevronDown, ChevronUp, Search, Flag, Download, Eye } from 'lucide-react';
 import { cn } from '../../utils/cn';
-import type { FlaggedTransaction } from '../../types';
+import { FLAG_RULES, FLAG_RULE_IDS, RISK_SCORE_CUTOFFS, formatEvidence, hasRuleHit } from '../../utils/flagRules';
+import { csvField } from '../../utils/reportExporter';
+import type { FlagType, FlaggedTransaction } from '../../types';
 
 interface TransactionsTableProps {
   transactions: FlaggedTransaction[];
@@ -9,7 +11,7 @@ interface TransactionsTableProps {
   onTransactionSelect?: (transaction: FlaggedTransaction) => void;
 }
 
-type SortField = 'amount' | 'vendor' | 'firstDigit' | 'riskLevel';
+type SortField = 'amount' | 'vendor' | 'firstDigit' | 'riskLevel' | 'score';
 type SortDirection = 'asc' | 'desc';
 
 const RISK_LEVELS = ['medium', 'high', 'critical'] as const;
@@ -24,20 +26,25 @@ function getRiskColor(riskLevel: string) {
   }
 }
 
-function getRiskPriority(riskLevel: string): number {
-  switch (riskLevel) {
-    case 'critical': return 3;
-    case 'high': return 2;
-    case 'medium': return 1;
-    default: return 0;
-  }
+// The vendor's typical amount, shown under amounts flagged against it
+function VendorBaseline({ transaction }: { transaction: FlaggedTransaction }) {
+  const hit = transaction.ruleHits.find(ruleHit => ruleHit.ruleId === 'vendor_outlier');
+  if (!hit) return null;
+  return (
+    <div className="text-xs text-gray-500">
+      Vendor typical ${Number(hit.evidence.median).toLocaleString(undefined, { maximumFractionDigits: 2 })}
+      {' '}(Q1–Q3 ${Number(hit.evidence.q1).toLocaleString(undefined, { maximumFractionDigits: 2 })}–${Number(hit.evidence.q3).toLocaleString(undefined, { maximumFractionDigits: 2 })})
+    </div>
+  );
 }
 
+
 export function TransactionsTable({ transactions, className, onTransactionSelect }: TransactionsTableProps) {
   const [sortField, setSortField] = useState<SortField>('riskLevel');
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc');
   const [searchTerm, setSearchTerm] = useState('');
   const [riskFilter, setRiskFilter] = useState<string[]>([]);
+  const [ruleFilter, setRuleFilter] = useState<FlagType | ''>('');
   const [currentPage, setCurrentPage] = useState(1);
 
   const handleSort = (field: SortField) => {
@@ -66,7 +73,8 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
         transaction.amount.toString().includes(searchTerm) ||
         transaction.reason.toLowerCase().includes(searchTerm.toLowerCase());
       const matchesRisk = riskFilter.length === 0 || riskFilter.includes(transaction.riskLevel);
-      return matchesSearch && matchesRisk;
+      const matchesRule = !ruleFilter || hasRuleHit(transaction, ruleFilter);
+      return matchesSearch && matchesRisk && matchesRule;
     });
 
     return filtered.sort((a, b) => {
@@ -86,9 +94,11 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
           aValue = a.firstDigit;
           bValue = b.firstDigit;
           break;
+        // Risk level is derived from the score, so both sort by score
         case 'riskLevel':
-          aValue = getRiskPriority(a.riskLevel);
-          bValue = getRiskPriority(b.riskLevel);
+        case 'score':
+          aValue = a.score;
+          bValue = b.score;
           break;
         default:
           return 0;
@@ -104,24 +114,29 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
           : (bValue as number) - (aValue as number);
       }
     });
-  }, [transactions, sortField, sortDirection, searchTerm, riskFilter]);
+  }, [transactions, sortField, sortDirection, searchTerm, riskFilter, ruleFilter]);
 
   const totalPages = Math.ceil(sortedAndFilteredTransactions.length / ITEMS_PER_PAGE);
   const startIndex = (currentPage - 1) * ITEMS_PER_PAGE;
   const paginatedTransactions = sortedAndFilteredTransactions.slice(startIndex, startIndex + ITEMS_PER_PAGE);
 
   const handleExport = () => {
-    const csvHeaders = ['Amount', 'Vendor', 'First Digit', 'Risk Level', 'Reason'];
-    const csvData = sortedAndFilteredTransactions.map(tx => [
+    const csvHeaders = ['Amount', 'Vendor', 'Transaction Type', 'First Digit', 'Risk Level', 'Score', 'Rule', 'Rule Description', 'Weight', 'Evidence'];
+    const csvData = sortedAndFilteredTransactions.flatMap(tx => tx.ruleHits.map(hit => [
       tx.amount,
       tx.vendor || '',
+      tx.transactionType || '',
       tx.firstDigit,
       tx.riskLevel,
-      tx.reason
-    ]);
+      tx.score,
+      hit.ruleId,
+      hit.description,
+      hit.weight,
+      formatEvidence(hit.evidence)
+    ]));
     
     const csvContent = [csvHeaders, ...csvData]
-      .map(row => row.map(field => `"${field}"`).join(','))
+      .map(row => row.map(csvField).join(','))
       .join('\n');
     
     const blob = new Blob([csvContent], { type: 'text/csv' });
@@ -151,7 +166,8 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
                 Flagged Transactions
               </h3>
               <p className="text-sm text-gray-600">
-                Transactions with suspicious patterns ({transactions.length} flagged)
+                Transactions with suspicious patterns ({transactions.length} flagged).
+                Score is the sum of rule weights: critical at {RISK_SCORE_CUTOFFS.critical}+, high at {RISK_SCORE_CUTOFFS.high}+.
               </p>
             </div>
           </div>
@@ -177,6 +193,21 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
             />
           </div>
 
+          <select
+            value={ruleFilter}
+            onChange={(e) => {
+              setRuleFilter(e.target.value as FlagType | '');
+              setCurrentPage(1);
+            }}
+            className="px-3 py-2 border border-gray-300 rounded-md text-sm focus:ring-2 focus:ring-blue-500 focus:border-blue-500"
+            title="Filter by rule"
+          >
+            <option value="">All rules</option>
+            {FLAG_RULE_IDS.map(ruleId => (
+              <option key={ruleId} value={ruleId}>{FLAG_RULES[ruleId].label}</option>
+            ))}
+          </select>
+
           <div className="flex items-center space-x-2">
             <span className="text-sm text-gray-700">Risk Level:</span>
             {RISK_LEVELS.map(risk => (
@@ -236,8 +267,17 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
                   <SortIcon field="riskLevel" />
                 </div>
               </th>
+              <th 
+                className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100"
+                onClick={() => handleSort('score')}
+              >
+                <div className="flex items-center space-x-1">
+                  <span>Score</span>
+                  <SortIcon field="score" />
+                </div>
+              </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                Reason
+                Rules
               </th>
               <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                 Actions
@@ -254,11 +294,15 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
                   <div className="text-sm font-medium text-gray-900">
                     ${transaction.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
                   </div>
+                  <VendorBaseline transaction={transaction} />
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm text-gray-900">
                     {transaction.vendor || 'N/A'}
                   </div>
+                  {transaction.transactionType && (
+                    <div className="text-xs text-gray-500">{transaction.transactionType}</div>
+                  )}
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className="text-sm font-medium text-gray-900">
@@ -273,9 +317,22 @@ export function TransactionsTable({ transactions, className, onTransactionSelect
                     {transaction.riskLevel}
                   </span>
                 </td>
+                <td className="px-6 py-4 whitespace-nowrap">
+                  <div className="text-sm font-medium text-gray-900">
+                    {transaction.score}
+                  </div>
+                </td>
                 <td className="px-6 py-4">
-                  <div className="text-sm text-gray-900 max-w-xs">
-                    {transaction.reason}
+                  <div className="flex flex-wrap gap-1 max-w-xs">
+                    {transaction.ruleHits.map((hit, hitIndex) => (
+                      <span
+                        key={`${hit.ruleId}-${hitIndex}`}
+                        className="inline-flex px-2 py-0.5 text-xs rounded bg-gray-100 text-gray-700"
+                        title={formatEvidence(hit.evidence)}
+                      >
+                        {hit.description} +{hit.weight}
+                      </span>
+                    ))}
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -1,6 +1,7 @@
 import { useState, useMemo } from 'react';
 import { ChevronDown, ChevronUp, Search, AlertTriangle, Users, Filter } from 'lucide-react';
 import { cn } from '../../utils/cn';
+import { CONFORMITY_THRESHOLDS } from '../../utils/conformity';
 import type { VendorAnalysis } from '../../types';
 
 interface VendorsTableProps {
@@ -13,6 +14,7 @@ type SortField = 'vendor' | 'transactionCount' | 'mad' | 'chiSquare' | 'riskLeve
 type SortDirection = 'asc' | 'desc';
 
 const RISK_LEVELS = ['low', 'medium', 'high', 'critical'] as const;
+const VENDOR_MAD_THRESHOLDS = CONFORMITY_THRESHOLDS.first_digit;
 
 function getRiskColor(riskLevel: string) {
   switch (riskLevel) {
@@ -239,9 +241,9 @@ export function VendorsTable({ vendors, className, onVendorSelect }: VendorsTabl
                 <td className="px-6 py-4 whitespace-nowrap">
                   <div className={cn(
                     'text-sm font-medium',
-                    vendor.mad > 15 ? 'text-red-600' : vendor.mad > 8 ? 'text-amber-600' : 'text-green-600'
+                    vendor.mad >= VENDOR_MAD_THRESHOLDS.marginal ? 'text-red-600' : vendor.mad >= VENDOR_MAD_THRESHOLDS.acceptable ? 'text-amber-600' : 'text-green-600'
                   )}>
-                    {vendor.mad.toFixed(2)}
+                    {vendor.mad.toFixed(4)}
                   </div>
                 </td>
                 <td className="px-6 py-4 whitespace-nowrap">
@@ -0,0 +1,53 @@
+import { create } from 'zustand';
+import { db } from '../utils/databaseService';
+import { DEFAULT_APPROVAL_LIMITS, normalizeApprovalLimits } from '../utils/thresholdAvoidance';
+import { DEFAULT_ANALYSIS_PROFILE, normalizeAnalysisProfile } from '../utils/analysisProfile';
+import type { AnalysisOptions, AnalysisProfile, AnalysisSettings } from '../types';
+
+// Settings used to be kept for the whole browser under this key
+const LEGACY_STORAGE_KEY = 'expense-audit-analysis-settings';
+
+interface AnalysisSettingsStore extends AnalysisSettings {
+  userId: string | null;
+  loadSettings: (userId: string) => Promise<void>;
+  saveSettings: (settings: { approvalLimits?: number[]; profile?: Partial<AnalysisProfile> }) => Promise<void>;
+  getAnalysisOptions: () => AnalysisOptions;
+}
+
+// Settings live in IndexedDB per user; the store mirrors the signed-in user's settings
+export const useAnalysisSettings = create<AnalysisSettingsStore>()((set, get) => ({
+  userId: null,
+  approvalLimits: DEFAULT_APPROVAL_LIMITS,
+  profile: DEFAULT_ANALYSIS_PROFILE,
+
+  // Another user's settings are never carried over; defaults apply until loaded
+  loadSettings: async (userId: string) => {
+    localStorage.removeItem(LEGACY_STORAGE_KEY);
+    set({ userId, approvalLimits: DEFAULT_APPROVAL_LIMITS, profile: DEFAULT_ANALYSIS_PROFILE });
+    try {
+      const saved = await db.getAnalysisSettings(userId);
+      if (saved && get().userId === userId) {
+        // Settings saved before a profile field existed pick up its default
+        set({
+          approvalLimits: normalizeApprovalLimits(saved.approvalLimits ?? DEFAULT_APPROVAL_LIMITS),
+          profile: normalizeAnalysisProfile(saved.profile),
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load analysis settings:', error);
+    }
+  },
+
+  saveSettings: async ({ approvalLimits, profile }) => {
+    const { userId } = get();
+    if (!userId) throw new Error('Sign in to save analysis settings');
+    const settings: AnalysisSettings = {
+      approvalLimits: approvalLimits ? normalizeApprovalLimits(approvalLimits) : get().approvalLimits,
+      profile: profile ? normalizeAnalysisProfile({ ...get().profile, ...profile }) : get().profile,
+    };
+    await db.saveAnalysisSettings(userId, settings);
+    set(settings);
+  },
+
+  getAnalysisOptions: () => ({ approvalLimits: get().approvalLimits, profile: get().profile }),
+}));
@@ -1,15 +1,27 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { performBenfordAnalysis } from '../utils/benfordAnalysis';
-import type { ProcessedDataset, BenfordResult } from '../types';
+import { useAnalysisSettings } from './useAnalysisSettings';
+import { useCustomRules } from './useCustomRules';
+import { useAuth } from './useAuth';
+import type {
+  AnalysisOptions,
+  AnalysisProgress,
+  AnalysisWorkerResponse,
+  BenfordResult,
+  CleanedDataRow,
+  ProcessedDataset,
+} from '../types';
 
 interface UseBenfordAnalysisReturn {
   // Analysis state
   benfordResult: BenfordResult | null;
   isAnalyzing: boolean;
   analysisError: string | null;
+  progress: AnalysisProgress | null;
   
   // Actions
   runAnalysis: (dataset: ProcessedDataset) => Promise<void>;
+  cancelAnalysis: () => void;
   resetAnalysis: () => void;
   
   // Computed state
@@ -18,35 +30,134 @@ interface UseBenfordAnalysisReturn {
   needsInvestigation: boolean;
 }
 
+/**
+ * Run the analysis in a dedicated worker, resolving with the result or
+ * rejecting on error. Falls back to the main thread where workers are
+ * unavailable.
+ */
+function analyzeInWorker(
+  dataset: ProcessedDataset,
+  options: AnalysisOptions,
+  onProgress: (progress: AnalysisProgress) => void,
+  onStart: (worker: Worker) => void
+): Promise<BenfordResult> {
+  if (typeof Worker === 'undefined') {
+    return Promise.resolve(performBenfordAnalysis(dataset, options, onProgress));
+  }
+
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/benfordAnalysis.worker.ts', import.meta.url), { type: 'module' });
+    onStart(worker);
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          onProgress(message.progress);
+          break;
+        case 'result':
+          worker.terminate();
+          resolve(message.result);
+          break;
+        case 'error':
+          worker.terminate();
+          reject(new Error(message.error));
+          break;
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || 'Analysis worker failed'));
+    };
+
+    // The engine never reads `originalRow`, so skip copying it to the worker
+    const withoutOriginalRows = (rows: CleanedDataRow[]) => rows.map(row => ({ ...row, originalRow: undefined }));
+    worker.postMessage({
+      dataset: {
+        ...dataset,
+        data: withoutOriginalRows(dataset.data),
+        credits: dataset.credits && withoutOriginalRows(dataset.credits),
+        unconverted: dataset.unconverted && withoutOriginalRows(dataset.unconverted),
+      },
+      options,
+    });
+  });
+}
+
 export function useBenfordAnalysis(): UseBenfordAnalysisReturn {
+  const { user } = useAuth();
+  const userId = user?._id;
   const [benfordResult, setBenfordResult] = useState<BenfordResult | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisError, setAnalysisError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  // Incremented on every run or cancel so stale results are ignored
+  const runIdRef = useRef(0);
+
+  const stopWorker = useCallback(() => {
+    workerRef.current?.terminate();
+    workerRef.current = null;
+  }, []);
+
+  useEffect(() => stopWorker, [stopWorker]);
 
   const runAnalysis = useCallback(async (dataset: ProcessedDataset) => {
+    stopWorker();
+    const runId = ++runIdRef.current;
     setIsAnalyzing(true);
     setAnalysisError(null);
     setBenfordResult(null);
+    setProgress(null);
 
     try {
-      // Simulate some processing time for better UX
-      await new Promise(resolve => setTimeout(resolve, 1000));
-      
-      const result = performBenfordAnalysis(dataset);
+      // Custom rules and analysis settings are stored per user; load them if this user's aren't loaded yet
+      const customRules = useCustomRules.getState();
+      if (userId && customRules.userId !== userId) await customRules.loadRules(userId);
+      const analysisSettings = useAnalysisSettings.getState();
+      if (userId && analysisSettings.userId !== userId) await analysisSettings.loadSettings(userId);
+      if (runId !== runIdRef.current) return;
+
+      const result = await analyzeInWorker(
+        dataset,
+        {
+          ...(userId ? useAnalysisSettings.getState().getAnalysisOptions() : {}),
+          customRules: userId ? useCustomRules.getState().getEnabledRules() : [],
+        },
+        (update) => {
+          if (runId === runIdRef.current) setProgress(update);
+        },
+        (worker) => {
+          workerRef.current = worker;
+        }
+      );
+      if (runId !== runIdRef.current) return;
       setBenfordResult(result);
     } catch (error) {
+      if (runId !== runIdRef.current) return;
       const errorMessage = error instanceof Error ? error.message : 'Analysis failed';
       setAnalysisError(errorMessage);
     } finally {
-      setIsAnalyzing(false);
+      if (runId === runIdRef.current) {
+        workerRef.current = null;
+        setIsAnalyzing(false);
+        setProgress(null);
+      }
     }
-  }, []);
+  }, [stopWorker, userId]);
+
+  const cancelAnalysis = useCallback(() => {
+    runIdRef.current++;
+    stopWorker();
+    setIsAnalyzing(false);
+    setProgress(null);
+  }, [stopWorker]);
 
   const resetAnalysis = useCallback(() => {
+    cancelAnalysis();
     setBenfordResult(null);
     setAnalysisError(null);
-    setIsAnalyzing(false);
-  }, []);
+  }, [cancelAnalysis]);
 
   // Computed state
   const hasResult = benfordResult !== null;
@@ -59,7 +170,9 @@ export function useBenfordAnalysis(): UseBenfordAnalysisReturn {
     benfordResult,
     isAnalyzing,
     analysisError,
+    progress,
     runAnalysis,
+    cancelAnalysis,
     resetAnalysis,
     hasResult,
     isCompliant,
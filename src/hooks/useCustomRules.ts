@@ -0,0 +1,73 @@
+import { create } from 'zustand';
+import { db } from '../utils/databaseService';
+import { parseCustomRulesJson } from '../utils/customRules';
+import type { CustomRule } from '../types';
+
+type CustomRuleInput = Omit<CustomRule, 'id'> & { id?: string };
+
+interface CustomRulesStore {
+  userId: string | null;
+  rules: CustomRule[];
+  isLoading: boolean;
+  error: string | null;
+  loadRules: (userId: string) => Promise<void>;
+  saveRule: (rule: CustomRuleInput) => Promise<void>;
+  deleteRule: (ruleId: string) => Promise<void>;
+  importRules: (json: string) => Promise<number>;
+  getEnabledRules: () => CustomRule[];
+}
+
+// Rules live in IndexedDB per user; the store mirrors the signed-in user's rules
+export const useCustomRules = create<CustomRulesStore>()((set, get) => {
+  const requireUser = () => {
+    const { userId } = get();
+    if (!userId) throw new Error('Sign in to manage custom rules');
+    return userId;
+  };
+
+  return {
+    userId: null,
+    rules: [],
+    isLoading: false,
+    error: null,
+
+    loadRules: async (userId: string) => {
+      set({ userId, isLoading: true, error: null });
+      try {
+        const rules = await db.getCustomRules(userId);
+        if (get().userId === userId) set({ rules, isLoading: false });
+      } catch (error) {
+        console.error('Failed to load custom rules:', error);
+        set({ isLoading: false, error: 'Failed to load custom rules' });
+      }
+    },
+
+    saveRule: async (rule: CustomRuleInput) => {
+      const saved = await db.saveCustomRule(requireUser(), rule);
+      set(state => ({
+        rules: state.rules.some(existing => existing.id === saved.id)
+          ? state.rules.map(existing => (existing.id === saved.id ? saved : existing))
+          : [...state.rules, saved],
+      }));
+    },
+
+    deleteRule: async (ruleId: string) => {
+      await db.deleteCustomRule(ruleId);
+      set(state => ({ rules: state.rules.filter(rule => rule.id !== ruleId) }));
+    },
+
+    // Imported rules are always added as new rules; returns how many were added
+    importRules: async (json: string) => {
+      const userId = requireUser();
+      const imported = parseCustomRulesJson(json);
+      const saved: CustomRule[] = [];
+      for (const rule of imported) {
+        saved.push(await db.saveCustomRule(userId, rule));
+      }
+      set(state => ({ rules: [...state.rules, ...saved] }));
+      return saved.length;
+    },
+
+    getEnabledRules: () => get().rules.filter(rule => rule.enabled),
+  };
+});
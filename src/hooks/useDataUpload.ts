@@ -1,13 +1,40 @@
-import { useState, useCallback } from 'react';
-import { parseFile, autoDetectColumns, processData } from '../utils/dataProcessing';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import {
+  parseFile,
+  previewCsvFile,
+  streamCsvFile,
+  autoDetectColumns,
+  processData,
+  getFileType,
+  STREAMING_THRESHOLD_BYTES,
+} from '../utils/dataProcessing';
+import { isBankStatement, STATEMENT_COLUMN_MAPPING } from '../utils/bankStatements';
+import { applyExchangeRates } from '../utils/currency';
+import { combineFiles, reconcileSchemas } from '../utils/fileCombiner';
+import {
+  getDefaultSheetSelection,
+  getSheetInfo,
+  readSheets,
+  readWorkbook,
+  summarizeWorkbook,
+} from '../utils/excelWorkbook';
 import { useUsageTracking } from './useUsageTracking';
 import type { 
   FileUploadState, 
   ProcessedDataset, 
   ColumnMapping, 
   RawDataRow, 
-  FileType 
+  FileType,
+  StreamingImportProgress,
+  VendorMergeMap,
+  ExchangeRateTable,
+  ExcelSheetSelection,
+  ExcelWorkbookSummary,
+  SourceFile,
+  ColumnAliases,
+  SchemaReconciliation
 } from '../types';
+import type { WorkBook } from 'xlsx';
 
 interface UseDataUploadReturn {
   // Upload state
@@ -24,9 +51,28 @@ interface UseDataUploadReturn {
   // Processed data
   processedDataset: ProcessedDataset | null;
   
+  // Chunked import of large CSV files
+  isStreaming: boolean;
+  importProgress: StreamingImportProgress | null;
+  
+  // Sheets of an uploaded Excel workbook
+  workbookSummary: ExcelWorkbookSummary | null;
+  sheetSelection: ExcelSheetSelection[];
+  
+  // Several files waiting to be combined after their columns are reviewed
+  schemaReconciliation: SchemaReconciliation | null;
+  columnAliases: ColumnAliases;
+  
   // Actions
   handleFileSelect: (file: File, fileType: FileType) => Promise<void>;
+  handleFilesSelect: (files: File[]) => Promise<void>;
+  updateColumnAliases: (aliases: ColumnAliases) => void;
+  combineSourceFiles: () => void;
   updateColumnMapping: (mapping: ColumnMapping) => void;
+  updateSheetSelection: (selection: ExcelSheetSelection[]) => void;
+  updateVendorMergeMap: (mergeMap: VendorMergeMap) => void;
+  updateExchangeRates: (table: ExchangeRateTable | null) => void;
+  cancelImport: () => void;
   resetUpload: () => void;
   
   // State flags
@@ -36,6 +82,27 @@ interface UseDataUploadReturn {
   canProceedToAnalysis: boolean;
 }
 
+// Mapping from auto-detected columns, once an amount column is found
+function toColumnMapping(detectedMapping: Partial<ColumnMapping>): ColumnMapping | null {
+  if (!detectedMapping.amount) return null;
+  return {
+    amount: detectedMapping.amount,
+    vendor: detectedMapping.vendor,
+    date: detectedMapping.date,
+    category: detectedMapping.category,
+    currency: detectedMapping.currency,
+    transactionType: detectedMapping.transactionType,
+    direction: detectedMapping.direction,
+  };
+}
+
+// Re-processing the same upload keeps the user's exchange rates and reviewed vendor merges
+function carryOverReview(processed: ProcessedDataset, previous: ProcessedDataset | null): ProcessedDataset {
+  if (!previous) return processed;
+  const carried = { ...processed, vendorMergeMap: previous.vendorMergeMap };
+  return previous.currencyConversion ? applyExchangeRates(carried, previous.currencyConversion) : carried;
+}
+
 export function useDataUpload(): UseDataUploadReturn {
   const { incrementUsage } = useUsageTracking();
   
@@ -59,8 +126,96 @@ export function useDataUpload(): UseDataUploadReturn {
   // Processed data state
   const [processedDataset, setProcessedDataset] = useState<ProcessedDataset | null>(null);
 
+  // Large CSV files are re-read from disk instead of being held in memory
+  const [streamingFile, setStreamingFile] = useState<File | null>(null);
+  const [importProgress, setImportProgress] = useState<StreamingImportProgress | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Excel workbooks stay open so sheets and header rows can be changed
+  const workbookRef = useRef<WorkBook | null>(null);
+  const [workbookSummary, setWorkbookSummary] = useState<ExcelWorkbookSummary | null>(null);
+  const [sheetSelection, setSheetSelection] = useState<ExcelSheetSelection[]>([]);
+
+  // Several files are parsed first, then combined once their columns line up
+  const [sourceFiles, setSourceFiles] = useState<SourceFile[] | null>(null);
+  const [columnAliases, setColumnAliases] = useState<ColumnAliases>({});
+  const schemaReconciliation = useMemo(
+    () => (sourceFiles ? reconcileSchemas(sourceFiles, columnAliases) : null),
+    [sourceFiles, columnAliases]
+  );
+
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Stream a CSV file through cleaning; returns null when the import was cancelled
+  // or superseded by a newer one. A re-import passes the dataset it replaces.
+  const runStreamingImport = useCallback(async (file: File, mapping: ColumnMapping, previous: ProcessedDataset | null = null) => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setImportProgress(null);
+    setProcessedDataset(null);
+    setUploadState(prev => ({ ...prev, isUploading: true, uploadProgress: 0, error: null }));
+
+    try {
+      const processed = await streamCsvFile(file, mapping, {
+        signal: controller.signal,
+        onProgress: (progress) => {
+          setImportProgress(progress);
+          setUploadState(prev => ({ ...prev, uploadProgress: progress.percent }));
+        },
+      });
+      const result = carryOverReview(processed, previous);
+      setProcessedDataset(result);
+      setUploadState(prev => ({ ...prev, isUploading: false, uploadProgress: 100 }));
+      return result;
+    } catch (error) {
+      if (error instanceof DOMException && error.name === 'AbortError') {
+        // Only a user cancel ends the upload; a superseded import leaves the new one running
+        if (abortControllerRef.current === controller) {
+          setUploadState(prev => ({ ...prev, isUploading: false, uploadProgress: 0 }));
+        }
+        return null;
+      }
+      throw error;
+    } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setImportProgress(null);
+      }
+    }
+  }, []);
+
+  // Detect the mapping of parsed rows and process them once an amount column is found.
+  // Bank statements have fixed columns and pass their mapping in.
+  const loadRows = useCallback((data: RawDataRow[], columns: string[], mapping?: ColumnMapping) => {
+    const detectedMapping = mapping ?? autoDetectColumns(columns);
+    
+    setRawData(data);
+    setAvailableColumns(columns);
+    setSuggestedMapping(detectedMapping);
+    
+    // Always set current mapping immediately if amount is detected
+    const completeMapping = toColumnMapping(detectedMapping);
+    if (completeMapping) {
+      setCurrentMapping(completeMapping);
+      
+      // Process data immediately
+      try {
+        const processed = processData(data, completeMapping);
+        setProcessedDataset(processed);
+      } catch (error) {
+        console.error('Auto-processing error:', error);
+      }
+    }
+  }, []);
+
   // Handle file selection and parsing
   const handleFileSelect = useCallback(async (file: File, fileType: FileType) => {
+    // A CSV import still streaming would otherwise overwrite the new file's data;
+    // dropping the controller marks it superseded rather than cancelled
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setImportProgress(null);
     setUploadState({
       file,
       fileType,
@@ -68,42 +223,59 @@ export function useDataUpload(): UseDataUploadReturn {
       uploadProgress: 0,
       error: null,
     });
+    setSourceFiles(null);
+    workbookRef.current = null;
+    setWorkbookSummary(null);
+    setSheetSelection([]);
 
     try {
+      if (fileType === 'csv' && file.size > STREAMING_THRESHOLD_BYTES) {
+        // Map columns from the first rows, then stream the whole file
+        const { data: sampleRows, columns } = await previewCsvFile(file);
+        const detectedMapping = autoDetectColumns(columns);
+
+        setStreamingFile(file);
+        setRawData(sampleRows);
+        setAvailableColumns(columns);
+        setSuggestedMapping(detectedMapping);
+
+        const completeMapping = toColumnMapping(detectedMapping);
+        if (completeMapping) {
+          setCurrentMapping(completeMapping);
+          if (!await runStreamingImport(file, completeMapping)) return;
+        } else {
+          setUploadState(prev => ({ ...prev, isUploading: false, uploadProgress: 100 }));
+        }
+
+        incrementUsage('filesUploaded');
+        return;
+      }
+
+      setStreamingFile(null);
+
       // Simulate upload progress
       setUploadState(prev => ({ ...prev, uploadProgress: 25 }));
       
-      // Parse the file
-      const { data, columns } = await parseFile(file);
+      // Parse the file; Excel workbooks open on their largest visible sheet
+      let parsed: { data: RawDataRow[]; columns: string[] };
+      if (fileType === 'xlsx') {
+        const workbook = await readWorkbook(file);
+        const summary = summarizeWorkbook(workbook);
+        const selection = getDefaultSheetSelection(summary);
+        if (selection.length === 0) {
+          throw new Error('Excel file has no visible sheets');
+        }
+        workbookRef.current = workbook;
+        setWorkbookSummary(summary);
+        setSheetSelection(selection);
+        parsed = readSheets(workbook, selection);
+      } else {
+        parsed = await parseFile(file);
+      }
       
       setUploadState(prev => ({ ...prev, uploadProgress: 75 }));
       
-      // Auto-detect column mappings
-      const detectedMapping = autoDetectColumns(columns);
-      
-      // Update state
-      setRawData(data);
-      setAvailableColumns(columns);
-      setSuggestedMapping(detectedMapping);
-      
-      // Always set current mapping immediately if amount is detected
-      if (detectedMapping.amount) {
-        const completeMapping: ColumnMapping = {
-          amount: detectedMapping.amount,
-          vendor: detectedMapping.vendor,
-          date: detectedMapping.date,
-          category: detectedMapping.category,
-        };
-        setCurrentMapping(completeMapping);
-        
-        // Process data immediately
-        try {
-          const processed = processData(data, completeMapping);
-          setProcessedDataset(processed);
-        } catch (error) {
-          console.error('Auto-processing error:', error);
-        }
-      }
+      loadRows(parsed.data, parsed.columns, isBankStatement(fileType) ? STATEMENT_COLUMN_MAPPING : undefined);
       
       setUploadState(prev => ({
         ...prev,
@@ -131,26 +303,180 @@ export function useDataUpload(): UseDataUploadReturn {
       setSuggestedMapping({});
       setCurrentMapping(null);
       setProcessedDataset(null);
+      setStreamingFile(null);
+      workbookRef.current = null;
+      setWorkbookSummary(null);
+      setSheetSelection([]);
+    }
+  }, [incrementUsage, runStreamingImport, loadRows]);
+
+  // Parse several files; they are combined straight away when their columns
+  // match, otherwise once the mismatches have been reviewed
+  const handleFilesSelect = useCallback(async (files: File[]) => {
+    // Mark a running CSV import superseded, so it leaves the new upload's state alone
+    abortControllerRef.current?.abort();
+    abortControllerRef.current = null;
+    setImportProgress(null);
+    setUploadState({
+      file: files[0] ?? null,
+      files,
+      fileType: files[0] ? getFileType(files[0].name) : null,
+      isUploading: true,
+      uploadProgress: 0,
+      error: null,
+    });
+    setRawData(null);
+    setAvailableColumns([]);
+    setSuggestedMapping({});
+    setCurrentMapping(null);
+    setProcessedDataset(null);
+    setStreamingFile(null);
+    workbookRef.current = null;
+    setWorkbookSummary(null);
+    setSheetSelection([]);
+    setSourceFiles(null);
+    setColumnAliases({});
+
+    try {
+      const parsed: SourceFile[] = [];
+      for (const [index, file] of files.entries()) {
+        try {
+          const { data, columns } = await parseFile(file);
+          // Same-named files from different folders are told apart by position
+          const duplicates = parsed.filter(entry => entry.name === file.name || entry.name.startsWith(`${file.name} (`)).length;
+          parsed.push({ name: duplicates > 0 ? `${file.name} (${duplicates + 1})` : file.name, data, columns });
+        } catch (error) {
+          throw new Error(`${file.name}: ${error instanceof Error ? error.message : 'Failed to process file'}`);
+        }
+        setUploadState(prev => ({ ...prev, uploadProgress: ((index + 1) / files.length) * 90 }));
+      }
+
+      if (reconcileSchemas(parsed).hasMismatches) {
+        setSourceFiles(parsed);
+      } else {
+        const { data, columns } = combineFiles(parsed);
+        const allStatements = files.every(file => isBankStatement(getFileType(file.name)));
+        loadRows(data, columns, allStatements ? STATEMENT_COLUMN_MAPPING : undefined);
+      }
+
+      setUploadState(prev => ({ ...prev, isUploading: false, uploadProgress: 100 }));
+      files.forEach(() => incrementUsage('filesUploaded'));
+    } catch (error) {
+      setUploadState(prev => ({
+        ...prev,
+        isUploading: false,
+        uploadProgress: 0,
+        error: error instanceof Error ? error.message : 'Failed to process files',
+      }));
+    }
+  }, [incrementUsage, loadRows]);
+
+  const updateColumnAliases = useCallback((aliases: ColumnAliases) => {
+    setColumnAliases(aliases);
+  }, []);
+
+  // Merge the reviewed files; columns a file lacks stay blank for its rows
+  const combineSourceFiles = useCallback(() => {
+    if (!sourceFiles) return;
+    const { data, columns } = combineFiles(sourceFiles, columnAliases);
+    setSourceFiles(null);
+    loadRows(data, columns);
+  }, [sourceFiles, columnAliases, loadRows]);
+
+  // Re-read the workbook after choosing sheets or header rows; the column
+  // mapping is kept while all its columns still exist
+  const updateSheetSelection = useCallback((selection: ExcelSheetSelection[]) => {
+    const workbook = workbookRef.current;
+    if (!workbook || selection.length === 0) return;
+
+    setSheetSelection(selection);
+    setWorkbookSummary(prev => prev && {
+      ...prev,
+      sheets: prev.sheets.map(sheet => {
+        const chosen = selection.find(entry => entry.name === sheet.name);
+        return chosen && chosen.headerRow !== sheet.headerRow
+          ? getSheetInfo(workbook, sheet.name, chosen.headerRow)
+          : sheet;
+      }),
+    });
+
+    const { data, columns } = readSheets(workbook, selection);
+    const mappedColumns = currentMapping
+      ? [
+          currentMapping.amount,
+          currentMapping.vendor,
+          currentMapping.date,
+          currentMapping.category,
+          currentMapping.currency,
+          currentMapping.transactionType,
+          currentMapping.direction,
+        ]
+      : [];
+    const keepMapping = currentMapping !== null && mappedColumns.every(column => !column || columns.includes(column));
+    const detectedMapping = keepMapping ? currentMapping : autoDetectColumns(columns);
+    const mapping = keepMapping ? currentMapping : toColumnMapping(detectedMapping);
+
+    setRawData(data);
+    setAvailableColumns(columns);
+    setSuggestedMapping(detectedMapping);
+    setCurrentMapping(mapping);
+
+    try {
+      const processed = mapping && data.length > 0 ? processData(data, mapping) : null;
+      setProcessedDataset(prev => processed && carryOverReview(processed, prev));
+    } catch (error) {
+      console.error('Data processing error:', error);
+      setProcessedDataset(null);
     }
-  }, [incrementUsage]);
+  }, [currentMapping]);
 
   // Update column mapping and process data
   const updateColumnMapping = useCallback((mapping: ColumnMapping) => {
     setCurrentMapping(mapping);
     
+    if (streamingFile) {
+      runStreamingImport(streamingFile, mapping, processedDataset)
+        .catch(error => {
+          console.error('Data processing error:', error);
+          setProcessedDataset(null);
+          setUploadState(prev => ({
+            ...prev,
+            isUploading: false,
+            error: error instanceof Error ? error.message : 'Failed to process file',
+          }));
+        });
+      return;
+    }
+    
     if (rawData && rawData.length > 0) {
       try {
         const processed = processData(rawData, mapping);
-        setProcessedDataset(processed);
+        setProcessedDataset(prev => carryOverReview(processed, prev));
       } catch (error) {
         console.error('Data processing error:', error);
         setProcessedDataset(null);
       }
     }
-  }, [rawData]);
+  }, [rawData, streamingFile, processedDataset, runStreamingImport]);
+
+  // Stop a running chunked import; rows cleaned so far are discarded
+  const cancelImport = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
 
   // Reset all state
+  // Reviewed vendor merges travel with the dataset into the analysis
+  const updateVendorMergeMap = useCallback((vendorMergeMap: VendorMergeMap) => {
+    setProcessedDataset(prev => (prev ? { ...prev, vendorMergeMap } : prev));
+  }, []);
+
+  // Convert to the reporting currency, or back to original amounts when cleared
+  const updateExchangeRates = useCallback((table: ExchangeRateTable | null) => {
+    setProcessedDataset(prev => (prev ? applyExchangeRates(prev, table) : prev));
+  }, []);
+
   const resetUpload = useCallback(() => {
+    abortControllerRef.current?.abort();
     setUploadState({
       file: null,
       fileType: null,
@@ -163,6 +489,13 @@ export function useDataUpload(): UseDataUploadReturn {
     setSuggestedMapping({});
     setCurrentMapping(null);
     setProcessedDataset(null);
+    setStreamingFile(null);
+    setImportProgress(null);
+    workbookRef.current = null;
+    setWorkbookSummary(null);
+    setSheetSelection([]);
+    setSourceFiles(null);
+    setColumnAliases({});
   }, []);
 
   // Computed state flags
@@ -181,10 +514,23 @@ export function useDataUpload(): UseDataUploadReturn {
     suggestedMapping,
     currentMapping,
     processedDataset,
+    isStreaming: streamingFile !== null,
+    importProgress,
+    workbookSummary,
+    sheetSelection,
+    schemaReconciliation,
+    columnAliases,
     
     // Actions
     handleFileSelect,
+    handleFilesSelect,
+    updateColumnAliases,
+    combineSourceFiles,
     updateColumnMapping,
+    updateSheetSelection,
+    updateVendorMergeMap,
+    updateExchangeRates,
+    cancelImport,
     resetUpload,
     
     // Flags
@@ -22,11 +22,15 @@ import {
   BarChart3,
   Database,
   Activity,
-  FileText
+  FileText,
+  SlidersHorizontal
 } from 'lucide-react';
 import { useAuth } from '../hooks/useAuth';
 import { useUsageTracking } from '../hooks/useUsageTracking';
 import { useTheme } from '../hooks/useTheme';
+import { useAnalysisSettings } from '../hooks/useAnalysisSettings';
+import { CustomRulesEditor } from '../components/CustomRulesEditor';
+import { DEFAULT_ANALYSIS_PROFILE } from '../utils/analysisProfile';
 import { cn } from '../utils/cn';
 import { testAPIKey } from '../utils/aiModelManager';
 
@@ -74,10 +78,48 @@ const preferencesSchema = z.object({
   language: z.string(),
 });
 
+const analysisSettingsSchema = z.object({
+  approvalLimits: z.string().refine(
+    (value) => value.split(',').every(part => part.trim() === '' || Number(part.trim().replace(/\$/g, '')) > 0),
+    'Enter positive amounts separated by commas'
+  ),
+  profile: z.object({
+    name: z.string().min(1, 'Profile name is required'),
+    minGroupTransactions: z.number({ invalid_type_error: 'Enter a number' }).int('Enter a whole number').min(1, 'Must be at least 1'),
+    highDigitPercent: z.number({ invalid_type_error: 'Enter a number' }).min(0).max(100, 'Must be 100 or less'),
+    roundNumberPercent: z.number({ invalid_type_error: 'Enter a number' }).min(0).max(100, 'Must be 100 or less'),
+    dominantDigitPercent: z.number({ invalid_type_error: 'Enter a number' }).min(0).max(100, 'Must be 100 or less'),
+    outlierAverageMultiple: z.number({ invalid_type_error: 'Enter a number' }).min(1, 'Must be at least 1'),
+    outlierMedianMultiple: z.number({ invalid_type_error: 'Enter a number' }).min(1, 'Must be at least 1'),
+    highAmountThreshold: z.number({ invalid_type_error: 'Enter a number' }).min(0, 'Must not be negative'),
+    maxFlaggedTransactions: z.number({ invalid_type_error: 'Enter a number' }).int('Enter a whole number').min(1, 'Must be at least 1'),
+    outlierModifiedZ: z.number({ invalid_type_error: 'Enter a number' }).min(0, 'Must not be negative'),
+    outlierIqrMultiple: z.number({ invalid_type_error: 'Enter a number' }).min(0, 'Must not be negative'),
+    outlierLogZ: z.number({ invalid_type_error: 'Enter a number' }).min(0, 'Must not be negative'),
+    refundRatioPercent: z.number({ invalid_type_error: 'Enter a number' }).min(0, 'Must not be negative'),
+  }),
+});
+
 type ProfileFormData = z.infer<typeof profileSchema>;
 type PasswordFormData = z.infer<typeof passwordSchema>;
 type AIConfigFormData = z.infer<typeof aiConfigSchema>;
 type PreferencesFormData = z.infer<typeof preferencesSchema>;
+type AnalysisSettingsFormData = z.infer<typeof analysisSettingsSchema>;
+
+const PROFILE_FIELDS: { key: Exclude<keyof AnalysisSettingsFormData['profile'], 'name'>; label: string; description: string }[] = [
+  { key: 'minGroupTransactions', label: 'Minimum Transactions per Vendor', description: 'Vendors and categories with fewer transactions are not analyzed' },
+  { key: 'highDigitPercent', label: 'High Digits (7-9) %', description: 'A vendor is suspicious when first digits 7-9 exceed this share' },
+  { key: 'roundNumberPercent', label: 'Round Numbers %', description: 'A vendor is suspicious when round amounts exceed this share' },
+  { key: 'dominantDigitPercent', label: 'Dominant Digit %', description: 'A vendor is suspicious when one first digit exceeds this share' },
+  { key: 'outlierAverageMultiple', label: 'Outlier: × Average', description: 'Amounts above this multiple of the average are flagged' },
+  { key: 'outlierMedianMultiple', label: 'Outlier: × Median', description: 'Amounts above this multiple of the median are flagged' },
+  { key: 'highAmountThreshold', label: 'High Amount Threshold', description: 'Amounts starting with 7-9 above this are flagged' },
+  { key: 'maxFlaggedTransactions', label: 'Flagged Transactions Cap', description: 'Only the highest-risk flagged transactions are kept' },
+  { key: 'outlierModifiedZ', label: 'Vendor Outlier: Modified Z', description: 'Amounts whose median/MAD z-score within their vendor or category exceeds this are outliers' },
+  { key: 'outlierIqrMultiple', label: 'Vendor Outlier: × IQR', description: 'Amounts this many IQRs above their group\'s third quartile, on a log scale, are outliers' },
+  { key: 'outlierLogZ', label: 'Vendor Outlier: Log Z', description: 'Amounts whose log-scale z-score within their group exceeds this are outliers' },
+  { key: 'refundRatioPercent', label: 'Refund Ratio %', description: 'A vendor is suspicious when its refunds exceed this share of its payments' },
+];
 
 interface AIProvider {
   id: string;
@@ -149,6 +191,13 @@ export function SettingsPage() {
   const { user, updateProfile, updatePassword, updateAIConfig, checkPasswordStatus, logout } = useAuth();
   const { usageData, loading: usageLoading, error: usageError, fetchUsageStats } = useUsageTracking();
   const { theme, density, language, updatePreferences: updateThemePreferences } = useTheme();
+  const {
+    userId: analysisSettingsUserId,
+    approvalLimits,
+    profile: analysisProfile,
+    loadSettings: loadAnalysisSettings,
+    saveSettings: saveAnalysisSettings,
+  } = useAnalysisSettings();
   const [activeTab, setActiveTab] = useState('profile');
   const [passwordStatus, setPasswordStatus] = useState<{ hasPassword: boolean; isOAuthUser: boolean; authMethod: string } | null>(null);
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
@@ -226,6 +275,14 @@ export function SettingsPage() {
     },
   });
 
+  const analysisSettingsForm = useForm<AnalysisSettingsFormData>({
+    resolver: zodResolver(analysisSettingsSchema),
+    defaultValues: {
+      approvalLimits: approvalLimits.join(', '),
+      profile: analysisProfile,
+    },
+  });
+
   const selectedProvider = AI_PROVIDERS.find(p => p.id === aiConfigForm.watch('preferredProvider'));
 
   // Update form when user's AI config changes
@@ -261,6 +318,15 @@ export function SettingsPage() {
     }
   }, [errorMessage]);
 
+  // Analysis settings are stored per user
+  useEffect(() => {
+    if (user?._id && analysisSettingsUserId !== user._id) loadAnalysisSettings(user._id);
+  }, [user?._id, analysisSettingsUserId, loadAnalysisSettings]);
+
+  useEffect(() => {
+    analysisSettingsForm.reset({ approvalLimits: approvalLimits.join(', '), profile: analysisProfile });
+  }, [approvalLimits, analysisProfile, analysisSettingsForm]);
+
   // Update form values when theme context changes
   useEffect(() => {
     preferencesForm.reset({
@@ -415,6 +481,20 @@ export function SettingsPage() {
     }
   };
 
+  const onAnalysisSettingsSubmit = async (data: AnalysisSettingsFormData) => {
+    const limits = data.approvalLimits
+      .split(',')
+      .map(part => part.trim().replace(/\$/g, ''))
+      .filter(part => part !== '')
+      .map(Number);
+    try {
+      await saveAnalysisSettings({ approvalLimits: limits, profile: data.profile });
+      showSuccess('Analysis settings saved. They apply to the next analysis run.');
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to save analysis settings');
+    }
+  };
+
   // Export handlers
   const handleExportProfile = async () => {
     try {
@@ -587,6 +667,7 @@ export function SettingsPage() {
     { id: 'ai-config', label: 'AI Configuration', icon: Brain },
     { id: 'usage', label: 'Usage Stats', icon: BarChart3 },
     { id: 'preferences', label: 'Preferences', icon: Settings },
+    { id: 'analysis', label: 'Analysis', icon: SlidersHorizontal },
     { id: 'export', label: 'Export & Data', icon: Database },
     ...(user?.role === 'admin' ? [
       { id: 'users', label: 'User Management', icon: Users },
@@ -1365,6 +1446,103 @@ export function SettingsPage() {
               </div>
             )}
 
+            {/* Analysis Settings Tab */}
+            {activeTab === 'analysis' && (
+              <div className="space-y-6">
+                <div>
+                  <h3 className="text-lg font-medium text-gray-900 mb-4">Analysis Settings</h3>
+                  <p className="text-gray-600 mb-6">
+                    Organization-specific settings used when analyzing your transactions.
+                  </p>
+
+                  <form onSubmit={analysisSettingsForm.handleSubmit(onAnalysisSettingsSubmit)} className="space-y-6">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Approval Limits
+                      </label>
+                      <input
+                        {...analysisSettingsForm.register('approvalLimits')}
+                        type="text"
+                        className="block w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        placeholder="5000, 10000"
+                      />
+                      <p className="mt-1 text-sm text-gray-500">
+                        Amounts clustered just below these limits, and purchases split to stay under them, are flagged.
+                      </p>
+                      {analysisSettingsForm.formState.errors.approvalLimits && (
+                        <p className="mt-1 text-sm text-red-600">{analysisSettingsForm.formState.errors.approvalLimits.message}</p>
+                      )}
+                    </div>
+
+                    <div className="border-t border-gray-200 pt-6">
+                      <h4 className="text-md font-medium text-gray-900 mb-1">Analysis Profile</h4>
+                      <p className="text-sm text-gray-500 mb-4">
+                        Thresholds behind vendor patterns and transaction flags. The profile is recorded with every result and report.
+                      </p>
+
+                      <div className="mb-4">
+                        <label className="block text-sm font-medium text-gray-700 mb-2">
+                          Profile Name
+                        </label>
+                        <input
+                          {...analysisSettingsForm.register('profile.name')}
+                          type="text"
+                          className="block w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          placeholder="Standard"
+                        />
+                        {analysisSettingsForm.formState.errors.profile?.name && (
+                          <p className="mt-1 text-sm text-red-600">{analysisSettingsForm.formState.errors.profile.name.message}</p>
+                        )}
+                      </div>
+
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        {PROFILE_FIELDS.map(field => (
+                          <div key={field.key}>
+                            <label className="block text-sm font-medium text-gray-700 mb-2">
+                              {field.label}
+                            </label>
+                            <input
+                              {...analysisSettingsForm.register(`profile.${field.key}`, { valueAsNumber: true })}
+                              type="number"
+                              step="any"
+                              className="block w-full px-3 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                            />
+                            <p className="mt-1 text-xs text-gray-500">
+                              {field.description} (default {DEFAULT_ANALYSIS_PROFILE[field.key]})
+                            </p>
+                            {analysisSettingsForm.formState.errors.profile?.[field.key] && (
+                              <p className="mt-1 text-sm text-red-600">{analysisSettingsForm.formState.errors.profile[field.key]?.message}</p>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="flex items-center space-x-3">
+                      <button
+                        type="submit"
+                        className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                      >
+                        <Save className="w-4 h-4" />
+                        <span>Save Analysis Settings</span>
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => analysisSettingsForm.setValue('profile', DEFAULT_ANALYSIS_PROFILE, { shouldDirty: true })}
+                        className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+                      >
+                        Restore Default Profile
+                      </button>
+                    </div>
+                  </form>
+                </div>
+
+                <div className="border-t border-gray-200 pt-6">
+                  <CustomRulesEditor userId={user._id} onSuccess={showSuccess} onError={showError} />
+                </div>
+              </div>
+            )}
+
             {/* Export & Data Tab */}
             {activeTab === 'export' && (
               <div className="space-y-6">
@@ -5,10 +5,15 @@ export interface RawDataRow {
 }
 
 export interface CleanedDataRow {
-  amount: number;
+  amount: number; // in the reporting currency once exchange rates are applied
   vendor?: string;
   date?: Date;
+  dateAmbiguous?: boolean; // day and month could be swapped, e.g. 03/04/2024, and the column does not settle which
   category?: string;
+  transactionType?: string; // e.g. DEBIT, CHECK or PMNT/ICDT/ESCT on a bank statement
+  direction?: TransactionDirection; // money out or in, when the data says so, e.g. a bank statement
+  currency?: string; // ISO 4217 code, from the currency column or the amount's symbol
+  originalAmount?: number; // amount in `currency`, kept when converted
   originalRow?: RawDataRow;
 }
 
@@ -17,13 +22,53 @@ export interface ColumnMapping {
   vendor?: string;
   date?: string;
   category?: string;
+  currency?: string;
+  transactionType?: string;
+  direction?: string; // debit/credit indicator column; mapped for bank statements
+  numberFormat?: NumberFormat; // chosen by the user; detected from the amounts when absent
+  dateOrder?: DateOrder; // chosen by the user; detected from the dates when absent
+}
+
+// Whether a transaction paid money out or received it
+export type TransactionDirection = 'debit' | 'credit';
+
+// Order of day, month and year in numeric text dates such as 03/04/2024.
+// Dates starting with a four-digit year are always read year-month-day.
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface DateFormatDetection {
+  order: DateOrder;
+  source: 'detected' | 'user';
+  sampleSize: number; // date values examined
+  decisiveCount: number; // sampled dates that read only one way, e.g. 25/03/2024
+  ambiguousCount: number; // sampled dates valid as both DD/MM and MM/DD, e.g. 03/04/2024
+  serialCount: number; // sampled Excel serial day numbers
+}
+
+// Separators of numbers written as text. Spaces (including non-breaking and
+// thin spaces) and apostrophes only ever group digits.
+export type DecimalSeparator = '.' | ',';
+export type GroupSeparator = ',' | '.' | ' ' | "'" | '';
+
+export interface NumberFormat {
+  decimalSeparator: DecimalSeparator;
+  groupSeparator: GroupSeparator;
+}
+
+export interface NumberFormatDetection {
+  format: NumberFormat;
+  source: 'detected' | 'user';
+  sampleSize: number; // text amounts examined
+  decisiveCount: number; // sampled amounts whose decimal separator is unambiguous
+  ambiguousCount: number; // sampled amounts that read differently under either separator, e.g. "1.234"
 }
 
 export interface ValidationResult {
   isValid: boolean;
   totalRows: number;
   validRows: number;
-  removedRows: number;
+  removedRows: number; // rows with no usable amount (blank, non-numeric or zero)
+  creditRows: number; // rows with a negative amount, kept apart in `credits`
   errors: string[];
   warnings: string[];
 }
@@ -35,22 +80,105 @@ export interface DataPreview {
 }
 
 export interface ProcessedDataset {
-  data: CleanedDataRow[];
+  data: CleanedDataRow[]; // payments: rows with a positive amount
+  credits?: CleanedDataRow[]; // credit notes, refunds and reversals, with their negative amounts
   validation: ValidationResult;
   columnMapping: ColumnMapping;
   preview: DataPreview;
+  vendorMergeMap?: VendorMergeMap; // reviewed vendor merges; default merges apply when absent
+  numberFormat?: NumberFormatDetection; // how text amounts were read
+  dateFormat?: DateFormatDetection; // how dates were read, when a date column is mapped
+  unconverted?: CleanedDataRow[]; // rows in a currency the exchange-rate table has no rate for
+  currencyConversion?: CurrencyConversion; // set while an exchange-rate table is applied
 }
 
-export type FileType = 'csv' | 'xlsx' | 'json';
+// One row of a user-supplied exchange-rate table: on `date`, 1 unit of
+// `currency` is worth `rate` units of the reporting currency
+export interface ExchangeRate {
+  date: string; // YYYY-MM-DD
+  currency: string; // ISO 4217 code
+  rate: number;
+}
+
+export interface ExchangeRateTable {
+  reportingCurrency: string;
+  rates: ExchangeRate[];
+}
+
+export interface CurrencyConversion extends ExchangeRateTable {
+  convertedRows: number; // rows converted from another currency
+  unconvertedRows: number; // rows left out for lack of a rate
+  missingCurrencies: string[]; // currencies with no rate in the table
+}
+
+// 'ofx' covers OFX and QFX; 'camt' is an ISO 20022 CAMT.053 XML bank statement
+export type FileType = 'csv' | 'xlsx' | 'json' | 'ofx' | 'qif' | 'camt';
 
 export interface FileUploadState {
   file: File | null;
+  files?: File[]; // set when several files are combined; `file` is the first
   fileType: FileType | null;
   isUploading: boolean;
   uploadProgress: number;
   error: string | null;
 }
 
+// A parsed file waiting to be combined with others into one dataset
+export interface SourceFile {
+  name: string;
+  data: RawDataRow[];
+  columns: string[];
+}
+
+// Per file name: its column -> the combined column it should fill, for
+// columns named differently across files
+export type ColumnAliases = Record<string, Record<string, string>>;
+
+export interface SourceFileSchema {
+  name: string;
+  rowCount: number;
+  columns: string[]; // combined column names this file fills
+  missingColumns: string[]; // combined columns left blank for this file's rows
+  extraColumns: string[]; // columns no other file has
+}
+
+export interface SchemaReconciliation {
+  columns: string[]; // combined columns in first-seen order; names differing only in case or spacing are one column
+  files: SourceFileSchema[];
+  hasMismatches: boolean;
+}
+
+// A visible worksheet of an uploaded Excel workbook
+export interface ExcelSheetInfo {
+  name: string;
+  headerRow: number; // 0-based row of the column names, detected unless overridden
+  columns: string[];
+  rowCount: number; // data rows below the header, without blank rows and trailing totals
+  totalRowsSkipped: number; // trailing "Total" rows left out
+}
+
+export interface ExcelWorkbookSummary {
+  sheets: ExcelSheetInfo[];
+  hiddenSheets: string[]; // never imported
+}
+
+// A sheet chosen for import; several chosen sheets are stacked into one dataset
+export interface ExcelSheetSelection {
+  name: string;
+  headerRow: number;
+}
+
+// Progress of a chunked CSV import
+export interface StreamingImportProgress {
+  bytesProcessed: number;
+  totalBytes: number;
+  percent: number;
+  rowsProcessed: number;
+  validRows: number;
+  rowsPerSecond: number;
+  firstDigitCounts: number[]; // index 1-9, running count of leading digits
+}
+
 // Benford's Law Analysis Types
 export interface DigitFrequency {
   digit: number;
@@ -58,27 +186,197 @@ export interface DigitFrequency {
   observed: number; // percentage
   expected: number; // percentage
   deviation: number; // absolute difference
+  zStatistic: number; // with continuity correction
+  significance: DigitSignificance;
+}
+
+export type DigitSignificance = 'none' | 'significant_95' | 'significant_99';
+
+// Goodness-of-fit statistics shared by every digit test
+export interface GoodnessOfFit {
+  chiSquare: number;
+  degreesOfFreedom: number;
+  chiSquarePValue: number;
+  ksStatistic: number; // Kolmogorov-Smirnov
+  ksCriticalValue: number; // at 95% confidence
+}
+
+export type DigitTestType = 'first_digit' | 'second_digit' | 'first_two_digits' | 'last_two_digits';
+
+// Tests against Benford's distribution, the ones with published MAD conformity ranges
+export type BenfordDigitTestType = Exclude<DigitTestType, 'last_two_digits'>;
+
+export type ConformityLevel = 'close' | 'acceptable' | 'marginal' | 'nonconformity';
+
+// MAD cut-offs (as proportions) for one digit test
+export interface ConformityThresholds {
+  close: number;
+  acceptable: number;
+  marginal: number;
+  severe: number; // escalates nonconformity to critical risk
+  source: string;
+}
+
+export interface ConformityAssessment {
+  level: ConformityLevel;
+  thresholds: ConformityThresholds;
+}
+
+// A single digit test (first digit, second digit, ...) with its own verdict
+export interface DigitTestResult extends GoodnessOfFit {
+  testType: DigitTestType;
+  totalAnalyzed: number;
+  digitFrequencies: DigitFrequency[];
+  mad: number; // as a proportion
+  conformity: ConformityAssessment;
+  overallAssessment: BenfordResult['overallAssessment'];
+  riskLevel: BenfordResult['riskLevel'];
+}
+
+// Last-two digits test against a uniform distribution (00-99). Nigrini's MAD
+// ranges are derived for Benford's distribution, so the verdict rests on the
+// chi-square p-value alone.
+export interface LastTwoDigitsTestResult extends Omit<DigitTestResult, 'mad' | 'conformity'> {
+  overrepresentedEndings: DigitFrequency[];
+}
+
+// A transaction contributing to a summation test bin
+export interface SummationContributor {
+  index: number;
+  amount: number;
+  vendor?: string;
+  shareOfBin: number; // percentage of the bin's total
+}
+
+export interface SummationBin {
+  digits: number; // first two digits (10-99)
+  count: number;
+  sum: number;
+  observed: number; // percentage of total amount
+  expected: number; // percentage (equal share)
+  deviation: number; // absolute difference
+  isSpike: boolean;
+  topContributors: SummationContributor[];
+}
+
+// Summation test: amount totals per first-two digits bin
+export interface SummationTestResult {
+  totalAnalyzed: number;
+  totalAmount: number;
+  bins: SummationBin[];
+  spikes: SummationBin[];
+  mad: number; // as a proportion
+}
+
+// An exact amount that occurs more than once in the dataset
+export interface DuplicatedAmount {
+  amount: number;
+  count: number;
+  share: number; // percentage of transactions
+  vendors: string[];
+  categories: string[];
+  rowIndices: number[];
+}
+
+// Number duplication test: most frequent exact amounts
+export interface NumberDuplicationResult {
+  totalAnalyzed: number;
+  distinctAmounts: number;
+  duplicatedAmountCount: number;
+  duplicatedTransactionCount: number;
+  topAmounts: DuplicatedAmount[];
+}
+
+// Duplicate payment kinds: same vendor/amount/date, same vendor/amount within a
+// window of days, and same amount/date paid to different vendors
+export type DuplicatePaymentType = 'exact' | 'near_same_vendor' | 'same_amount_different_vendor';
+
+export interface DuplicatePaymentGroup {
+  type: DuplicatePaymentType;
+  amount: number;
+  vendors: string[];
+  categories: string[];
+  firstDate: string; // YYYY-MM-DD
+  lastDate: string; // YYYY-MM-DD
+  rowIndices: number[];
+  potentialRecovery: number; // amount paid beyond the first payment
+}
+
+export interface DuplicatePaymentResult {
+  windowDays: number;
+  groups: DuplicatePaymentGroup[];
+  exactCount: number;
+  nearSameVendorCount: number;
+  sameAmountDifferentVendorCount: number;
+  potentialRecovery: number;
 }
 
-export interface BenfordResult {
+// Time-window drift: the first-digit test repeated per period
+export type DriftGranularity = 'month' | 'quarter' | 'rolling';
+
+export interface DriftPeriod {
+  label: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  transactionCount: number;
+  mad: number;
+  chiSquare: number;
+  chiSquarePValue: number;
+  conformity: ConformityLevel;
+  hasEnoughData: boolean;
+  isBreakdown: boolean;
+}
+
+export interface DriftSeries {
+  granularity: DriftGranularity;
+  windowSize?: number; // transactions per rolling window
+  periods: DriftPeriod[];
+  firstBreakdown?: string; // label of the first period where conformity breaks down
+}
+
+export interface TemporalDriftResult {
+  monthly: DriftSeries;
+  quarterly: DriftSeries;
+  rolling: DriftSeries;
+}
+
+export interface BenfordResult extends GoodnessOfFit {
   // Overall statistics
   totalAnalyzed: number;
   digitFrequencies: DigitFrequency[];
   
   // Deviation metrics
-  chiSquare: number;
-  mad: number; // Mean Absolute Deviation
+  mad: number; // Mean Absolute Deviation, as a proportion
+  conformity: ConformityAssessment;
   
   // Interpretation
   overallAssessment: 'compliant' | 'acceptable' | 'suspicious' | 'highly_suspicious';
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   
+  // Additional digit tests
+  secondDigitTest: DigitTestResult;
+  firstTwoDigitsTest: DigitTestResult;
+  lastTwoDigitsTest: LastTwoDigitsTestResult;
+  summationTest: SummationTestResult;
+  numberDuplication: NumberDuplicationResult;
+  duplicatePayments: DuplicatePaymentResult;
+  thresholdAvoidance: ThresholdAvoidanceResult;
+  robustOutliers: RobustOutlierResult;
+  duplicateVendors: DuplicateVendorResult;
+  creditAnalysis: CreditAnalysisResult;
+  currencyAnalysis: CurrencyAnalysisResult;
+  
   // Flagged items
   suspiciousVendors: VendorAnalysis[];
+  categoryAnalysis: CategoryAnalysis[];
+  temporalDrift: TemporalDriftResult | null; // null when no dates are available
   flaggedTransactions: FlaggedTransaction[];
   
   // Warnings
   warnings: string[];
+  
+  // Parameters that produced this result
+  profile: AnalysisProfile;
 }
 
 export interface VendorAnalysis {
@@ -89,13 +387,244 @@ export interface VendorAnalysis {
   riskLevel: 'low' | 'medium' | 'high' | 'critical';
   suspiciousPatterns: string[];
   digitDistribution: Record<number, number>;
+  overrepresentedEndings: number[];
+}
+
+export interface CategoryAnalysis {
+  category: string;
+  transactionCount: number;
+  totalAmount: number;
+  mad: number;
+  chiSquare: number;
+  riskLevel: 'low' | 'medium' | 'high' | 'critical';
+  suspiciousPatterns: string[];
+  digitDistribution: Record<number, number>;
+  overrepresentedEndings: number[];
+}
+
+// Kinds of checks that can flag a transaction
+export type FlagType =
+  | 'high_amount'
+  | 'round_number'
+  | 'overrepresented_digit'
+  | 'high_digit_amount'
+  | 'duplicate_amount'
+  | 'below_approval_limit'
+  | 'split_purchase'
+  | 'vendor_outlier'
+  | 'category_outlier'
+  | 'custom_rule'
+  | 'refund_without_payment'
+  | 'high_refund_ratio';
+
+// One rule that fired on a transaction, with the values that triggered it
+export interface RuleHit {
+  ruleId: FlagType;
+  description: string;
+  weight: number;
+  evidence: Record<string, number | string>;
 }
 
 export interface FlaggedTransaction {
   index: number;
   amount: number;
   vendor?: string;
+  transactionType?: string;
   firstDigit: number;
-  reason: string;
-  riskLevel: 'medium' | 'high' | 'critical';
+  reason: string; // rule descriptions joined for display
+  ruleHits: RuleHit[];
+  score: number; // sum of rule weights, capped at 100
+  riskLevel: 'medium' | 'high' | 'critical'; // derived from score
+}
+
+// Thresholds behind the vendor/category patterns and transaction flags.
+// Recorded with every result so findings can be traced to their parameters.
+export interface AnalysisProfile {
+  name: string;
+  minGroupTransactions: number; // vendors and categories with fewer are skipped
+  highDigitPercent: number; // share of first digits 7-9 that is suspicious
+  roundNumberPercent: number; // share of round amounts that is suspicious
+  dominantDigitPercent: number; // share of a single first digit that is suspicious
+  outlierAverageMultiple: number; // amounts above this multiple of the average are outliers
+  outlierMedianMultiple: number; // amounts above this multiple of the median are outliers
+  highAmountThreshold: number; // high-digit amounts above this are flagged
+  maxFlaggedTransactions: number; // cap on flagged transactions kept in the result
+  outlierModifiedZ: number; // modified z-score (median/MAD) above which an amount is an outlier in its group
+  outlierIqrMultiple: number; // IQRs above the third quartile that mark an outlier in its group
+  outlierLogZ: number; // z-score of log(amount) above which an amount is an outlier in its group
+  refundRatioPercent: number; // refunds above this share of a vendor's payments are suspicious
+}
+
+// A user-defined detection rule, written in the rule expression language
+// (e.g. `category == "Meals" and amount > 250`)
+export type CustomRuleSeverity = 'medium' | 'high' | 'critical';
+
+export interface CustomRule {
+  id: string;
+  name: string;
+  expression: string;
+  severity: CustomRuleSeverity;
+  enabled: boolean;
+}
+
+// Approval limits and analysis profile, saved per user
+export interface AnalysisSettings {
+  approvalLimits: number[];
+  profile: AnalysisProfile;
+}
+
+// Organization-specific settings applied to an analysis run
+export interface AnalysisOptions {
+  approvalLimits?: number[];
+  profile?: AnalysisProfile;
+  customRules?: CustomRule[];
+}
+
+// Stages reported while an analysis runs
+export type AnalysisStage = 'digits' | 'vendors' | 'flags';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  percent: number; // 0-100 across all stages
+  message: string;
+}
+
+// Messages exchanged with the analysis worker
+export interface AnalysisWorkerRequest {
+  dataset: ProcessedDataset;
+  options: AnalysisOptions;
+}
+
+export type AnalysisWorkerResponse =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; result: BenfordResult }
+  | { type: 'error'; error: string };
+
+// Amounts falling in the band just below an approval limit
+export interface ApprovalLimitCluster {
+  limit: number;
+  bandFloor: number;
+  justBelowCount: number;
+  justAboveCount: number;
+  isClustered: boolean;
+  rowIndices: number[];
+}
+
+// Several payments to one vendor on the same or adjacent days that together cross a limit
+export interface SplitPurchase {
+  vendor: string;
+  limit: number;
+  total: number;
+  firstDate: string; // YYYY-MM-DD
+  lastDate: string; // YYYY-MM-DD
+  rowIndices: number[];
+}
+
+// Vendor name variants that probably refer to the same vendor. 'normalized'
+// variants differ only in case, punctuation or legal suffix.
+export type VendorMatchType = 'normalized' | 'fuzzy';
+
+export interface VendorVariant {
+  name: string;
+  transactionCount: number;
+  totalAmount: number;
+  similarity: number; // to the canonical name, 0-1
+}
+
+export interface DuplicateVendorGroup {
+  canonical: string;
+  matchType: VendorMatchType;
+  similarity: number; // lowest similarity of a variant to the canonical name, 0-1
+  variants: VendorVariant[]; // canonical first
+  merged: boolean; // whether the analysis treated the variants as one vendor
+}
+
+// Raw vendor name → canonical vendor name
+export type VendorMergeMap = Record<string, string>;
+
+export interface DuplicateVendorResult {
+  similarityThreshold: number;
+  groups: DuplicateVendorGroup[];
+  mergeMap: VendorMergeMap; // merges applied in this analysis
+}
+
+// Robust outlier detection within each vendor and category
+export type OutlierGroupType = 'vendor' | 'category';
+
+export type OutlierMethod = 'modified_z' | 'iqr' | 'log_z';
+
+// Typical amounts for one vendor or category, from statistics that large
+// outliers cannot drag along. Spread is measured on ln(amount), since
+// amounts are right-skewed and vary over orders of magnitude.
+export interface GroupBaseline {
+  groupType: OutlierGroupType;
+  group: string;
+  transactionCount: number;
+  median: number;
+  q1: number;
+  q3: number;
+  upperFence: number; // IQR fence on the log scale: q3 * (q3 / q1) ^ outlierIqrMultiple
+  logMad: number; // median absolute deviation of ln(amount)
+  logMean: number; // mean of ln(amount)
+  logStdDev: number; // standard deviation of ln(amount)
+}
+
+export interface RobustOutlier {
+  index: number;
+  amount: number;
+  baseline: GroupBaseline;
+  modifiedZ: number;
+  logZ: number;
+  methods: OutlierMethod[]; // methods that agree the amount is an outlier
+}
+
+export interface RobustOutlierResult {
+  minAgreeingMethods: number;
+  baselines: GroupBaseline[];
+  outliers: RobustOutlier[];
+}
+
+// Credits, refunds and reversals (negative amounts), analyzed apart from payments
+export interface VendorRefundRatio {
+  vendor: string;
+  paymentCount: number;
+  paymentTotal: number;
+  refundCount: number;
+  refundTotal: number; // absolute value of the vendor's credits
+  ratio: number | null; // refundTotal / paymentTotal; null when the vendor was never paid
+  isHigh: boolean;
+}
+
+export interface CreditAnalysisResult {
+  totalCredits: number;
+  totalCreditAmount: number; // absolute value
+  creditToPaymentRatio: number; // total credits / total payments
+  benfordTest: DigitTestResult | null; // first digits of the absolute amounts; null without credits
+  vendorRatios: VendorRefundRatio[]; // vendors with credits, highest ratio first
+  unmatchedRefundCount: number;
+  depositCount: number; // money received on a bank statement, left out of the refund checks
+  flaggedCredits: FlaggedTransaction[]; // `index` points into `credits`
+}
+
+// The first digit test within each original currency, where amounts are
+// comparable regardless of exchange rates
+export interface CurrencyBreakdown {
+  currency: string; // ISO 4217 code, or 'Unknown'
+  transactionCount: number;
+  originalTotal: number; // in the currency itself
+  convertedTotal: number | null; // in the reporting currency; null when not converted
+  firstDigitTest: DigitTestResult;
+}
+
+export interface CurrencyAnalysisResult {
+  reportingCurrency: string | null; // null when no exchange rates were applied
+  currencies: CurrencyBreakdown[]; // most transactions first; empty for single-currency data
+  unconvertedRows: number;
+}
+
+export interface ThresholdAvoidanceResult {
+  approvalLimits: number[];
+  bandWidth: number; // fraction below each limit treated as "just below"
+  clusters: ApprovalLimitCluster[];
+  splitPurchases: SplitPurchase[];
 }
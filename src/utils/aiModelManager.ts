@@ -525,9 +525,9 @@ function calculateConfidence(result: BenfordResult, analysis: string): number {
   let confidence = 50; // Base confidence
   
   // Factor in statistical significance
-  if (result.mad < 0.006) confidence += 20;
-  else if (result.mad < 0.012) confidence += 15;
-  else if (result.mad < 0.015) confidence += 10;
+  if (result.conformity.level === 'close') confidence += 20;
+  else if (result.conformity.level === 'acceptable') confidence += 15;
+  else if (result.conformity.level === 'marginal') confidence += 10;
   
   // Factor in analysis length and detail
   if (analysis.length > 1000) confidence += 10;
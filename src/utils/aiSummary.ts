@@ -1,7 +1,13 @@
 // AI-Powered Natural Language Summary Engine
 // Generates human-readable insights from Benford's Law analysis
 
-import type { BenfordResult, ProcessedDataset, CleanedDataRow } from '../types';
+import { formatPValue } from './statistics';
+import { getConformityLabel } from './conformity';
+import { hasRuleHit } from './flagRules';
+import type { BenfordResult, ProcessedDataset, CleanedDataRow, FlagType } from '../types';
+
+// Rules that mark an amount as unusually large
+const OUTLIER_RULES: FlagType[] = ['high_amount', 'high_digit_amount', 'vendor_outlier', 'category_outlier'];
 
 export interface AnalysisSummary {
   // Executive summary
@@ -79,6 +85,29 @@ function analyzeTemporalPatterns(data: CleanedDataRow[]): string[] {
   return insights;
 }
 
+/**
+ * Describe when the first-digit profile drifted away from Benford's Law
+ */
+function analyzeDigitDrift(result: BenfordResult): string[] {
+  const insights: string[] = [];
+  if (!result.temporalDrift) return insights;
+
+  const { monthly, quarterly } = result.temporalDrift;
+  const breakdowns = monthly.periods.filter(period => period.isBreakdown);
+
+  if (monthly.firstBreakdown) {
+    insights.push(`Digit conformity first breaks down in **${monthly.firstBreakdown}**; ${breakdowns.length} of ${monthly.periods.length} months are nonconforming (${breakdowns.map(period => period.label).join(', ')}).`);
+  } else if (monthly.periods.some(period => period.hasEnoughData)) {
+    insights.push('No month shows a significant breakdown in first-digit conformity.');
+  }
+
+  if (quarterly.firstBreakdown && quarterly.firstBreakdown !== monthly.firstBreakdown) {
+    insights.push(`At quarterly level, conformity breaks down from **${quarterly.firstBreakdown}**.`);
+  }
+
+  return insights;
+}
+
 /**
  * Generate vendor-specific insights
  */
@@ -162,16 +191,16 @@ function generateTransactionInsights(result: BenfordResult): string[] {
     insights.push(`${highRiskTxns.length} high-risk transactions show patterns consistent with expense manipulation.`);
   }
 
-  // Analyze common flagging reasons
+  // Analyze common flagging rules
   const reasons = new Map<string, number>();
   transactions.forEach(t => {
-    if (t.reason.includes('round number')) {
+    if (hasRuleHit(t, 'round_number')) {
       reasons.set('round_numbers', (reasons.get('round_numbers') || 0) + 1);
     }
-    if (t.reason.includes('high amount')) {
+    if (OUTLIER_RULES.some(ruleId => hasRuleHit(t, ruleId))) {
       reasons.set('outliers', (reasons.get('outliers') || 0) + 1);
     }
-    if (t.reason.includes('identical amounts')) {
+    if (hasRuleHit(t, 'duplicate_amount')) {
       reasons.set('duplicates', (reasons.get('duplicates') || 0) + 1);
     }
   });
@@ -222,11 +251,11 @@ function generateRecommendations(result: BenfordResult): string[] {
     recommendations.push(`Request detailed receipts and documentation from the ${result.suspiciousVendors.length} flagged vendor${result.suspiciousVendors.length > 1 ? 's' : ''}.`);
   }
 
-  if (result.flaggedTransactions.some(t => t.reason.includes('round number'))) {
+  if (result.flaggedTransactions.some(t => hasRuleHit(t, 'round_number'))) {
     recommendations.push('Implement policies requiring detailed receipts for all round-number amounts above $100.');
   }
 
-  if (result.flaggedTransactions.some(t => t.reason.includes('identical amounts'))) {
+  if (result.flaggedTransactions.some(t => hasRuleHit(t, 'duplicate_amount'))) {
     recommendations.push('Review duplicate expense policies and enhance approval workflows.');
   }
 
@@ -273,21 +302,28 @@ export function generateAISummary(result: BenfordResult, dataset: ProcessedDatas
   const overallFindings: string[] = [];
   
   // MAD Score interpretation
-  if (result.mad < 0.006) {
-    overallFindings.push(`Excellent compliance: MAD score of ${result.mad.toFixed(3)} indicates data closely follows Benford's Law.`);
-  } else if (result.mad < 0.012) {
-    overallFindings.push(`Good compliance: MAD score of ${result.mad.toFixed(3)} shows acceptable deviation from expected patterns.`);
-  } else if (result.mad < 0.022) {
-    overallFindings.push(`Concerning patterns: MAD score of ${result.mad.toFixed(3)} suggests potential data manipulation.`);
+  const { level, thresholds } = result.conformity;
+  if (level === 'close') {
+    overallFindings.push(`Excellent compliance: MAD score of ${result.mad.toFixed(4)} is below ${thresholds.close}, indicating data closely follows Benford's Law.`);
+  } else if (level === 'acceptable') {
+    overallFindings.push(`Good compliance: MAD score of ${result.mad.toFixed(4)} is below ${thresholds.acceptable}, an acceptable deviation from expected patterns.`);
+  } else if (level === 'marginal') {
+    overallFindings.push(`Concerning patterns: MAD score of ${result.mad.toFixed(4)} is only marginally acceptable (below ${thresholds.marginal}).`);
   } else {
-    overallFindings.push(`Significant deviations: MAD score of ${result.mad.toFixed(3)} strongly indicates irregular patterns requiring investigation.`);
+    overallFindings.push(`Significant deviations: MAD score of ${result.mad.toFixed(4)} exceeds the ${thresholds.marginal} nonconformity threshold and requires investigation.`);
   }
 
   // Chi-square interpretation
-  if (result.chiSquare > 15.51) {
-    overallFindings.push(`Chi-square statistic of ${result.chiSquare.toFixed(2)} exceeds critical threshold, confirming significant deviation from natural patterns.`);
+  if (result.chiSquarePValue < 0.05) {
+    overallFindings.push(`Chi-square statistic of ${result.chiSquare.toFixed(2)} (${result.degreesOfFreedom} df, p = ${formatPValue(result.chiSquarePValue)}) confirms significant deviation from natural patterns.`);
   } else {
-    overallFindings.push(`Chi-square statistic of ${result.chiSquare.toFixed(2)} within acceptable range for natural data variation.`);
+    overallFindings.push(`Chi-square statistic of ${result.chiSquare.toFixed(2)} (${result.degreesOfFreedom} df, p = ${formatPValue(result.chiSquarePValue)}) within acceptable range for natural data variation.`);
+  }
+
+  // Individually significant digits
+  const significantDigits = result.digitFrequencies.filter(freq => freq.significance !== 'none');
+  if (significantDigits.length > 0) {
+    overallFindings.push(`Digits ${significantDigits.map(freq => `${freq.digit} (Z = ${freq.zStatistic.toFixed(2)})`).join(', ')} deviate significantly at the 95% level or higher.`);
   }
 
   // Digit distribution insights
@@ -302,7 +338,10 @@ export function generateAISummary(result: BenfordResult, dataset: ProcessedDatas
   // Generate specific insights
   const vendorInsights = generateVendorInsights(result);
   const transactionInsights = generateTransactionInsights(result);
-  const timeBasedInsights = analyzeTemporalPatterns(dataset.data);
+  const timeBasedInsights = [
+    ...analyzeTemporalPatterns(dataset.data),
+    ...analyzeDigitDrift(result)
+  ];
   const recommendations = generateRecommendations(result);
 
   // Calculate confidence score
@@ -311,14 +350,14 @@ export function generateAISummary(result: BenfordResult, dataset: ProcessedDatas
   else if (result.totalAnalyzed < 100) confidence -= 10;
   
   if (result.warnings.length > 2) confidence -= 15;
-  if (result.mad > 0.022) confidence += 10; // High confidence in flagging serious issues
+  if (result.riskLevel === 'critical') confidence += 10; // High confidence in flagging serious issues
   
   confidence = Math.max(60, Math.min(95, confidence)); // Clamp between 60-95%
 
   // Format key metrics
   const keyMetrics = {
     totalTransactions: `${result.totalAnalyzed.toLocaleString()} transactions analyzed`,
-    complianceScore: `${(100 - (result.mad * 1000)).toFixed(0)}% compliance score`,
+    complianceScore: `${getConformityLabel(result.conformity.level)} (MAD ${result.mad.toFixed(4)})`,
     flaggedVendors: `${result.suspiciousVendors.length} vendor${result.suspiciousVendors.length !== 1 ? 's' : ''} flagged`,
     suspiciousTransactions: `${result.flaggedTransactions.length} transaction${result.flaggedTransactions.length !== 1 ? 's' : ''} flagged`
   };
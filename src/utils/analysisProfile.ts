@@ -0,0 +1,63 @@
+// Analysis Profile
+// Default thresholds for the pattern checks and flags, and helpers to validate and describe them
+
+import type { AnalysisProfile } from '../types';
+
+export const DEFAULT_ANALYSIS_PROFILE: AnalysisProfile = {
+  name: 'Standard',
+  minGroupTransactions: 10,
+  highDigitPercent: 20,
+  roundNumberPercent: 30,
+  dominantDigitPercent: 50,
+  outlierAverageMultiple: 10,
+  outlierMedianMultiple: 50,
+  highAmountThreshold: 5000,
+  maxFlaggedTransactions: 50,
+  outlierModifiedZ: 3.5,
+  outlierIqrMultiple: 3,
+  outlierLogZ: 3,
+  refundRatioPercent: 20,
+};
+
+/**
+ * Fill missing or invalid values from the defaults, e.g. for settings saved
+ * before a field existed
+ */
+export function normalizeAnalysisProfile(profile: Partial<AnalysisProfile> = {}): AnalysisProfile {
+  const valid = (value: number | undefined, fallback: number, min: number, max = Infinity) =>
+    value !== undefined && isFinite(value) && value >= min && value <= max ? value : fallback;
+
+  return {
+    name: profile.name?.trim() || DEFAULT_ANALYSIS_PROFILE.name,
+    minGroupTransactions: Math.round(valid(profile.minGroupTransactions, DEFAULT_ANALYSIS_PROFILE.minGroupTransactions, 1)),
+    highDigitPercent: valid(profile.highDigitPercent, DEFAULT_ANALYSIS_PROFILE.highDigitPercent, 0, 100),
+    roundNumberPercent: valid(profile.roundNumberPercent, DEFAULT_ANALYSIS_PROFILE.roundNumberPercent, 0, 100),
+    dominantDigitPercent: valid(profile.dominantDigitPercent, DEFAULT_ANALYSIS_PROFILE.dominantDigitPercent, 0, 100),
+    outlierAverageMultiple: valid(profile.outlierAverageMultiple, DEFAULT_ANALYSIS_PROFILE.outlierAverageMultiple, 1),
+    outlierMedianMultiple: valid(profile.outlierMedianMultiple, DEFAULT_ANALYSIS_PROFILE.outlierMedianMultiple, 1),
+    highAmountThreshold: valid(profile.highAmountThreshold, DEFAULT_ANALYSIS_PROFILE.highAmountThreshold, 0),
+    maxFlaggedTransactions: Math.round(valid(profile.maxFlaggedTransactions, DEFAULT_ANALYSIS_PROFILE.maxFlaggedTransactions, 1)),
+    outlierModifiedZ: valid(profile.outlierModifiedZ, DEFAULT_ANALYSIS_PROFILE.outlierModifiedZ, 0),
+    outlierIqrMultiple: valid(profile.outlierIqrMultiple, DEFAULT_ANALYSIS_PROFILE.outlierIqrMultiple, 0),
+    outlierLogZ: valid(profile.outlierLogZ, DEFAULT_ANALYSIS_PROFILE.outlierLogZ, 0),
+    refundRatioPercent: valid(profile.refundRatioPercent, DEFAULT_ANALYSIS_PROFILE.refundRatioPercent, 0),
+  };
+}
+
+/**
+ * List the profile parameters as label/value pairs for reports
+ */
+export function describeAnalysisProfile(profile: AnalysisProfile): [string, string][] {
+  return [
+    ['Profile', profile.name],
+    ['Minimum transactions per vendor/category', String(profile.minGroupTransactions)],
+    ['High digits (7-9) threshold', `${profile.highDigitPercent}%`],
+    ['Round numbers threshold', `${profile.roundNumberPercent}%`],
+    ['Dominant digit threshold', `${profile.dominantDigitPercent}%`],
+    ['Outlier rule', `> ${profile.outlierAverageMultiple}x average or > ${profile.outlierMedianMultiple}x median`],
+    ['High amount threshold', `$${profile.highAmountThreshold.toLocaleString()}`],
+    ['Flagged transactions cap', String(profile.maxFlaggedTransactions)],
+    ['Vendor/category outlier rule', `modified z > ${profile.outlierModifiedZ}, > Q3 + ${profile.outlierIqrMultiple}x IQR, log z > ${profile.outlierLogZ} (on ln(amount))`],
+    ['Refund ratio threshold', `${profile.refundRatioPercent}% of a vendor's payments`],
+  ];
+}
@@ -0,0 +1,310 @@
+// Bank Statements
+// Reads OFX/QFX, QIF and ISO 20022 CAMT.053 statements into rows with fixed
+// columns, so they go through cleaning without a column mapping step.
+// Debits (money out) become positive amounts and are tested as payments;
+// credits (money in) become negative amounts and join the credit stream.
+
+import type { ColumnMapping, FileType, RawDataRow } from '../types';
+import { detectDateFormat, parseDate } from './dateFormat';
+import { detectNumberFormat, parseLocaleNumber } from './numberFormat';
+
+export const STATEMENT_COLUMNS = ['Date', 'Payee', 'Amount', 'Type', 'Direction', 'Currency', 'Memo', 'Reference'];
+
+export const STATEMENT_COLUMN_MAPPING: ColumnMapping = {
+  amount: 'Amount',
+  vendor: 'Payee',
+  date: 'Date',
+  currency: 'Currency',
+  transactionType: 'Type',
+  direction: 'Direction',
+};
+
+// One statement transaction, with its amount signed as on the statement
+interface StatementEntry {
+  date: Date | null;
+  amount: number | null; // negative for money out
+  payee?: string;
+  type?: string;
+  currency?: string;
+  memo?: string;
+  reference?: string;
+}
+
+export function isBankStatement(fileType: FileType | null): boolean {
+  return fileType === 'ofx' || fileType === 'qif' || fileType === 'camt';
+}
+
+function toRawRow(entry: StatementEntry): RawDataRow {
+  const isDebit = entry.amount !== null && entry.amount < 0;
+  return {
+    Date: entry.date,
+    Payee: entry.payee ?? null,
+    Amount: entry.amount === null || entry.amount === 0 ? entry.amount : -entry.amount,
+    Type: entry.type ?? (isDebit ? 'Debit' : 'Credit'),
+    Direction: isDebit ? 'Debit' : 'Credit',
+    Currency: entry.currency ?? null,
+    Memo: entry.memo ?? null,
+    Reference: entry.reference ?? null,
+  };
+}
+
+/**
+ * Amounts in OFX and CAMT use a decimal point, though some banks write a comma
+ */
+function parseStatementAmount(text: string | undefined): number | null {
+  if (!text) return null;
+  const normalized = text.replace(/\s/g, '');
+  const amount = Number(normalized.includes('.') ? normalized : normalized.replace(',', '.'));
+  return normalized !== '' && isFinite(amount) ? amount : null;
+}
+
+function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * First value of an OFX element. OFX 1.x is SGML, where values have no closing
+ * tag, so the value runs to the next tag or line end.
+ */
+function readOfxField(block: string, tag: string): string | undefined {
+  const match = block.match(new RegExp(`<${tag}>\\s*([^<\\r\\n]*)`, 'i'));
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+/**
+ * Parse OFX 1.x (SGML) or 2.x (XML) and QFX bank and credit card statements
+ */
+export function parseOfx(text: string): StatementEntry[] {
+  const statements = Array.from(text.matchAll(/<(?:CC)?STMTRS>([\s\S]*?)<\/(?:CC)?STMTRS>/gi), match => match[1]);
+  const entries: StatementEntry[] = [];
+
+  (statements.length > 0 ? statements : [text]).forEach(statement => {
+    const currency = readOfxField(statement, 'CURDEF');
+    for (const [, transaction] of statement.matchAll(/<STMTTRN>([\s\S]*?)<\/STMTTRN>/gi)) {
+      const posted = readOfxField(transaction, 'DTPOSTED')?.slice(0, 8);
+      entries.push({
+        date: posted ? parseDate(posted, 'YMD') : null,
+        amount: parseStatementAmount(readOfxField(transaction, 'TRNAMT')),
+        payee: readOfxField(transaction, 'NAME'),
+        type: readOfxField(transaction, 'TRNTYPE'),
+        currency: readOfxField(transaction, 'CURRENCY') ?? currency,
+        memo: readOfxField(transaction, 'MEMO'),
+        reference: readOfxField(transaction, 'CHECKNUM') ?? readOfxField(transaction, 'FITID'),
+      });
+    }
+  });
+
+  if (entries.length === 0 && !/<OFX>/i.test(text)) {
+    throw new Error('File is not an OFX statement');
+  }
+  return entries;
+}
+
+// QIF sections holding transactions; account, category and class lists are skipped
+const QIF_TRANSACTION_SECTION = /^!type:(bank|cash|ccard|oth a|oth l)\s*$/i;
+
+/**
+ * Parse QIF bank, cash and credit card registers. Day-month order and number
+ * format are inferred across the whole file, as QIF has no fixed format.
+ */
+export function parseQif(text: string): StatementEntry[] {
+  const records: Record<string, string>[] = [];
+  let current: Record<string, string> = {};
+  let inTransactions = false;
+
+  text.split(/\r?\n/).forEach(line => {
+    if (!line.trim()) return;
+    if (line.startsWith('!')) {
+      if (/^!(option|clear):/i.test(line)) return;
+      inTransactions = QIF_TRANSACTION_SECTION.test(line.trim());
+      current = {};
+      return;
+    }
+    if (!inTransactions) return;
+    if (line.startsWith('^')) {
+      if (Object.keys(current).length > 0) records.push(current);
+      current = {};
+      return;
+    }
+
+    const code = line[0];
+    // S, E and $ describe splits; the transaction total is on T
+    if (code === 'S' || code === 'E' || code === '$') return;
+    current[code] ??= line.slice(1).trim();
+  });
+  if (inTransactions && Object.keys(current).length > 0) records.push(current);
+
+  // Quicken writes dates like 3/15'24 or 3/15/ 4
+  const dates = records.map(record => record.D?.replace(/'\s?/, '/').replace(/([./-])\s?(\d)$/, '$10$2'));
+  const dateOrder = detectDateFormat(dates).order;
+  const numberFormat = detectNumberFormat(records.map(record => record.T ?? record.U)).format;
+
+  return records.map((record, index) => {
+    const amountText = record.T ?? record.U;
+    const number = record.N;
+    return {
+      date: dates[index] ? parseDate(dates[index], dateOrder) : null,
+      amount: amountText ? parseLocaleNumber(amountText, numberFormat) : null,
+      payee: record.P || undefined,
+      // N holds a check number or a code such as ATM, DEP or XFER
+      type: number ? (/^\d+$/.test(number) ? 'Check' : number.toUpperCase()) : undefined,
+      memo: record.M || undefined,
+      reference: number && /^\d+$/.test(number) ? number : undefined,
+    };
+  });
+}
+
+function childElement(parent: Element | undefined, ...path: string[]): Element | undefined {
+  return path.reduce<Element | undefined>(
+    (element, name) => element && Array.from(element.children).find(child => child.localName === name),
+    parent
+  );
+}
+
+function childElements(parent: Element, name: string): Element[] {
+  return Array.from(parent.children).filter(child => child.localName === name);
+}
+
+function textOf(element: Element | undefined): string | undefined {
+  return element?.textContent?.trim() || undefined;
+}
+
+/**
+ * ISO bank transaction code, e.g. "PMNT/ICDT/ESCT", or the bank's own code
+ */
+function readCamtTransactionCode(entry: Element): string | undefined {
+  const domain = childElement(entry, 'BkTxCd', 'Domn');
+  if (domain) {
+    return [
+      textOf(childElement(domain, 'Cd')),
+      textOf(childElement(domain, 'Fmly', 'Cd')),
+      textOf(childElement(domain, 'Fmly', 'SubFmlyCd')),
+    ].filter(Boolean).join('/');
+  }
+  return textOf(childElement(entry, 'BkTxCd', 'Prtry', 'Cd'));
+}
+
+/**
+ * Name of the other party: the creditor of a debit, the debtor of a credit.
+ * Newer CAMT versions nest the name in a Pty element.
+ */
+function readCamtParty(details: Element | undefined, isDebit: boolean): string | undefined {
+  const party = childElement(details, 'RltdPties', isDebit ? 'Cdtr' : 'Dbtr');
+  return textOf(childElement(party, 'Nm')) ?? textOf(childElement(party, 'Pty', 'Nm'));
+}
+
+/**
+ * Unstructured remittance information, e.g. an invoice number
+ */
+function readCamtMemo(details: Element | undefined): string | undefined {
+  const remittance = childElement(details, 'RmtInf');
+  const lines = remittance ? childElements(remittance, 'Ustrd').map(textOf).filter(Boolean) : [];
+  return lines.join(' ') || undefined;
+}
+
+function readCamtAmount(details: Element): Element | undefined {
+  return childElement(details, 'Amt') ?? childElement(details, 'AmtDtls', 'TxAmt', 'Amt');
+}
+
+// Every .xml upload is read as CAMT.053, so look for its message element or
+// namespace before parsing
+const CAMT053_MESSAGE = /<(?:[\w.-]+:)?BkToCstmrStmt[\s>]|urn:iso:std:iso:20022:tech:xsd:camt\.053/;
+
+/**
+ * Parse ISO 20022 CAMT.053 statements. A batch entry whose transaction details
+ * each carry an amount gives one row per transaction; pending entries are skipped.
+ */
+export function parseCamt053(text: string): StatementEntry[] {
+  if (!CAMT053_MESSAGE.test(text)) {
+    throw new Error('Unsupported XML file. Only ISO 20022 CAMT.053 bank statements can be imported from XML.');
+  }
+
+  const document = new DOMParser().parseFromString(text, 'application/xml');
+  if (document.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('CAMT.053 file is not valid XML');
+  }
+
+  const message = Array.from(document.getElementsByTagNameNS('*', 'BkToCstmrStmt'))[0];
+  const statements = message ? childElements(message, 'Stmt') : [];
+  if (statements.length === 0) {
+    throw new Error('File is not a CAMT.053 statement');
+  }
+
+  const entries: StatementEntry[] = [];
+  statements.forEach(statement => {
+    childElements(statement, 'Ntry').forEach(entry => {
+      const status = textOf(childElement(entry, 'Sts', 'Cd')) ?? textOf(childElement(entry, 'Sts'));
+      if (status === 'PDNG' || status === 'INFO') return;
+
+      const isDebit = textOf(childElement(entry, 'CdtDbtInd')) === 'DBIT';
+      const sign = isDebit ? -1 : 1;
+      const amount = childElement(entry, 'Amt');
+      const bookingDate = textOf(childElement(entry, 'BookgDt', 'Dt')) ?? textOf(childElement(entry, 'BookgDt', 'DtTm'))?.slice(0, 10);
+      const base = {
+        date: bookingDate ? parseDate(bookingDate, 'YMD') : null,
+        type: readCamtTransactionCode(entry),
+        reference: textOf(childElement(entry, 'AcctSvcrRef')) ?? textOf(childElement(entry, 'NtryRef')),
+      };
+      const entryInfo = textOf(childElement(entry, 'AddtlNtryInf'));
+
+      const details = childElements(entry, 'NtryDtls').flatMap(group => childElements(group, 'TxDtls'));
+      if (details.length > 1 && details.every(readCamtAmount)) {
+        details.forEach(detail => {
+          const detailAmount = readCamtAmount(detail)!;
+          const value = parseStatementAmount(textOf(detailAmount));
+          entries.push({
+            ...base,
+            amount: value === null ? null : value * sign,
+            currency: detailAmount.getAttribute('Ccy') ?? amount?.getAttribute('Ccy') ?? undefined,
+            payee: readCamtParty(detail, isDebit),
+            memo: readCamtMemo(detail) ?? entryInfo,
+            reference: textOf(childElement(detail, 'Refs', 'EndToEndId')) ?? base.reference,
+          });
+        });
+        return;
+      }
+
+      const value = parseStatementAmount(textOf(amount));
+      entries.push({
+        ...base,
+        amount: value === null ? null : value * sign,
+        currency: amount?.getAttribute('Ccy') ?? undefined,
+        payee: readCamtParty(details[0], isDebit),
+        memo: readCamtMemo(details[0]) ?? entryInfo,
+      });
+    });
+  });
+  return entries;
+}
+
+/**
+ * Read a bank statement file into rows with the statement columns
+ */
+export async function parseBankStatement(file: File, fileType: FileType): Promise<{ data: RawDataRow[]; columns: string[] }> {
+  const text = await file.text();
+  let entries: StatementEntry[];
+  switch (fileType) {
+    case 'ofx':
+      entries = parseOfx(text);
+      break;
+    case 'qif':
+      entries = parseQif(text);
+      break;
+    case 'camt':
+      entries = parseCamt053(text);
+      break;
+    default:
+      throw new Error(`Unsupported bank statement type: ${fileType}`);
+  }
+
+  if (entries.length === 0) {
+    throw new Error('No transactions found in the bank statement');
+  }
+  return { data: entries.map(toRawRow), columns: [...STATEMENT_COLUMNS] };
+}
@@ -1,7 +1,53 @@
 // Benford's Law Analysis Engine
 // Implements statistical analysis to detect fraud patterns in financial data
 
-import type { CleanedDataRow, ProcessedDataset } from '../types';
+import type {
+  AnalysisOptions,
+  ApprovalLimitCluster,
+  AnalysisProfile,
+  AnalysisProgress,
+  BenfordDigitTestType,
+  BenfordResult,
+  CategoryAnalysis,
+  CleanedDataRow,
+  CreditAnalysisResult,
+  CurrencyAnalysisResult,
+  CurrencyBreakdown,
+  CurrencyConversion,
+  DigitFrequency,
+  DigitSignificance,
+  DigitTestResult,
+  DriftGranularity,
+  DriftPeriod,
+  DriftSeries,
+  DuplicatedAmount,
+  GoodnessOfFit,
+  FlaggedTransaction,
+  LastTwoDigitsTestResult,
+  NumberDuplicationResult,
+  ProcessedDataset,
+  RobustOutlier,
+  RobustOutlierResult,
+  RuleHit,
+  SplitPurchase,
+  SummationBin,
+  SummationTestResult,
+  TemporalDriftResult,
+  ThresholdAvoidanceResult,
+  VendorAnalysis,
+} from '../types';
+import { chiSquarePValue, ksCriticalValue } from './statistics';
+import { assessCompliance, assessUniformity, calculateMAD } from './conformity';
+import { detectDuplicatePayments } from './duplicatePayments';
+import { detectThresholdAvoidance, formatLimit } from './thresholdAvoidance';
+import { formatDay, toDayNumber } from './dateUtils';
+import { DEFAULT_ANALYSIS_PROFILE, normalizeAnalysisProfile } from './analysisProfile';
+import { CUSTOM_RULE_WEIGHTS, calculateRiskScore, createRuleHit, getRiskLevelForScore } from './flagRules';
+import { compileCustomRules, type CompiledCustomRule } from './customRules';
+import { detectRobustOutliers, getOutlierMethodLabel } from './robustOutliers';
+import { applyVendorMergeMap, resolveDuplicateVendors } from './vendorNormalization';
+import { calculateVendorRefundRatios, findUnmatchedRefunds, getUnmatchedRefundLabel } from './refunds';
+import { UNKNOWN_CURRENCY } from './currency';
 
 // Benford's Law expected frequencies for first digits (1-9)
 export const BENFORDS_EXPECTED = {
@@ -16,53 +62,43 @@ export const BENFORDS_EXPECTED = {
   9: 4.6,
 } as const;
 
-export interface DigitFrequency {
-  digit: number;
-  count: number;
-  observed: number; // percentage
-  expected: number; // percentage
-  deviation: number; // absolute difference
-}
+// Benford's Law expected frequencies for second digits (0-9)
+export const BENFORDS_SECOND_DIGIT_EXPECTED = {
+  0: 11.968,
+  1: 11.389,
+  2: 10.882,
+  3: 10.433,
+  4: 10.031,
+  5: 9.668,
+  6: 9.337,
+  7: 9.035,
+  8: 8.757,
+  9: 8.5,
+} as const;
 
-export interface BenfordResult {
-  // Overall statistics
-  totalAnalyzed: number;
-  digitFrequencies: DigitFrequency[];
-  
-  // Deviation metrics
-  chiSquare: number;
-  mad: number; // Mean Absolute Deviation
-  
-  // Interpretation
-  overallAssessment: 'compliant' | 'acceptable' | 'suspicious' | 'highly_suspicious';
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
-  
-  // Flagged items
-  suspiciousVendors: VendorAnalysis[];
-  flaggedTransactions: FlaggedTransaction[];
-  
-  // Warnings
-  warnings: string[];
-}
+// Benford's Law expected frequencies for first-two digits (10-99)
+export const BENFORDS_FIRST_TWO_DIGITS_EXPECTED: Record<number, number> = Object.fromEntries(
+  Array.from({ length: 90 }, (_, i) => {
+    const digits = i + 10;
+    return [digits, Math.log10(1 + 1 / digits) * 100];
+  })
+);
 
-export interface VendorAnalysis {
-  vendor: string;
-  transactionCount: number;
-  mad: number;
-  chiSquare: number;
-  riskLevel: 'low' | 'medium' | 'high' | 'critical';
-  suspiciousPatterns: string[];
-  digitDistribution: Record<number, number>;
-}
+// Expected frequencies for last-two digits (00-99) are uniform
+export const LAST_TWO_DIGITS_EXPECTED: Record<number, number> = Object.fromEntries(
+  Array.from({ length: 100 }, (_, digits) => [digits, 1])
+);
 
-export interface FlaggedTransaction {
-  index: number;
-  amount: number;
-  vendor?: string;
-  firstDigit: number;
-  reason: string;
-  riskLevel: 'medium' | 'high' | 'critical';
-}
+// A summation bin sticks out when its share of the total is this many times the equal share
+const SUMMATION_SPIKE_FACTOR = 2;
+const SUMMATION_TOP_CONTRIBUTORS = 5;
+
+// Number of most frequent amounts kept in the duplication report
+const DUPLICATION_TOP_AMOUNTS = 25;
+
+// Z-statistics above which a digit bin is significant at the 95% / 99% level
+const SIGNIFICANT_Z_95 = 1.96;
+const SIGNIFICANT_Z_99 = 2.576;
 
 /**
  * Extract the first non-zero digit from a number
@@ -90,27 +126,69 @@ export function extractFirstDigit(amount: number): number | null {
 }
 
 /**
- * Calculate digit frequency distribution
+ * Get the significant digits of an amount of at least 10.
+ * Smaller amounts are skipped so that the second digit is real
+ * rather than an implied trailing zero.
  */
-export function calculateDigitFrequencies(amounts: number[]): DigitFrequency[] {
-  const counts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 };
-  let totalValid = 0;
+function getSignificantDigits(amount: number): string | null {
+  if (amount < 10 || !isFinite(amount)) {
+    return null;
+  }
   
-  // Count first digits
-  for (const amount of amounts) {
-    const firstDigit = extractFirstDigit(amount);
-    if (firstDigit && firstDigit >= 1 && firstDigit <= 9) {
-      counts[firstDigit as keyof typeof counts]++;
-      totalValid++;
-    }
+  // Scientific notation always starts with the significant digits
+  return amount.toExponential(14).replace(/e.*$/, '').replace('.', '');
+}
+
+/**
+ * Extract the second significant digit from a number
+ */
+export function extractSecondDigit(amount: number): number | null {
+  const digits = getSignificantDigits(amount);
+  return digits ? parseInt(digits[1], 10) : null;
+}
+
+/**
+ * Extract the first two significant digits (10-99) from a number
+ */
+export function extractFirstTwoDigits(amount: number): number | null {
+  const digits = getSignificantDigits(amount);
+  return digits ? parseInt(digits.slice(0, 2), 10) : null;
+}
+
+/**
+ * Extract the last two digits (00-99) of the whole-dollar part of an amount.
+ * Amounts under 10 are skipped since their ending is their only digit.
+ */
+export function extractLastTwoDigits(amount: number): number | null {
+  if (amount < 10 || !isFinite(amount)) {
+    return null;
   }
   
-  // Calculate frequencies and deviations
+  return Math.floor(amount) % 100;
+}
+
+/**
+ * Format a last-two digits bin as it appears on an invoice (e.g. 00, 50)
+ */
+export function formatEnding(digits: number): string {
+  return digits.toString().padStart(2, '0');
+}
+
+/**
+ * Turn raw digit counts into frequencies compared against an expected table
+ */
+function buildDigitFrequencies(
+  counts: Record<number, number>,
+  expectedTable: Record<number, number>
+): DigitFrequency[] {
+  const totalValid = Object.values(counts).reduce((sum, count) => sum + count, 0);
+  
   return Object.entries(counts).map(([digit, count]) => {
     const digitNum = parseInt(digit, 10);
     const observed = totalValid > 0 ? (count / totalValid) * 100 : 0;
-    const expected = BENFORDS_EXPECTED[digitNum as keyof typeof BENFORDS_EXPECTED];
+    const expected = expectedTable[digitNum];
     const deviation = Math.abs(observed - expected);
+    const zStatistic = calculateZStatistic(observed / 100, expected / 100, totalValid);
     
     return {
       digit: digitNum,
@@ -118,10 +196,121 @@ export function calculateDigitFrequencies(amounts: number[]): DigitFrequency[] {
       observed,
       expected,
       deviation,
+      zStatistic,
+      significance: getSignificance(zStatistic),
     };
   });
 }
 
+/**
+ * Calculate digit frequency distribution
+ */
+export function calculateDigitFrequencies(amounts: number[]): DigitFrequency[] {
+  const counts = { 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 };
+  
+  // Count first digits
+  for (const amount of amounts) {
+    const firstDigit = extractFirstDigit(amount);
+    if (firstDigit && firstDigit >= 1 && firstDigit <= 9) {
+      counts[firstDigit as keyof typeof counts]++;
+    }
+  }
+  
+  return buildDigitFrequencies(counts, BENFORDS_EXPECTED);
+}
+
+/**
+ * Calculate second digit frequency distribution
+ */
+export function calculateSecondDigitFrequencies(amounts: number[]): DigitFrequency[] {
+  const counts = { 0: 0, 1: 0, 2: 0, 3: 0, 4: 0, 5: 0, 6: 0, 7: 0, 8: 0, 9: 0 };
+  
+  for (const amount of amounts) {
+    const secondDigit = extractSecondDigit(amount);
+    if (secondDigit !== null) {
+      counts[secondDigit as keyof typeof counts]++;
+    }
+  }
+  
+  return buildDigitFrequencies(counts, BENFORDS_SECOND_DIGIT_EXPECTED);
+}
+
+/**
+ * Calculate first-two digits frequency distribution
+ */
+export function calculateFirstTwoDigitsFrequencies(amounts: number[]): DigitFrequency[] {
+  const counts: Record<number, number> = {};
+  for (let digits = 10; digits <= 99; digits++) {
+    counts[digits] = 0;
+  }
+  
+  for (const amount of amounts) {
+    const firstTwo = extractFirstTwoDigits(amount);
+    if (firstTwo !== null) {
+      counts[firstTwo]++;
+    }
+  }
+  
+  return buildDigitFrequencies(counts, BENFORDS_FIRST_TWO_DIGITS_EXPECTED);
+}
+
+/**
+ * Calculate last-two digits frequency distribution
+ */
+export function calculateLastTwoDigitsFrequencies(amounts: number[]): DigitFrequency[] {
+  const counts: Record<number, number> = {};
+  for (let digits = 0; digits <= 99; digits++) {
+    counts[digits] = 0;
+  }
+  
+  for (const amount of amounts) {
+    const lastTwo = extractLastTwoDigits(amount);
+    if (lastTwo !== null) {
+      counts[lastTwo]++;
+    }
+  }
+  
+  return buildDigitFrequencies(counts, LAST_TWO_DIGITS_EXPECTED);
+}
+
+/**
+ * Find endings that occur significantly more often than the uniform 1%
+ */
+function findOverrepresentedEndings(frequencies: DigitFrequency[], minCount: number = 1): DigitFrequency[] {
+  return frequencies
+    .filter(freq =>
+      freq.observed > freq.expected &&
+      freq.count >= minCount &&
+      freq.significance === 'significant_99'
+    )
+    .sort((a, b) => b.zStatistic - a.zStatistic);
+}
+
+/**
+ * Calculate the Z-statistic for one digit bin (Nigrini, with continuity correction)
+ */
+export function calculateZStatistic(observed: number, expected: number, totalCount: number): number {
+  if (totalCount === 0 || expected <= 0 || expected >= 1) {
+    return 0;
+  }
+  
+  const difference = Math.abs(observed - expected);
+  const correction = 1 / (2 * totalCount);
+  
+  // The correction only applies when it is smaller than the difference
+  const numerator = correction < difference ? difference - correction : difference;
+  return numerator / Math.sqrt((expected * (1 - expected)) / totalCount);
+}
+
+/**
+ * Classify a Z-statistic by the confidence level it is significant at
+ */
+export function getSignificance(zStatistic: number): DigitSignificance {
+  if (zStatistic > SIGNIFICANT_Z_99) return 'significant_99';
+  if (zStatistic > SIGNIFICANT_Z_95) return 'significant_95';
+  return 'none';
+}
+
 /**
  * Calculate Chi-Square statistic
  */
@@ -139,200 +328,795 @@ export function calculateChiSquare(frequencies: DigitFrequency[], totalCount: nu
 }
 
 /**
- * Calculate Mean Absolute Deviation (MAD)
+ * Calculate the Kolmogorov-Smirnov statistic (largest gap between cumulative distributions)
  */
-export function calculateMAD(frequencies: DigitFrequency[]): number {
-  const totalDeviation = frequencies.reduce((sum, freq) => sum + freq.deviation, 0);
-  return totalDeviation / frequencies.length;
+export function calculateKSStatistic(frequencies: DigitFrequency[]): number {
+  let observedCumulative = 0;
+  let expectedCumulative = 0;
+  let maxGap = 0;
+  
+  for (const freq of frequencies) {
+    observedCumulative += freq.observed / 100;
+    expectedCumulative += freq.expected / 100;
+    maxGap = Math.max(maxGap, Math.abs(observedCumulative - expectedCumulative));
+  }
+  
+  return maxGap;
 }
 
 /**
- * Assess overall compliance with Benford's Law
+ * Calculate chi-square, p-value and Kolmogorov-Smirnov statistics for a digit test
  */
-export function assessCompliance(mad: number): {
-  assessment: BenfordResult['overallAssessment'];
-  riskLevel: BenfordResult['riskLevel'];
-} {
-  // MAD thresholds (Nigrini, 2012)
-  if (mad < 0.006) {
-    return { assessment: 'compliant', riskLevel: 'low' };
-  } else if (mad < 0.012) {
-    return { assessment: 'acceptable', riskLevel: 'low' };
-  } else if (mad < 0.015) {
-    return { assessment: 'acceptable', riskLevel: 'medium' };
-  } else if (mad < 0.022) {
-    return { assessment: 'suspicious', riskLevel: 'high' };
-  } else {
-    return { assessment: 'highly_suspicious', riskLevel: 'critical' };
+export function calculateGoodnessOfFit(frequencies: DigitFrequency[], totalCount: number): GoodnessOfFit {
+  const chiSquare = calculateChiSquare(frequencies, totalCount);
+  const degreesOfFreedom = frequencies.length - 1;
+  
+  return {
+    chiSquare,
+    degreesOfFreedom,
+    chiSquarePValue: totalCount > 0 ? chiSquarePValue(chiSquare, degreesOfFreedom) : 1,
+    ksStatistic: calculateKSStatistic(frequencies),
+    ksCriticalValue: ksCriticalValue(totalCount),
+  };
+}
+
+/**
+ * Summarize digit frequencies into a complete test result
+ */
+function summarizeDigitTest(testType: BenfordDigitTestType, digitFrequencies: DigitFrequency[]): DigitTestResult {
+  const totalAnalyzed = digitFrequencies.reduce((sum, freq) => sum + freq.count, 0);
+  const mad = calculateMAD(digitFrequencies);
+  const { assessment: overallAssessment, riskLevel, conformity } = assessCompliance(mad, testType);
+  
+  return {
+    testType,
+    totalAnalyzed,
+    digitFrequencies,
+    mad,
+    conformity,
+    ...calculateGoodnessOfFit(digitFrequencies, totalAnalyzed),
+    overallAssessment,
+    riskLevel,
+  };
+}
+
+/**
+ * Run the first digit test on a set of amounts
+ */
+export function performFirstDigitTest(amounts: number[]): DigitTestResult {
+  return summarizeDigitTest('first_digit', calculateDigitFrequencies(amounts));
+}
+
+/**
+ * Run the second digit test on a set of amounts
+ */
+export function performSecondDigitTest(amounts: number[]): DigitTestResult {
+  return summarizeDigitTest('second_digit', calculateSecondDigitFrequencies(amounts));
+}
+
+/**
+ * Run the first-two digits test on a set of amounts
+ */
+export function performFirstTwoDigitsTest(amounts: number[]): DigitTestResult {
+  return summarizeDigitTest('first_two_digits', calculateFirstTwoDigitsFrequencies(amounts));
+}
+
+/**
+ * Run the last-two digits test on a set of amounts. Endings should be uniform,
+ * so the verdict comes from the chi-square p-value rather than MAD ranges.
+ */
+export function performLastTwoDigitsTest(amounts: number[]): LastTwoDigitsTestResult {
+  const digitFrequencies = calculateLastTwoDigitsFrequencies(amounts);
+  const totalAnalyzed = digitFrequencies.reduce((sum, freq) => sum + freq.count, 0);
+  const goodnessOfFit = calculateGoodnessOfFit(digitFrequencies, totalAnalyzed);
+  const { assessment: overallAssessment, riskLevel } = assessUniformity(goodnessOfFit.chiSquarePValue);
+  
+  return {
+    testType: 'last_two_digits',
+    totalAnalyzed,
+    digitFrequencies,
+    ...goodnessOfFit,
+    overallAssessment,
+    riskLevel,
+    overrepresentedEndings: findOverrepresentedEndings(digitFrequencies),
+  };
+}
+
+/**
+ * Run Nigrini's summation test: each first-two digits bin should hold an
+ * equal share of the total amount. Bins that stick out are usually driven
+ * by a handful of large transactions, which are listed for review.
+ */
+export function performSummationTest(data: CleanedDataRow[]): SummationTestResult {
+  const binRows = new Map<number, number[]>();
+  for (let digits = 10; digits <= 99; digits++) {
+    binRows.set(digits, []);
   }
+  
+  let totalAmount = 0;
+  data.forEach((row, index) => {
+    const firstTwo = extractFirstTwoDigits(row.amount);
+    if (firstTwo === null) return;
+    binRows.get(firstTwo)!.push(index);
+    totalAmount += row.amount;
+  });
+  
+  const expected = 100 / binRows.size;
+  const bins: SummationBin[] = Array.from(binRows.entries()).map(([digits, indices]) => {
+    const sum = indices.reduce((acc, index) => acc + data[index].amount, 0);
+    const observed = totalAmount > 0 ? (sum / totalAmount) * 100 : 0;
+    const isSpike = observed > expected * SUMMATION_SPIKE_FACTOR;
+    
+    const topContributors = isSpike
+      ? [...indices]
+          .sort((a, b) => data[b].amount - data[a].amount)
+          .slice(0, SUMMATION_TOP_CONTRIBUTORS)
+          .map(index => ({
+            index,
+            amount: data[index].amount,
+            vendor: data[index].vendor,
+            shareOfBin: (data[index].amount / sum) * 100,
+          }))
+      : [];
+    
+    return {
+      digits,
+      count: indices.length,
+      sum,
+      observed,
+      expected,
+      deviation: Math.abs(observed - expected),
+      isSpike,
+      topContributors,
+    };
+  });
+  
+  return {
+    totalAnalyzed: bins.reduce((acc, bin) => acc + bin.count, 0),
+    totalAmount,
+    bins,
+    spikes: bins.filter(bin => bin.isSpike).sort((a, b) => b.observed - a.observed),
+    mad: bins.reduce((acc, bin) => acc + bin.deviation / 100, 0) / bins.length,
+  };
 }
 
 /**
- * Analyze individual vendors for suspicious patterns
+ * Run the number duplication test: rank the exact amounts that occur most
+ * often, with the vendors, categories and rows behind each one
+ */
+export function performNumberDuplicationTest(
+  data: CleanedDataRow[],
+  limit: number = DUPLICATION_TOP_AMOUNTS
+): NumberDuplicationResult {
+  const rowsByAmount = new Map<number, number[]>();
+  data.forEach((row, index) => {
+    if (!isFinite(row.amount) || row.amount === 0) return;
+    const indices = rowsByAmount.get(row.amount);
+    if (indices) {
+      indices.push(index);
+    } else {
+      rowsByAmount.set(row.amount, [index]);
+    }
+  });
+  
+  const totalAnalyzed = Array.from(rowsByAmount.values()).reduce((sum, indices) => sum + indices.length, 0);
+  const duplicated = Array.from(rowsByAmount.entries()).filter(([, indices]) => indices.length > 1);
+  
+  const topAmounts: DuplicatedAmount[] = duplicated
+    .sort(([amountA, a], [amountB, b]) => b.length - a.length || amountB - amountA)
+    .slice(0, limit)
+    .map(([amount, indices]) => {
+      const vendors = new Set<string>();
+      const categories = new Set<string>();
+      indices.forEach(index => {
+        const vendor = data[index].vendor?.trim();
+        const category = data[index].category?.trim();
+        if (vendor) vendors.add(vendor);
+        if (category) categories.add(category);
+      });
+      
+      return {
+        amount,
+        count: indices.length,
+        share: (indices.length / totalAnalyzed) * 100,
+        vendors: Array.from(vendors),
+        categories: Array.from(categories),
+        rowIndices: indices,
+      };
+    });
+  
+  return {
+    totalAnalyzed,
+    distinctAmounts: rowsByAmount.size,
+    duplicatedAmountCount: duplicated.length,
+    duplicatedTransactionCount: duplicated.reduce((sum, [, indices]) => sum + indices.length, 0),
+    topAmounts,
+  };
+}
+
+// Drift periods with fewer transactions are charted but never marked as breakdowns
+export const MIN_DRIFT_PERIOD_TRANSACTIONS = 30;
+export const DEFAULT_DRIFT_WINDOW = 100;
+
+/**
+ * Group transactions on a trimmed key, skipping rows without one
  */
-export function analyzeVendors(data: CleanedDataRow[]): VendorAnalysis[] {
-  // Group transactions by vendor
-  const vendorGroups = new Map<string, CleanedDataRow[]>();
+function groupTransactions(
+  data: CleanedDataRow[],
+  getKey: (row: CleanedDataRow) => string | undefined
+): Map<string, CleanedDataRow[]> {
+  const groups = new Map<string, CleanedDataRow[]>();
   
   for (const row of data) {
-    if (row.vendor) {
-      const vendor = row.vendor.trim();
-      if (!vendorGroups.has(vendor)) {
-        vendorGroups.set(vendor, []);
+    const key = getKey(row)?.trim();
+    if (key) {
+      if (!groups.has(key)) {
+        groups.set(key, []);
       }
-      vendorGroups.get(vendor)!.push(row);
+      groups.get(key)!.push(row);
     }
   }
   
+  return groups;
+}
+
+/**
+ * Run the first-digit test and pattern checks on one group of transactions
+ */
+function analyzeTransactionGroup(
+  transactions: CleanedDataRow[],
+  profile: AnalysisProfile,
+  thresholdAvoidance?: ThresholdAvoidanceResult
+): Omit<VendorAnalysis, 'vendor'> {
+  const amounts = transactions.map(t => t.amount);
+  const frequencies = calculateDigitFrequencies(amounts);
+  const mad = calculateMAD(frequencies);
+  const chiSquare = calculateChiSquare(frequencies, amounts.length);
+  const { riskLevel } = assessCompliance(mad, 'first_digit');
+  
+  // Build digit distribution for detailed analysis
+  const digitDistribution: Record<number, number> = {};
+  frequencies.forEach(f => {
+    digitDistribution[f.digit] = f.observed;
+  });
+  
+  // Detect suspicious patterns
+  const suspiciousPatterns: string[] = [];
+  
+  // Pattern 1: Too many high digits (7, 8, 9)
+  const highDigitPercentage = (frequencies[6].observed + frequencies[7].observed + frequencies[8].observed);
+  if (highDigitPercentage > profile.highDigitPercent) {
+    suspiciousPatterns.push(`High digits (7-9) represent ${highDigitPercentage.toFixed(1)}% of transactions`);
+  }
+  
+  // Pattern 2: Too many round numbers (amounts ending in 0 or 00)
+  const roundNumbers = transactions.filter(t => 
+    t.amount % 10 === 0 || t.amount % 100 === 0
+  ).length;
+  const roundPercentage = (roundNumbers / transactions.length) * 100;
+  if (roundPercentage > profile.roundNumberPercent) {
+    suspiciousPatterns.push(`${roundPercentage.toFixed(1)}% of amounts are round numbers`);
+  }
+  
+  // Pattern 3: Unusual concentration in specific digits
+  const maxObserved = Math.max(...frequencies.map(f => f.observed));
+  if (maxObserved > profile.dominantDigitPercent) {
+    const dominantDigit = frequencies.find(f => f.observed === maxObserved)?.digit;
+    suspiciousPatterns.push(`Digit ${dominantDigit} dominates with ${maxObserved.toFixed(1)}%`);
+  }
+  
+  // Pattern 4: Invented or rounded endings (last-two digits)
+  const overrepresentedEndings = findOverrepresentedEndings(
+    calculateLastTwoDigitsFrequencies(amounts),
+    3
+  ).map(f => f.digit);
+  if (overrepresentedEndings.length > 0) {
+    suspiciousPatterns.push(`Over-represented endings: ${overrepresentedEndings.slice(0, 5).map(formatEnding).join(', ')}`);
+  }
+  
+  // Pattern 5: Amounts kept just below an approval limit, rather than spread around it
+  thresholdAvoidance?.clusters.forEach(cluster => {
+    const bandCeiling = cluster.limit * (1 + thresholdAvoidance.bandWidth);
+    const justBelow = amounts.filter(amount => amount >= cluster.bandFloor && amount < cluster.limit).length;
+    const justAbove = amounts.filter(amount => amount >= cluster.limit && amount < bandCeiling).length;
+    if (justBelow >= 3 && justBelow > justAbove * 2) {
+      suspiciousPatterns.push(`${justBelow} amounts just below the ${formatLimit(cluster.limit)} approval limit`);
+    }
+  });
+  
+  return {
+    transactionCount: transactions.length,
+    mad,
+    chiSquare,
+    riskLevel,
+    suspiciousPatterns,
+    digitDistribution,
+    overrepresentedEndings,
+  };
+}
+
+/**
+ * Sort group analyses by risk level, then MAD score
+ */
+function sortByRisk<T extends { riskLevel: VendorAnalysis['riskLevel']; mad: number }>(analyses: T[]): T[] {
+  const riskOrder = { critical: 4, high: 3, medium: 2, low: 1 };
+  return analyses.sort((a, b) => {
+    const aRisk = riskOrder[a.riskLevel];
+    const bRisk = riskOrder[b.riskLevel];
+    
+    if (aRisk !== bRisk) return bRisk - aRisk;
+    return b.mad - a.mad;
+  });
+}
+
+/**
+ * Analyze individual vendors for suspicious patterns
+ */
+export function analyzeVendors(
+  data: CleanedDataRow[],
+  thresholdAvoidance?: ThresholdAvoidanceResult,
+  profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE
+): VendorAnalysis[] {
+  const vendorGroups = groupTransactions(data, row => row.vendor);
+  
+  // Split purchases per vendor, for Pattern 6
+  const vendorSplits = new Map<string, number>();
+  thresholdAvoidance?.splitPurchases.forEach(split => {
+    vendorSplits.set(split.vendor, (vendorSplits.get(split.vendor) ?? 0) + 1);
+  });
+  
   const analyses: VendorAnalysis[] = [];
   
   for (const [vendor, transactions] of vendorGroups.entries()) {
-    // Need at least 10 transactions for meaningful analysis
-    if (transactions.length < 10) continue;
+    if (transactions.length < profile.minGroupTransactions) continue;
     
-    const amounts = transactions.map(t => t.amount);
-    const frequencies = calculateDigitFrequencies(amounts);
-    const mad = calculateMAD(frequencies);
-    const chiSquare = calculateChiSquare(frequencies, amounts.length);
-    const { riskLevel } = assessCompliance(mad);
+    const analysis = analyzeTransactionGroup(transactions, profile, thresholdAvoidance);
     
-    // Build digit distribution for detailed analysis
-    const digitDistribution: Record<number, number> = {};
-    frequencies.forEach(f => {
-      digitDistribution[f.digit] = f.observed;
-    });
+    // Pattern 6: Purchases split to stay under an approval limit
+    const splitCount = vendorSplits.get(vendor) ?? 0;
+    if (splitCount > 0) {
+      analysis.suspiciousPatterns.push(`${splitCount} possible split purchase${splitCount === 1 ? '' : 's'} crossing an approval limit`);
+    }
     
-    // Detect suspicious patterns
-    const suspiciousPatterns: string[] = [];
+    analyses.push({ vendor, ...analysis });
+  }
+  
+  return sortByRisk(analyses);
+}
+
+/**
+ * Analyze each expense category for suspicious patterns
+ */
+export function analyzeCategories(
+  data: CleanedDataRow[],
+  thresholdAvoidance?: ThresholdAvoidanceResult,
+  profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE
+): CategoryAnalysis[] {
+  const categoryGroups = groupTransactions(data, row => row.category);
+  const analyses: CategoryAnalysis[] = [];
+  
+  for (const [category, transactions] of categoryGroups.entries()) {
+    if (transactions.length < profile.minGroupTransactions) continue;
     
-    // Pattern 1: Too many high digits (7, 8, 9)
-    const highDigitPercentage = (frequencies[6].observed + frequencies[7].observed + frequencies[8].observed);
-    if (highDigitPercentage > 20) {
-      suspiciousPatterns.push(`High digits (7-9) represent ${highDigitPercentage.toFixed(1)}% of transactions`);
+    analyses.push({
+      category,
+      totalAmount: transactions.reduce((sum, t) => sum + t.amount, 0),
+      ...analyzeTransactionGroup(transactions, profile, thresholdAvoidance),
+    });
+  }
+  
+  return sortByRisk(analyses);
+}
+
+/**
+ * Run the first-digit test on the transactions of one drift period. A period
+ * breaks down when it has enough data, its MAD is nonconforming and the
+ * chi-square test rejects Benford's Law at the 5% level.
+ */
+function summarizeDriftPeriod(label: string, rows: { amount: number; day: number }[]): DriftPeriod {
+  const frequencies = calculateDigitFrequencies(rows.map(row => row.amount));
+  const transactionCount = frequencies.reduce((sum, freq) => sum + freq.count, 0);
+  const mad = calculateMAD(frequencies);
+  const { chiSquare, chiSquarePValue } = calculateGoodnessOfFit(frequencies, transactionCount);
+  const { conformity } = assessCompliance(mad, 'first_digit');
+  const hasEnoughData = transactionCount >= MIN_DRIFT_PERIOD_TRANSACTIONS;
+  
+  // Rows arrive in date order
+  return {
+    label,
+    startDate: formatDay(rows[0].day),
+    endDate: formatDay(rows[rows.length - 1].day),
+    transactionCount,
+    mad,
+    chiSquare,
+    chiSquarePValue,
+    conformity: conformity.level,
+    hasEnoughData,
+    isBreakdown: hasEnoughData && conformity.level === 'nonconformity' && chiSquarePValue < 0.05,
+  };
+}
+
+/**
+ * Calendar period a day falls in, e.g. 2024-03 or 2024-Q1
+ */
+function getPeriodKey(day: number, granularity: 'month' | 'quarter'): string {
+  const [year, month] = formatDay(day).split('-');
+  return granularity === 'month'
+    ? `${year}-${month}`
+    : `${year}-Q${Math.ceil(parseInt(month, 10) / 3)}`;
+}
+
+/**
+ * Run the first-digit test per month, per quarter, or over a rolling window
+ * of `windowSize` transactions in date order. Rows without a date are skipped.
+ */
+export function analyzeDrift(
+  data: CleanedDataRow[],
+  granularity: DriftGranularity,
+  windowSize: number = DEFAULT_DRIFT_WINDOW
+): DriftSeries {
+  const rows = data
+    .map(row => ({ amount: row.amount, day: toDayNumber(row.date) }))
+    .filter((row): row is { amount: number; day: number } => row.day !== null && extractFirstDigit(row.amount) !== null)
+    .sort((a, b) => a.day - b.day);
+  
+  const periods: DriftPeriod[] = [];
+  
+  if (granularity === 'rolling') {
+    const step = Math.max(1, Math.floor(windowSize / 4));
+    for (let start = 0; start + windowSize <= rows.length; start += step) {
+      periods.push(summarizeDriftPeriod(
+        `#${start + 1}-${start + windowSize}`,
+        rows.slice(start, start + windowSize)
+      ));
+    }
+  } else {
+    const periodRows = new Map<string, { amount: number; day: number }[]>();
+    for (const row of rows) {
+      const key = getPeriodKey(row.day, granularity);
+      if (!periodRows.has(key)) {
+        periodRows.set(key, []);
+      }
+      periodRows.get(key)!.push(row);
     }
+    periodRows.forEach((group, key) => periods.push(summarizeDriftPeriod(key, group)));
+  }
+  
+  return {
+    granularity,
+    windowSize: granularity === 'rolling' ? windowSize : undefined,
+    periods,
+    firstBreakdown: periods.find(period => period.isBreakdown)?.label,
+  };
+}
+
+/**
+ * Monthly, quarterly and rolling drift series, or null without dates
+ */
+export function analyzeTemporalDrift(data: CleanedDataRow[]): TemporalDriftResult | null {
+  if (!data.some(row => toDayNumber(row.date) !== null)) {
+    return null;
+  }
+  
+  return {
+    monthly: analyzeDrift(data, 'month'),
+    quarterly: analyzeDrift(data, 'quarter'),
+    rolling: analyzeDrift(data, 'rolling'),
+  };
+}
+
+/**
+ * Analyze credits, refunds and reversals apart from payments: their own first
+ * digit test, refunds against payments per vendor, and flags for refunds with
+ * no original payment or from vendors with a high refund ratio. Money received
+ * on a bank statement is a deposit, not a refund, and skips the refund checks.
+ */
+export function analyzeCredits(
+  credits: CleanedDataRow[],
+  payments: CleanedDataRow[],
+  profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE
+): CreditAnalysisResult {
+  const creditAmounts = credits.map(row => Math.abs(row.amount));
+  const totalCreditAmount = creditAmounts.reduce((sum, amount) => sum + amount, 0);
+  const totalPaymentAmount = payments.reduce((sum, row) => sum + row.amount, 0);
+  
+  const refundIndices = credits.flatMap((row, index) => (row.direction === 'credit' ? [] : [index]));
+  const refunds = refundIndices.map(index => credits[index]);
+  const vendorRatios = calculateVendorRefundRatios(refunds, payments, profile.refundRatioPercent);
+  const highRatios = new Map(vendorRatios.filter(ratio => ratio.isHigh).map(ratio => [ratio.vendor, ratio]));
+  const unmatchedRefunds = findUnmatchedRefunds(refunds, payments)
+    .map(refund => ({ ...refund, index: refundIndices[refund.index] }));
+  const unmatchedByIndex = new Map(unmatchedRefunds.map(refund => [refund.index, refund]));
+  
+  const flaggedCredits: FlaggedTransaction[] = [];
+  credits.forEach((row, index) => {
+    const amount = creditAmounts[index];
+    const ruleHits: RuleHit[] = [];
     
-    // Pattern 2: Too many round numbers (amounts ending in 0 or 00)
-    const roundNumbers = transactions.filter(t => 
-      t.amount % 10 === 0 || t.amount % 100 === 0
-    ).length;
-    const roundPercentage = (roundNumbers / transactions.length) * 100;
-    if (roundPercentage > 30) {
-      suspiciousPatterns.push(`${roundPercentage.toFixed(1)}% of amounts are round numbers`);
+    const unmatched = unmatchedByIndex.get(index);
+    if (unmatched) {
+      ruleHits.push(createRuleHit('refund_without_payment', `Refund without original payment (${getUnmatchedRefundLabel(unmatched.reason).toLowerCase()})`, {
+        vendor: row.vendor ?? '',
+        refund: amount,
+        reason: unmatched.reason,
+      }));
     }
     
-    // Pattern 3: Unusual concentration in specific digits
-    const maxObserved = Math.max(...frequencies.map(f => f.observed));
-    if (maxObserved > 50) {
-      const dominantDigit = frequencies.find(f => f.observed === maxObserved)?.digit;
-      suspiciousPatterns.push(`Digit ${dominantDigit} dominates with ${maxObserved.toFixed(1)}%`);
+    // Vendors that were never paid are already covered by the refund check
+    const vendorRatio = row.vendor && row.direction !== 'credit' ? highRatios.get(row.vendor.trim()) : undefined;
+    if (vendorRatio && vendorRatio.ratio !== null) {
+      ruleHits.push(createRuleHit('high_refund_ratio', `Vendor refunds are ${(vendorRatio.ratio * 100).toFixed(0)}% of its payments`, {
+        vendor: vendorRatio.vendor,
+        refundTotal: vendorRatio.refundTotal,
+        paymentTotal: vendorRatio.paymentTotal,
+        ratio: vendorRatio.ratio,
+        threshold: profile.refundRatioPercent / 100,
+      }));
     }
     
-    analyses.push({
-      vendor,
-      transactionCount: transactions.length,
-      mad,
-      chiSquare,
-      riskLevel,
-      suspiciousPatterns,
-      digitDistribution,
-    });
-  }
+    if (ruleHits.length > 0) {
+      const score = calculateRiskScore(ruleHits);
+      flaggedCredits.push({
+        index,
+        amount: row.amount,
+        vendor: row.vendor,
+        transactionType: row.transactionType,
+        firstDigit: extractFirstDigit(amount) ?? 0,
+        reason: ruleHits.map(hit => hit.description).join('; '),
+        ruleHits,
+        score,
+        riskLevel: getRiskLevelForScore(score),
+      });
+    }
+  });
   
-  // Sort by risk level and MAD score
-  return analyses.sort((a, b) => {
-    const riskOrder = { critical: 4, high: 3, medium: 2, low: 1 };
-    const aRisk = riskOrder[a.riskLevel];
-    const bRisk = riskOrder[b.riskLevel];
-    
-    if (aRisk !== bRisk) return bRisk - aRisk;
-    return b.mad - a.mad;
+  return {
+    totalCredits: credits.length,
+    totalCreditAmount,
+    creditToPaymentRatio: totalPaymentAmount > 0 ? totalCreditAmount / totalPaymentAmount : 0,
+    benfordTest: credits.length > 0 ? performFirstDigitTest(creditAmounts) : null,
+    vendorRatios,
+    unmatchedRefundCount: unmatchedRefunds.length,
+    depositCount: credits.length - refunds.length,
+    flaggedCredits: flaggedCredits
+      .sort((a, b) => b.score - a.score || a.amount - b.amount)
+      .slice(0, profile.maxFlaggedTransactions),
+  };
+}
+
+/**
+ * Run the first digit test within each original currency, on amounts before
+ * conversion. Data in a single currency has no breakdown.
+ */
+export function analyzeCurrencies(
+  data: CleanedDataRow[],
+  conversion?: CurrencyConversion
+): CurrencyAnalysisResult {
+  const groups = new Map<string, CleanedDataRow[]>();
+  data.forEach(row => {
+    const currency = row.currency ?? UNKNOWN_CURRENCY;
+    const rows = groups.get(currency);
+    if (rows) {
+      rows.push(row);
+    } else {
+      groups.set(currency, [row]);
+    }
   });
+  
+  const currencies: CurrencyBreakdown[] = groups.size < 2 ? [] : Array.from(groups, ([currency, rows]) => {
+    const originalAmounts = rows.map(row => row.originalAmount ?? row.amount);
+    return {
+      currency,
+      transactionCount: rows.length,
+      originalTotal: originalAmounts.reduce((sum, amount) => sum + amount, 0),
+      convertedTotal: conversion ? rows.reduce((sum, row) => sum + row.amount, 0) : null,
+      firstDigitTest: performFirstDigitTest(originalAmounts),
+    };
+  }).sort((a, b) => b.transactionCount - a.transactionCount);
+  
+  return {
+    reportingCurrency: conversion?.reportingCurrency ?? null,
+    currencies,
+    unconvertedRows: conversion?.unconvertedRows ?? 0,
+  };
 }
 
 /**
  * Flag individual suspicious transactions
  */
-export function flagSuspiciousTransactions(data: CleanedDataRow[]): FlaggedTransaction[] {
+export function flagSuspiciousTransactions(
+  data: CleanedDataRow[],
+  thresholdAvoidance?: ThresholdAvoidanceResult,
+  profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE,
+  customRules: CompiledCustomRule[] = [],
+  robustOutliers?: RobustOutlierResult
+): FlaggedTransaction[] {
   const flagged: FlaggedTransaction[] = [];
   
   // Calculate overall statistics for comparison
   const amounts = data.map(d => d.amount);
   const overallFreqs = calculateDigitFrequencies(amounts);
   const avgAmount = amounts.reduce((sum, amt) => sum + amt, 0) / amounts.length;
-  const medianAmount = amounts.sort((a, b) => a - b)[Math.floor(amounts.length / 2)];
+  const medianAmount = [...amounts].sort((a, b) => a - b)[Math.floor(amounts.length / 2)];
+  
+  // Count identical amounts per vendor once, for Flag 5
+  const vendorAmountCounts = new Map<string, number>();
+  data.forEach(row => {
+    if (!row.vendor) return;
+    const key = `${row.vendor}|${row.amount}`;
+    vendorAmountCounts.set(key, (vendorAmountCounts.get(key) ?? 0) + 1);
+  });
+  
+  // Clustered limit each row sits just below, and the split purchase it belongs to
+  const belowLimit = new Map<number, ApprovalLimitCluster>();
+  thresholdAvoidance?.clusters
+    .filter(cluster => cluster.isClustered)
+    .forEach(cluster => cluster.rowIndices.forEach(index => belowLimit.set(index, cluster)));
+  const splitPurchase = new Map<number, SplitPurchase>();
+  thresholdAvoidance?.splitPurchases.forEach(split => {
+    split.rowIndices.forEach(index => splitPurchase.set(index, split));
+  });
+  
+  // Vendors with a baseline of their own, and each row's outliers, for Flags 1 and 8
+  const vendorsWithBaseline = new Set(
+    robustOutliers?.baselines.filter(baseline => baseline.groupType === 'vendor').map(baseline => baseline.group)
+  );
+  const outliersByRow = new Map<number, RobustOutlier[]>();
+  robustOutliers?.outliers.forEach(outlier => {
+    outliersByRow.set(outlier.index, [...(outliersByRow.get(outlier.index) ?? []), outlier]);
+  });
   
   data.forEach((row, index) => {
     const firstDigit = extractFirstDigit(row.amount);
     if (!firstDigit) return;
     
-    const reasons: string[] = [];
-    let riskLevel: 'medium' | 'high' | 'critical' = 'medium';
+    const ruleHits: RuleHit[] = [];
     
-    // Flag 1: Unusually high amounts (outliers)
-    if (row.amount > avgAmount * 10 || row.amount > medianAmount * 50) {
-      reasons.push('Unusually high amount');
-      riskLevel = 'high';
+    // Flag 1: Unusually high amounts (outliers). A vendor with a baseline of its
+    // own is judged against it instead (Flag 8), so large regular payments to
+    // a big supplier are not flagged against the global average
+    const hasVendorBaseline = !!row.vendor && vendorsWithBaseline.has(row.vendor.trim());
+    if (!hasVendorBaseline && (row.amount > avgAmount * profile.outlierAverageMultiple || row.amount > medianAmount * profile.outlierMedianMultiple)) {
+      ruleHits.push(createRuleHit('high_amount', 'Unusually high amount', {
+        amount: row.amount,
+        average: avgAmount,
+        median: medianAmount,
+        averageMultiple: profile.outlierAverageMultiple,
+        medianMultiple: profile.outlierMedianMultiple,
+      }));
     }
     
     // Flag 2: Round numbers in high amounts
     if (row.amount > 1000 && (row.amount % 100 === 0 || row.amount % 1000 === 0)) {
-      reasons.push('Large round number');
-      riskLevel = 'medium';
+      ruleHits.push(createRuleHit('round_number', 'Large round number', {
+        amount: row.amount,
+        roundTo: row.amount % 1000 === 0 ? 1000 : 100,
+      }));
     }
     
     // Flag 3: Amounts starting with rare digits in suspicious patterns
     const digitFreq = overallFreqs.find(f => f.digit === firstDigit);
     if (digitFreq && digitFreq.observed > digitFreq.expected * 2) {
-      reasons.push(`Overrepresented first digit (${firstDigit})`);
-      riskLevel = 'high';
+      ruleHits.push(createRuleHit('overrepresented_digit', `Overrepresented first digit (${firstDigit})`, {
+        digit: firstDigit,
+        observedPercent: digitFreq.observed,
+        expectedPercent: digitFreq.expected,
+      }));
     }
     
     // Flag 4: Specific suspicious patterns
-    if (firstDigit >= 7 && row.amount > 5000) {
-      reasons.push('High amount with suspicious first digit');
-      riskLevel = 'high';
+    if (firstDigit >= 7 && row.amount > profile.highAmountThreshold) {
+      ruleHits.push(createRuleHit('high_digit_amount', 'High amount with suspicious first digit', {
+        digit: firstDigit,
+        amount: row.amount,
+        threshold: profile.highAmountThreshold,
+      }));
     }
     
     // Flag 5: Duplicate amounts from same vendor
     if (row.vendor) {
-      const duplicates = data.filter(d => 
-        d.vendor === row.vendor && 
-        d.amount === row.amount
-      );
-      if (duplicates.length > 3) {
-        reasons.push('Multiple identical amounts from same vendor');
-        riskLevel = 'critical';
+      const duplicates = vendorAmountCounts.get(`${row.vendor}|${row.amount}`) ?? 0;
+      if (duplicates > 3) {
+        ruleHits.push(createRuleHit('duplicate_amount', 'Multiple identical amounts from same vendor', {
+          vendor: row.vendor,
+          amount: row.amount,
+          occurrences: duplicates,
+        }));
       }
     }
     
-    if (reasons.length > 0) {
+    // Flag 6: Amount clustered just below an approval limit
+    const cluster = belowLimit.get(index);
+    if (cluster) {
+      ruleHits.push(createRuleHit('below_approval_limit', `Just below ${formatLimit(cluster.limit)} approval limit`, {
+        limit: cluster.limit,
+        bandFloor: cluster.bandFloor,
+        justBelowCount: cluster.justBelowCount,
+        justAboveCount: cluster.justAboveCount,
+      }));
+    }
+    
+    // Flag 7: Part of a purchase split to stay under an approval limit
+    const split = splitPurchase.get(index);
+    if (split) {
+      ruleHits.push(createRuleHit('split_purchase', `Possible split purchase crossing ${formatLimit(split.limit)} approval limit`, {
+        limit: split.limit,
+        total: split.total,
+        parts: split.rowIndices.length,
+        firstDate: split.firstDate,
+        lastDate: split.lastDate,
+      }));
+    }
+    
+    // Flag 8: Far above the vendor's or category's own baseline
+    outliersByRow.get(index)?.forEach(({ baseline, modifiedZ, logZ, methods }) => {
+      ruleHits.push(createRuleHit(
+        baseline.groupType === 'vendor' ? 'vendor_outlier' : 'category_outlier',
+        `Outlier for ${baseline.groupType} ${baseline.group} (typical $${baseline.median.toLocaleString(undefined, { maximumFractionDigits: 2 })})`,
+        {
+          [baseline.groupType]: baseline.group,
+          amount: row.amount,
+          median: baseline.median,
+          q1: baseline.q1,
+          q3: baseline.q3,
+          upperFence: baseline.upperFence,
+          modifiedZ,
+          logZ,
+          methods: methods.map(getOutlierMethodLabel).join(' + '),
+        }
+      ));
+    });
+    
+    // Flag 9: User-defined rules
+    customRules.forEach(({ rule, matches }) => {
+      if (!matches(row)) return;
+      ruleHits.push(createRuleHit('custom_rule', `Custom rule: ${rule.name}`, {
+        rule: rule.name,
+        expression: rule.expression,
+        severity: rule.severity,
+      }, CUSTOM_RULE_WEIGHTS[rule.severity]));
+    });
+    
+    if (ruleHits.length > 0) {
+      const score = calculateRiskScore(ruleHits);
       flagged.push({
         index,
         amount: row.amount,
         vendor: row.vendor,
+        transactionType: row.transactionType,
         firstDigit,
-        reason: reasons.join('; '),
-        riskLevel,
+        reason: ruleHits.map(hit => hit.description).join('; '),
+        ruleHits,
+        score,
+        riskLevel: getRiskLevelForScore(score),
       });
     }
   });
   
-  // Sort by risk level and amount
-  return flagged.sort((a, b) => {
-    const riskOrder = { critical: 3, high: 2, medium: 1 };
-    const aRisk = riskOrder[a.riskLevel];
-    const bRisk = riskOrder[b.riskLevel];
-    
-    if (aRisk !== bRisk) return bRisk - aRisk;
-    return b.amount - a.amount;
-  }).slice(0, 50); // Limit to top 50 flagged transactions
+  // Sort by composite score, then amount
+  return flagged
+    .sort((a, b) => b.score - a.score || b.amount - a.amount)
+    .slice(0, profile.maxFlaggedTransactions); // Keep the highest-risk flags only
 }
 
 /**
- * Main Benford's Law analysis function
+ * Main Benford's Law analysis function. `onProgress` is called as each stage
+ * (digits, vendors, flags) starts, so a worker can report real progress.
  */
-export function performBenfordAnalysis(dataset: ProcessedDataset): BenfordResult {
-  const { data } = dataset;
+export function performBenfordAnalysis(
+  dataset: ProcessedDataset,
+  options: AnalysisOptions = {},
+  onProgress?: (progress: AnalysisProgress) => void
+): BenfordResult {
+  const profile = normalizeAnalysisProfile(options.profile);
+  onProgress?.({ stage: 'digits', percent: 0, message: 'Normalizing vendor names' });
+  
+  // Fold vendor name variants into one vendor before anything groups on vendor
+  const duplicateVendors = resolveDuplicateVendors(dataset.data, dataset.vendorMergeMap);
+  const data = applyVendorMergeMap(dataset.data, duplicateVendors.mergeMap);
+  const credits = applyVendorMergeMap(dataset.credits ?? [], duplicateVendors.mergeMap);
+  
+  onProgress?.({ stage: 'digits', percent: 5, message: 'Extracting first digits' });
   const amounts = data.map(d => d.amount);
   const warnings: string[] = [];
   
@@ -353,37 +1137,185 @@ export function performBenfordAnalysis(dataset: ProcessedDataset): BenfordResult
   
   // Calculate deviation metrics
   const mad = calculateMAD(digitFrequencies);
-  const chiSquare = calculateChiSquare(digitFrequencies, totalAnalyzed);
-  const { assessment: overallAssessment, riskLevel } = assessCompliance(mad);
+  const goodnessOfFit = calculateGoodnessOfFit(digitFrequencies, totalAnalyzed);
+  const { assessment: overallAssessment, riskLevel, conformity } = assessCompliance(mad, 'first_digit');
+  
+  // Second digit test
+  onProgress?.({ stage: 'digits', percent: 15, message: 'Running second, first-two and last-two digit tests' });
+  const secondDigitTest = performSecondDigitTest(amounts);
+  
+  // First-two digits test
+  const firstTwoDigitsTest = performFirstTwoDigitsTest(amounts);
+  
+  // Last-two digits test
+  const lastTwoDigitsTest = performLastTwoDigitsTest(amounts);
+  
+  // Summation test
+  onProgress?.({ stage: 'digits', percent: 30, message: 'Running summation and number duplication tests' });
+  const summationTest = performSummationTest(data);
+  
+  // Number duplication test
+  const numberDuplication = performNumberDuplicationTest(data);
+  
+  // Duplicate payments
+  onProgress?.({ stage: 'vendors', percent: 40, message: 'Grouping payments by vendor, amount and date' });
+  const duplicatePayments = detectDuplicatePayments(data);
+  
+  // Time-window drift
+  const temporalDrift = analyzeTemporalDrift(data);
+  
+  // Approval limit avoidance
+  const thresholdAvoidance = detectThresholdAvoidance(data, options.approvalLimits);
+  
+  // Outliers against each vendor's and category's own baseline
+  const robustOutliers = detectRobustOutliers(data, profile);
   
   // Analyze vendors
-  const suspiciousVendors = analyzeVendors(data);
+  onProgress?.({ stage: 'vendors', percent: 60, message: 'Analyzing vendors and categories' });
+  const suspiciousVendors = analyzeVendors(data, thresholdAvoidance, profile);
+  
+  // Analyze categories
+  const categoryAnalysis = analyzeCategories(data, thresholdAvoidance, profile);
   
   // Flag suspicious transactions
-  const flaggedTransactions = flagSuspiciousTransactions(data);
+  onProgress?.({ stage: 'flags', percent: 75, message: 'Flagging suspicious transactions' });
+  const customRules = compileCustomRules(options.customRules);
+  warnings.push(...customRules.errors);
+  const flaggedTransactions = flagSuspiciousTransactions(data, thresholdAvoidance, profile, customRules.compiled, robustOutliers);
+  
+  // Credits, refunds and reversals as their own stream
+  const creditAnalysis = analyzeCredits(credits, data, profile);
+  
+  // Each original currency on its own
+  const currencyAnalysis = analyzeCurrencies(data, dataset.currencyConversion);
   
   // Additional warnings
-  if (mad > 0.022) {
+  if (conformity.level === 'nonconformity') {
     warnings.push('Data shows significant deviation from Benford\'s Law. Consider investigating further.');
   }
   
+  if (secondDigitTest.totalAnalyzed > 0 && secondDigitTest.conformity.level === 'nonconformity') {
+    warnings.push('Second digit distribution deviates significantly from Benford\'s Law.');
+  }
+  
+  const firstTwoDigitSpikes = firstTwoDigitsTest.digitFrequencies.filter(
+    freq => freq.observed > freq.expected && freq.significance === 'significant_99'
+  );
+  if (firstTwoDigitSpikes.length > 0) {
+    warnings.push(`First-two digit spikes at ${firstTwoDigitSpikes.map(f => f.digit).join(', ')} are significant at the 99% level.`);
+  }
+  
+  if (lastTwoDigitsTest.overrepresentedEndings.length > 0) {
+    warnings.push(`Amounts ending in ${lastTwoDigitsTest.overrepresentedEndings.slice(0, 5).map(f => formatEnding(f.digit)).join(', ')} are over-represented, which suggests invented or rounded numbers.`);
+  }
+  
+  const mostFrequentAmount = numberDuplication.topAmounts[0];
+  if (mostFrequentAmount && mostFrequentAmount.share >= 1 && mostFrequentAmount.count >= 5) {
+    warnings.push(`Number duplication: the amount ${mostFrequentAmount.amount.toFixed(2)} appears ${mostFrequentAmount.count} times (${mostFrequentAmount.share.toFixed(1)}% of transactions).`);
+  }
+  
+  if (duplicatePayments.exactCount > 0 || duplicatePayments.nearSameVendorCount > 0) {
+    warnings.push(`Possible duplicate payments: ${duplicatePayments.exactCount} exact and ${duplicatePayments.nearSameVendorCount} near-duplicate groups (potential recovery $${duplicatePayments.potentialRecovery.toLocaleString(undefined, { maximumFractionDigits: 2 })}).`);
+  }
+  
+  thresholdAvoidance.clusters
+    .filter(cluster => cluster.isClustered)
+    .forEach(cluster => {
+      warnings.push(`${cluster.justBelowCount} amounts fall just below the ${formatLimit(cluster.limit)} approval limit, against ${cluster.justAboveCount} just above it.`);
+    });
+  
+  if (thresholdAvoidance.splitPurchases.length > 0) {
+    warnings.push(`${thresholdAvoidance.splitPurchases.length} possible split purchases cross an approval limit in pieces.`);
+  }
+  
+  const unmergedVendorGroups = duplicateVendors.groups.filter(group => !group.merged);
+  if (unmergedVendorGroups.length > 0) {
+    warnings.push(`${unmergedVendorGroups.length} sets of near-identical vendor names may be duplicate vendor records, e.g. ${unmergedVendorGroups.slice(0, 3).map(group => group.variants.map(variant => `"${variant.name}"`).join(' / ')).join('; ')}.`);
+  }
+  
+  const outlierVendors = new Set(
+    robustOutliers.outliers.filter(outlier => outlier.baseline.groupType === 'vendor').map(outlier => outlier.baseline.group)
+  );
+  if (outlierVendors.size > 0) {
+    warnings.push(`${outlierVendors.size} vendor${outlierVendors.size === 1 ? ' has' : 's have'} payments far above their own typical amounts: ${Array.from(outlierVendors).slice(0, 5).join(', ')}.`);
+  }
+  
+  const knownCurrencies = currencyAnalysis.currencies.filter(breakdown => breakdown.currency !== UNKNOWN_CURRENCY);
+  if (knownCurrencies.length > 1 && !currencyAnalysis.reportingCurrency) {
+    warnings.push(`Amounts in ${knownCurrencies.map(breakdown => breakdown.currency).join(', ')} are mixed without conversion, so the overall tests compare unlike amounts. Apply an exchange-rate table; the per-currency tests are unaffected.`);
+  }
+  
+  if (dataset.currencyConversion && dataset.currencyConversion.unconvertedRows > 0) {
+    warnings.push(`${dataset.currencyConversion.unconvertedRows} rows in ${dataset.currencyConversion.missingCurrencies.join(', ')} have no exchange rate and were left out of the analysis.`);
+  }
+  
+  currencyAnalysis.currencies
+    .filter(breakdown => breakdown.firstDigitTest.totalAnalyzed >= 50 && breakdown.firstDigitTest.conformity.level === 'nonconformity')
+    .forEach(breakdown => {
+      warnings.push(`${breakdown.currency} amounts deviate significantly from Benford's Law on their own.`);
+    });
+  
+  if (creditAnalysis.unmatchedRefundCount > 0) {
+    warnings.push(`${creditAnalysis.unmatchedRefundCount} refund${creditAnalysis.unmatchedRefundCount === 1 ? ' has' : 's have'} no original payment from the same vendor.`);
+  }
+  
+  const highRefundVendors = creditAnalysis.vendorRatios.filter(ratio => ratio.isHigh);
+  if (highRefundVendors.length > 0) {
+    warnings.push(`${highRefundVendors.length} vendor${highRefundVendors.length === 1 ? ' has' : 's have'} refunds above ${profile.refundRatioPercent}% of payments: ${highRefundVendors.slice(0, 5).map(ratio => ratio.vendor).join(', ')}.`);
+  }
+  
+  if (creditAnalysis.benfordTest && creditAnalysis.benfordTest.totalAnalyzed >= 50 && creditAnalysis.benfordTest.conformity.level === 'nonconformity') {
+    warnings.push('Credit and refund amounts deviate significantly from Benford\'s Law.');
+  }
+  
+  if (summationTest.spikes.length > 0) {
+    warnings.push(`Summation test: amounts starting with ${summationTest.spikes.slice(0, 5).map(bin => bin.digits).join(', ')} hold an outsized share of the total value.`);
+  }
+  
+  if (temporalDrift?.monthly.firstBreakdown) {
+    const breakdowns = temporalDrift.monthly.periods.filter(period => period.isBreakdown);
+    warnings.push(`First-digit conformity breaks down in ${breakdowns.length} month${breakdowns.length === 1 ? '' : 's'}, starting ${temporalDrift.monthly.firstBreakdown}.`);
+  }
+  
   if (suspiciousVendors.length > 0) {
     warnings.push(`${suspiciousVendors.length} vendors show suspicious patterns.`);
   }
   
+  const riskyCategories = categoryAnalysis.filter(c => c.riskLevel === 'high' || c.riskLevel === 'critical');
+  if (riskyCategories.length > 0) {
+    warnings.push(`Categories deviating from Benford's Law: ${riskyCategories.slice(0, 5).map(c => c.category).join(', ')}.`);
+  }
+  
   if (flaggedTransactions.length > data.length * 0.1) {
     warnings.push('High number of flagged transactions detected.');
   }
   
+  onProgress?.({ stage: 'flags', percent: 100, message: 'Analysis complete' });
+  
   return {
     totalAnalyzed,
     digitFrequencies,
-    chiSquare,
+    ...goodnessOfFit,
     mad,
+    conformity,
     overallAssessment,
     riskLevel,
+    secondDigitTest,
+    firstTwoDigitsTest,
+    lastTwoDigitsTest,
+    summationTest,
+    numberDuplication,
+    duplicatePayments,
+    thresholdAvoidance,
+    robustOutliers,
+    duplicateVendors,
+    creditAnalysis,
+    currencyAnalysis,
     suspiciousVendors,
+    categoryAnalysis,
+    temporalDrift,
     flaggedTransactions,
     warnings,
+    profile,
   };
 }
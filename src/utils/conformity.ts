@@ -0,0 +1,131 @@
+// Benford Conformity Assessment
+// Computes MAD in proportions and applies each digit test's published threshold table
+
+import type {
+  BenfordDigitTestType,
+  BenfordResult,
+  ConformityAssessment,
+  ConformityLevel,
+  ConformityThresholds,
+  DigitFrequency,
+} from '../types';
+
+// MAD conformity ranges per digit test (Nigrini, 2012). The severe cut-off is
+// ExpenseAudit's own escalation point: the long-standing 0.022 for the first digit
+// test, and 1.5x the nonconformity boundary for the others.
+export const CONFORMITY_THRESHOLDS: Record<BenfordDigitTestType, ConformityThresholds> = {
+  first_digit: {
+    close: 0.006,
+    acceptable: 0.012,
+    marginal: 0.015,
+    severe: 0.022,
+    source: 'Nigrini (2012), first digit test',
+  },
+  second_digit: {
+    close: 0.008,
+    acceptable: 0.010,
+    marginal: 0.012,
+    severe: 0.018,
+    source: 'Nigrini (2012), second digit test',
+  },
+  first_two_digits: {
+    close: 0.0012,
+    acceptable: 0.0018,
+    marginal: 0.0022,
+    severe: 0.0033,
+    source: 'Nigrini (2012), first-two digits test',
+  },
+};
+
+// Chi-square p-values below which a uniform digit test is flagged
+const UNIFORMITY_P_VALUES = { acceptable: 0.05, marginal: 0.01, severe: 0.001 };
+
+/**
+ * Calculate Mean Absolute Deviation (MAD) as a proportion.
+ * Frequencies store percentages, so deviations are scaled back to 0-1.
+ */
+export function calculateMAD(frequencies: DigitFrequency[]): number {
+  if (frequencies.length === 0) {
+    return 0;
+  }
+  const totalDeviation = frequencies.reduce((sum, freq) => sum + freq.deviation / 100, 0);
+  return totalDeviation / frequencies.length;
+}
+
+/**
+ * Place a MAD value in the conformity range of a digit test
+ */
+export function assessConformity(mad: number, testType: BenfordDigitTestType): ConformityAssessment {
+  const thresholds = CONFORMITY_THRESHOLDS[testType];
+  let level: ConformityLevel;
+
+  if (mad < thresholds.close) {
+    level = 'close';
+  } else if (mad < thresholds.acceptable) {
+    level = 'acceptable';
+  } else if (mad < thresholds.marginal) {
+    level = 'marginal';
+  } else {
+    level = 'nonconformity';
+  }
+
+  return { level, thresholds };
+}
+
+/**
+ * Translate a conformity assessment into the app's assessment and risk level
+ */
+export function assessCompliance(mad: number, testType: BenfordDigitTestType = 'first_digit'): {
+  assessment: BenfordResult['overallAssessment'];
+  riskLevel: BenfordResult['riskLevel'];
+  conformity: ConformityAssessment;
+} {
+  const conformity = assessConformity(mad, testType);
+
+  switch (conformity.level) {
+    case 'close':
+      return { assessment: 'compliant', riskLevel: 'low', conformity };
+    case 'acceptable':
+      return { assessment: 'acceptable', riskLevel: 'low', conformity };
+    case 'marginal':
+      return { assessment: 'acceptable', riskLevel: 'medium', conformity };
+    case 'nonconformity':
+      return mad < conformity.thresholds.severe
+        ? { assessment: 'suspicious', riskLevel: 'high', conformity }
+        : { assessment: 'highly_suspicious', riskLevel: 'critical', conformity };
+  }
+}
+
+/**
+ * Assessment and risk level of a test against a uniform distribution, such as
+ * the last-two digits test. MAD ranges exist only for Benford's distribution,
+ * so the chi-square p-value decides.
+ */
+export function assessUniformity(pValue: number): {
+  assessment: BenfordResult['overallAssessment'];
+  riskLevel: BenfordResult['riskLevel'];
+} {
+  if (pValue >= UNIFORMITY_P_VALUES.acceptable) return { assessment: 'compliant', riskLevel: 'low' };
+  if (pValue >= UNIFORMITY_P_VALUES.marginal) return { assessment: 'acceptable', riskLevel: 'medium' };
+  if (pValue >= UNIFORMITY_P_VALUES.severe) return { assessment: 'suspicious', riskLevel: 'high' };
+  return { assessment: 'highly_suspicious', riskLevel: 'critical' };
+}
+
+/**
+ * Describe a conformity level in the wording used by Nigrini
+ */
+export function getConformityLabel(level: ConformityLevel): string {
+  switch (level) {
+    case 'close': return 'Close conformity';
+    case 'acceptable': return 'Acceptable conformity';
+    case 'marginal': return 'Marginally acceptable conformity';
+    case 'nonconformity': return 'Nonconformity';
+  }
+}
+
+/**
+ * Describe the threshold table used, for citation in reports
+ */
+export function describeThresholds(thresholds: ConformityThresholds): string {
+  return `close < ${thresholds.close}, acceptable < ${thresholds.acceptable}, marginal < ${thresholds.marginal}, nonconformity ≥ ${thresholds.marginal} (${thresholds.source})`;
+}
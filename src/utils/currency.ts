@@ -0,0 +1,250 @@
+// Currency Handling
+// Detects the currency of each amount and converts amounts to a reporting
+// currency with a user-supplied exchange-rate table
+
+import Papa from 'papaparse';
+import type {
+  CleanedDataRow,
+  ExchangeRate,
+  ExchangeRateTable,
+  ProcessedDataset,
+} from '../types';
+import { formatDay, toDayNumber } from './dateUtils';
+
+// Currency symbols, longest first so "US$" is read before "$". A bare "$" is
+// taken as USD and "¥" as JPY; use a currency column or ISO codes otherwise.
+export const CURRENCY_SYMBOLS: [string, string][] = [
+  ['US$', 'USD'], ['NZ$', 'NZD'], ['HK$', 'HKD'], ['C$', 'CAD'], ['A$', 'AUD'], ['S$', 'SGD'], ['R$', 'BRL'],
+  ['₹', 'INR'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₩', 'KRW'], ['₽', 'RUB'], ['₺', 'TRY'],
+  ['₫', 'VND'], ['฿', 'THB'], ['₱', 'PHP'], ['₪', 'ILS'], ['$', 'USD'],
+];
+
+// ISO 4217 codes recognized inside amounts, e.g. "EUR 1,234.50" or "5000 INR"
+export const CURRENCY_CODES = new Set([
+  'AED', 'AUD', 'BRL', 'CAD', 'CHF', 'CNY', 'CZK', 'DKK', 'EUR', 'GBP', 'HKD', 'HUF', 'IDR', 'ILS',
+  'INR', 'JPY', 'KRW', 'MXN', 'MYR', 'NOK', 'NZD', 'PHP', 'PKR', 'PLN', 'RUB', 'SAR', 'SEK', 'SGD',
+  'THB', 'TRY', 'TWD', 'USD', 'VND', 'ZAR',
+]);
+
+// Label for rows whose currency could not be determined
+export const UNKNOWN_CURRENCY = 'Unknown';
+
+const CODE_PATTERN = /^\s*([A-Za-z]{3})(?![A-Za-z])|(?<![A-Za-z])([A-Za-z]{3})\s*$/;
+
+/**
+ * Currency named by a symbol or ISO code in an amount such as "€1.234" or "1,234 INR"
+ */
+export function detectCurrency(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+
+  const text = value.replace(/[()]/g, ''); // "(USD 500)" is a negative amount
+  const match = text.match(CODE_PATTERN);
+  const code = (match?.[1] ?? match?.[2])?.toUpperCase();
+  if (code && CURRENCY_CODES.has(code)) return code;
+
+  return CURRENCY_SYMBOLS.find(([symbol]) => text.includes(symbol))?.[1];
+}
+
+/**
+ * Remove currency symbols and a leading or trailing ISO code from an amount
+ */
+export function stripCurrency(value: string): string {
+  let stripped = value.replace(CODE_PATTERN, (code) => (CURRENCY_CODES.has(code.trim().toUpperCase()) ? '' : code));
+  CURRENCY_SYMBOLS.forEach(([symbol]) => {
+    stripped = stripped.split(symbol).join('');
+  });
+  return stripped;
+}
+
+/**
+ * Read a currency column value: an ISO code in any case, or a symbol
+ */
+export function normalizeCurrencyCode(value: unknown): string | undefined {
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  if (/^[A-Za-z]{3}$/.test(text)) return text.toUpperCase();
+  return CURRENCY_SYMBOLS.find(([symbol]) => text === symbol)?.[1];
+}
+
+/**
+ * Parse an exchange-rate CSV with date, currency and rate columns. Throws an
+ * Error listing every invalid line.
+ */
+export function parseExchangeRatesCsv(text: string): ExchangeRate[] {
+  const { data, meta } = Papa.parse<Record<string, string>>(text.trim(), {
+    header: true,
+    skipEmptyLines: true,
+    transformHeader: (header) => header.trim().toLowerCase(),
+  });
+
+  const missingColumns = ['date', 'currency', 'rate'].filter(column => !meta.fields?.includes(column));
+  if (missingColumns.length > 0) {
+    throw new Error(`Exchange-rate file is missing the ${missingColumns.join(', ')} column${missingColumns.length === 1 ? '' : 's'}`);
+  }
+
+  const rates: ExchangeRate[] = [];
+  const problems: string[] = [];
+  data.forEach((row, index) => {
+    const line = index + 2; // after the header
+    const day = toDayNumber(row.date?.trim());
+    const currency = normalizeCurrencyCode(row.currency);
+    const rate = Number(row.rate?.trim());
+
+    if (day === null) problems.push(`Line ${line}: invalid date "${row.date ?? ''}"`);
+    if (!currency) problems.push(`Line ${line}: invalid currency "${row.currency ?? ''}"`);
+    if (!(rate > 0) || !isFinite(rate)) problems.push(`Line ${line}: rate must be a positive number`);
+    if (day !== null && currency && rate > 0 && isFinite(rate)) {
+      rates.push({ date: formatDay(day), currency, rate });
+    }
+  });
+
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+  if (rates.length === 0) {
+    throw new Error('Exchange-rate file has no rates');
+  }
+  return rates;
+}
+
+/**
+ * Rate lookup by currency. A row takes the latest rate on or before its date,
+ * or the earliest rate when it predates the table; undated rows take the latest.
+ */
+function createRateLookup(rates: ExchangeRate[]): (currency: string, date?: Date) => number | null {
+  const byCurrency = new Map<string, { day: number; rate: number }[]>();
+  rates.forEach(({ date, currency, rate }) => {
+    const day = toDayNumber(date)!;
+    const series = byCurrency.get(currency);
+    if (series) {
+      series.push({ day, rate });
+    } else {
+      byCurrency.set(currency, [{ day, rate }]);
+    }
+  });
+  byCurrency.forEach(series => series.sort((a, b) => a.day - b.day));
+
+  return (currency, date) => {
+    const series = byCurrency.get(currency);
+    if (!series) return null;
+    const day = toDayNumber(date);
+    if (day === null) return series[series.length - 1].rate;
+
+    let low = 0;
+    let high = series.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (series[mid].day <= day) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+    return series[Math.max(found, 0)].rate;
+  };
+}
+
+/**
+ * Re-quote a rate table in another reporting currency. Each rate is divided
+ * by the new currency's rate on the same date, and the old reporting currency
+ * gets the inverse of that rate. Throws when the table has no rates for the
+ * new currency.
+ */
+export function rebaseExchangeRates(table: ExchangeRateTable, reportingCurrency: string): ExchangeRateTable {
+  const target = reportingCurrency.toUpperCase();
+  const source = table.reportingCurrency.toUpperCase();
+  if (target === source) return table;
+
+  const lookupRate = createRateLookup(table.rates);
+  const targetRates = table.rates.filter(rate => rate.currency === target);
+  if (targetRates.length === 0) {
+    throw new Error(`The exchange-rate table has no ${target} rate, so amounts cannot be converted to ${target}. Upload rates quoted in ${target}.`);
+  }
+
+  const rates = table.rates
+    .filter(rate => rate.currency !== target)
+    .map(rate => ({ ...rate, rate: rate.rate / lookupRate(target, new Date(rate.date))! }));
+  targetRates.forEach(rate => rates.push({ date: rate.date, currency: source, rate: 1 / rate.rate }));
+
+  return { reportingCurrency: target, rates };
+}
+
+/**
+ * Restore a row's amount in its own currency
+ */
+function toOriginal(row: CleanedDataRow): CleanedDataRow {
+  if (row.originalAmount === undefined) return row;
+  const { originalAmount, ...rest } = row;
+  return { ...rest, amount: originalAmount };
+}
+
+/**
+ * Convert a dataset to the reporting currency, or back to original amounts
+ * when `table` is null. Rows without a currency are taken to be in the
+ * reporting currency; rows in a currency with no rate move to `unconverted`.
+ * Can be applied again with a different table.
+ */
+export function applyExchangeRates(dataset: ProcessedDataset, table: ExchangeRateTable | null): ProcessedDataset {
+  const rows = [...dataset.data, ...(dataset.credits ?? []), ...(dataset.unconverted ?? [])].map(toOriginal);
+
+  if (!table) {
+    return {
+      ...dataset,
+      data: rows.filter(row => row.amount > 0),
+      credits: rows.filter(row => row.amount < 0),
+      unconverted: undefined,
+      currencyConversion: undefined,
+    };
+  }
+
+  const reportingCurrency = table.reportingCurrency.toUpperCase();
+  const lookupRate = createRateLookup(table.rates);
+  const data: CleanedDataRow[] = [];
+  const credits: CleanedDataRow[] = [];
+  const unconverted: CleanedDataRow[] = [];
+  const missingCurrencies = new Set<string>();
+  let convertedRows = 0;
+
+  rows.forEach(row => {
+    let converted = row;
+    if (row.currency && row.currency !== reportingCurrency) {
+      const rate = lookupRate(row.currency, row.date);
+      if (rate === null) {
+        missingCurrencies.add(row.currency);
+        unconverted.push(row);
+        return;
+      }
+      converted = { ...row, amount: row.amount * rate, originalAmount: row.amount };
+      convertedRows++;
+    }
+    (converted.amount > 0 ? data : credits).push(converted);
+  });
+
+  return {
+    ...dataset,
+    data,
+    credits,
+    unconverted,
+    currencyConversion: {
+      reportingCurrency,
+      rates: table.rates,
+      convertedRows,
+      unconvertedRows: unconverted.length,
+      missingCurrencies: Array.from(missingCurrencies).sort(),
+    },
+  };
+}
+
+/**
+ * Count rows per currency, most common first
+ */
+export function countCurrencies(rows: CleanedDataRow[]): { currency: string; count: number }[] {
+  const counts = new Map<string, number>();
+  rows.forEach(row => {
+    const currency = row.currency ?? UNKNOWN_CURRENCY;
+    counts.set(currency, (counts.get(currency) ?? 0) + 1);
+  });
+  return Array.from(counts, ([currency, count]) => ({ currency, count })).sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,93 @@
+// Custom Rules
+// Compile, import and export user-defined detection rules
+
+import type { CustomRule, CustomRuleSeverity } from '../types';
+import { compileRuleExpression, validateRuleExpression, type RulePredicate } from './ruleExpression';
+
+export const CUSTOM_RULE_SEVERITIES: CustomRuleSeverity[] = ['medium', 'high', 'critical'];
+
+// Version of the JSON file written by exportCustomRulesJson
+const CUSTOM_RULES_FILE_VERSION = 1;
+
+export interface CompiledCustomRule {
+  rule: CustomRule;
+  matches: RulePredicate;
+}
+
+/**
+ * Compile the enabled rules once per analysis. Invalid rules are skipped and
+ * reported so one bad rule cannot stop an analysis run.
+ */
+export function compileCustomRules(rules: CustomRule[] = []): { compiled: CompiledCustomRule[]; errors: string[] } {
+  const compiled: CompiledCustomRule[] = [];
+  const errors: string[] = [];
+
+  rules
+    .filter(rule => rule.enabled)
+    .forEach(rule => {
+      try {
+        compiled.push({ rule, matches: compileRuleExpression(rule.expression) });
+      } catch (error) {
+        errors.push(`Custom rule "${rule.name}" was skipped: ${error instanceof Error ? error.message : 'invalid rule'}`);
+      }
+    });
+
+  return { compiled, errors };
+}
+
+/**
+ * Serialize rules for sharing; ids are left out so imports never overwrite
+ */
+export function exportCustomRulesJson(rules: CustomRule[]): string {
+  return JSON.stringify({
+    version: CUSTOM_RULES_FILE_VERSION,
+    rules: rules.map(({ name, expression, severity, enabled }) => ({ name, expression, severity, enabled })),
+  }, null, 2);
+}
+
+/**
+ * Read rules from an exported JSON file (or a bare array of rules). Throws an
+ * Error listing every invalid rule, so nothing is imported from a bad file.
+ */
+export function parseCustomRulesJson(text: string): Omit<CustomRule, 'id'>[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON');
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : (parsed as { rules?: unknown } | null)?.rules;
+  if (!Array.isArray(entries)) {
+    throw new Error('Expected a "rules" array');
+  }
+
+  const problems: string[] = [];
+  const rules = entries.map((entry, i) => {
+    const { name, expression, severity, enabled } = (entry ?? {}) as Record<string, unknown>;
+    const label = typeof name === 'string' && name.trim() ? `"${name.trim()}"` : `#${i + 1}`;
+
+    if (typeof name !== 'string' || !name.trim()) problems.push(`Rule ${label}: name is required`);
+    if (typeof expression !== 'string') {
+      problems.push(`Rule ${label}: expression is required`);
+    } else {
+      const error = validateRuleExpression(expression);
+      if (error) problems.push(`Rule ${label}: ${error}`);
+    }
+    if (!CUSTOM_RULE_SEVERITIES.includes(severity as CustomRuleSeverity)) {
+      problems.push(`Rule ${label}: severity must be one of ${CUSTOM_RULE_SEVERITIES.join(', ')}`);
+    }
+
+    return {
+      name: String(name ?? '').trim(),
+      expression: String(expression ?? ''),
+      severity: severity as CustomRuleSeverity,
+      enabled: enabled !== false,
+    };
+  });
+
+  if (problems.length > 0) {
+    throw new Error(problems.join('\n'));
+  }
+  return rules;
+}
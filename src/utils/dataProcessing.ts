@@ -1,6 +1,52 @@
 import Papa from 'papaparse';
-import * as XLSX from 'xlsx';
-import type { RawDataRow, CleanedDataRow, ColumnMapping, ProcessedDataset, FileType } from '../types';
+import { parseBankStatement } from './bankStatements';
+import { extractFirstDigit } from './benfordAnalysis';
+import { detectCurrency, normalizeCurrencyCode, stripCurrency } from './currency';
+import {
+  DEFAULT_DATE_ORDER,
+  classifyDateText,
+  createDateFormatIssues,
+  getDateFormatWarnings,
+  isDateOrderSettled,
+  parseDate,
+  recordDateFormatIssue,
+  resolveDateFormat,
+  type DateFormatIssues,
+} from './dateFormat';
+import { getDefaultSheetSelection, readSheets, readWorkbook, summarizeWorkbook } from './excelWorkbook';
+import {
+  DEFAULT_NUMBER_FORMAT,
+  createNumberFormatIssues,
+  getNumberFormatWarnings,
+  parseLocaleNumber,
+  recordNumberFormatIssue,
+  resolveNumberFormat,
+  type NumberFormatIssues,
+} from './numberFormat';
+import type {
+  RawDataRow,
+  CleanedDataRow,
+  ColumnMapping,
+  DateFormatDetection,
+  DateOrder,
+  NumberFormat,
+  NumberFormatDetection,
+  ProcessedDataset,
+  FileType,
+  StreamingImportProgress,
+  TransactionDirection,
+} from '../types';
+
+// CSV files above this size are imported in chunks instead of being buffered whole
+export const STREAMING_THRESHOLD_BYTES = 50 * 1024 * 1024;
+
+const STREAMING_CHUNK_SIZE = 4 * 1024 * 1024;
+const PREVIEW_ROWS = 20;
+
+interface StreamCsvOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: StreamingImportProgress) => void;
+}
 
 /**
  * Parse different file formats into raw data
@@ -15,6 +61,10 @@ export async function parseFile(file: File): Promise<{ data: RawDataRow[]; colum
       return parseExcelFile(file);
     case 'json':
       return parseJsonFile(file);
+    case 'ofx':
+    case 'qif':
+    case 'camt':
+      return parseBankStatement(file, fileType);
     default:
       throw new Error(`Unsupported file type: ${fileType}`);
   }
@@ -33,6 +83,13 @@ export function getFileType(filename: string): FileType {
       return 'xlsx';
     case 'json':
       return 'json';
+    case 'ofx':
+    case 'qfx':
+      return 'ofx';
+    case 'qif':
+      return 'qif';
+    case 'xml':
+      return 'camt';
     default:
       throw new Error(`Unsupported file extension: ${extension}`);
   }
@@ -62,58 +119,166 @@ async function parseCsvFile(file: File): Promise<{ data: RawDataRow[]; columns:
 }
 
 /**
- * Parse Excel file using SheetJS
+ * Read the header and first rows of a CSV file without loading the rest
  */
-async function parseExcelFile(file: File): Promise<{ data: RawDataRow[]; columns: string[] }> {
+export async function previewCsvFile(file: File): Promise<{ data: RawDataRow[]; columns: string[] }> {
   return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    
-    reader.onload = (e) => {
-      try {
-        const arrayBuffer = new Uint8Array(e.target?.result as ArrayBuffer);
-        const workbook = XLSX.read(arrayBuffer, { type: 'array' });
-        
-        // Use the first sheet
-        const firstSheetName = workbook.SheetNames[0];
-        const worksheet = workbook.Sheets[firstSheetName];
-        
-        // Convert to JSON with header row
-        const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as unknown[][];
-        
-        if (jsonData.length === 0) {
-          reject(new Error('Excel file is empty'));
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      preview: PREVIEW_ROWS,
+      complete: (results) => {
+        resolve({ data: results.data as RawDataRow[], columns: results.meta.fields || [] });
+      },
+      error: (error) => reject(new Error(`CSV parsing failed: ${error.message}`))
+    });
+  });
+}
+
+/**
+ * Parse, clean and validate a CSV file chunk by chunk. Only the mapped fields
+ * of valid rows are kept (no `originalRow`), so memory grows with the cleaned
+ * data rather than the file. Malformed rows are counted as removed instead of
+ * failing the whole import. Rejects with an AbortError when `signal` aborts.
+ */
+export async function streamCsvFile(
+  file: File,
+  columnMapping: ColumnMapping,
+  { signal, onProgress }: StreamCsvOptions = {}
+): Promise<ProcessedDataset> {
+  if (!columnMapping.amount) {
+    return processData([], columnMapping);
+  }
+
+  return new Promise((resolve, reject) => {
+    const cleanedData: CleanedDataRow[] = [];
+    const credits: CleanedDataRow[] = [];
+    const sampleRows: RawDataRow[] = [];
+    const firstDigitCounts = new Array(10).fill(0);
+    let columns: string[] = [];
+    let totalRows = 0;
+    let malformedRows = 0;
+    let detected: { numberFormat: NumberFormatDetection; dateFormat?: DateFormatDetection; formats: RowFormats } | undefined;
+    const numberFormatIssues = createNumberFormatIssues();
+    const dateFormatIssues = createDateFormatIssues();
+    const startedAt = performance.now();
+
+    Papa.parse(file, {
+      header: true,
+      skipEmptyLines: true,
+      chunkSize: STREAMING_CHUNK_SIZE,
+      chunk: (results, parser) => {
+        if (signal?.aborted) {
+          parser.abort();
           return;
         }
-        
-        // First row as headers
-        const columns = (jsonData[0] as string[]).map(col => String(col));
-        
-        // Convert remaining rows to objects
-        const processedData: RawDataRow[] = jsonData.slice(1).map((row: unknown[]) => {
-          const rowObj: RawDataRow = {};
-          columns.forEach((col, index) => {
-            const value = row[index];
-            // Type guard to ensure we only assign valid types
-            if (typeof value === 'string' || typeof value === 'number' || value instanceof Date || value === null || value === undefined) {
-              rowObj[col] = value;
-            } else {
-              rowObj[col] = String(value);
-            }
-          });
-          return rowObj;
+
+        if (columns.length === 0) {
+          columns = results.meta.fields || [];
+        }
+        // Only field-count errors carry a reliable row index within the chunk
+        const malformed = new Set(
+          results.errors.filter(error => error.type === 'FieldMismatch').map(error => error.row)
+        );
+        malformedRows += malformed.size;
+
+        // The first chunk is a large enough sample to infer number and date formats
+        const rows = results.data as RawDataRow[];
+        detected ??= resolveRowFormats(rows, columnMapping);
+        const { formats } = detected;
+
+        rows.forEach((row, index) => {
+          totalRows++;
+          if (malformed.has(index)) return;
+          if (sampleRows.length < PREVIEW_ROWS) {
+            sampleRows.push(row);
+          }
+
+          recordFormatIssues(row, columnMapping, formats, numberFormatIssues, dateFormatIssues);
+          const cleaned = cleanRow(row, columnMapping, formats, false);
+          if (!cleaned) return;
+          if (cleaned.amount < 0) {
+            credits.push(cleaned);
+            return;
+          }
+          cleanedData.push(cleaned);
+
+          const digit = extractFirstDigit(cleaned.amount);
+          if (digit !== null) firstDigitCounts[digit]++;
         });
-        
-        resolve({ data: processedData, columns });
-      } catch (error) {
-        reject(new Error(`Excel parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
-      }
-    };
-    
-    reader.onerror = () => reject(new Error('Failed to read Excel file'));
-    reader.readAsArrayBuffer(file);
+
+        const elapsedSeconds = (performance.now() - startedAt) / 1000;
+        const bytesProcessed = Math.min(results.meta.cursor, file.size);
+        onProgress?.({
+          bytesProcessed,
+          totalBytes: file.size,
+          percent: file.size > 0 ? (bytesProcessed / file.size) * 100 : 100,
+          rowsProcessed: totalRows,
+          validRows: cleanedData.length,
+          rowsPerSecond: elapsedSeconds > 0 ? Math.round(totalRows / elapsedSeconds) : 0,
+          firstDigitCounts: [...firstDigitCounts],
+        });
+      },
+      complete: (results) => {
+        if (results?.meta?.aborted || signal?.aborted) {
+          reject(new DOMException('CSV import was cancelled', 'AbortError'));
+          return;
+        }
+
+        const removedRows = totalRows - cleanedData.length - credits.length;
+        const warnings = getValidationWarnings(cleanedData.length, totalRows, removedRows);
+        if (malformedRows > 0) {
+          warnings.push(`${malformedRows.toLocaleString()} malformed rows could not be parsed and were skipped`);
+        }
+        if (detected) {
+          warnings.push(...getNumberFormatWarnings(numberFormatIssues, detected.numberFormat));
+          if (detected.dateFormat) {
+            warnings.push(...getDateFormatWarnings(dateFormatIssues, detected.dateFormat));
+          }
+        }
+
+        resolve({
+          data: cleanedData,
+          credits,
+          numberFormat: detected?.numberFormat,
+          dateFormat: detected?.dateFormat,
+          validation: {
+            isValid: cleanedData.length >= 10,
+            totalRows,
+            validRows: cleanedData.length,
+            removedRows,
+            creditRows: credits.length,
+            errors: [],
+            warnings
+          },
+          columnMapping,
+          preview: {
+            columns,
+            sampleRows,
+            totalRows
+          }
+        });
+      },
+      error: (error) => reject(new Error(`CSV parsing failed: ${error.message}`))
+    });
   });
 }
 
+/**
+ * Parse Excel file using SheetJS: the visible sheet with the most rows, from
+ * its detected header row
+ */
+async function parseExcelFile(file: File): Promise<{ data: RawDataRow[]; columns: string[] }> {
+  const workbook = await readWorkbook(file);
+  const selection = getDefaultSheetSelection(summarizeWorkbook(workbook));
+  
+  if (selection.length === 0) {
+    throw new Error('Excel file is empty');
+  }
+  
+  return readSheets(workbook, selection);
+}
+
 /**
  * Parse JSON file
  */
@@ -168,6 +333,7 @@ export function autoDetectColumns(columns: string[]): Partial<ColumnMapping> {
   const vendorPatterns = ['vendor', 'supplier', 'company', 'merchant', 'payee', 'from'];
   const datePatterns = ['date', 'time', 'created', 'transaction', 'when'];
   const categoryPatterns = ['category', 'type', 'class', 'department', 'tag'];
+  const currencyPatterns = ['currency', 'ccy'];
   
   columns.forEach(col => {
     const colLower = col.toLowerCase();
@@ -191,69 +357,162 @@ export function autoDetectColumns(columns: string[]): Partial<ColumnMapping> {
     if (!mapping.category && categoryPatterns.some(pattern => colLower.includes(pattern))) {
       mapping.category = col;
     }
+    
+    // Check for currency column
+    if (!mapping.currency && currencyPatterns.some(pattern => colLower.includes(pattern))) {
+      mapping.currency = col;
+    }
   });
   
   return mapping;
 }
 
 /**
- * Clean and validate amount values
+ * Clean and validate amount values, reading text with the given decimal and
+ * grouping separators
  */
-export function cleanAmount(value: unknown): number | null {
+export function cleanAmount(value: unknown, numberFormat: NumberFormat = DEFAULT_NUMBER_FORMAT): number | null {
   if (value === null || value === undefined || value === '') {
     return null;
   }
   
-  // Convert to string for processing
-  let cleanValue = String(value);
+  // Numbers from Excel or JSON carry no separators
+  if (typeof value === 'number') {
+    return isFinite(value) ? value : null;
+  }
   
-  // Remove currency symbols and common formatting
-  cleanValue = cleanValue
-    .replace(/[₹$€£¥,\s]/g, '') // Remove currency symbols and commas
-    .replace(/[()]/g, '') // Remove parentheses
-    .trim();
+  // Remove currency symbols and ISO codes
+  let cleanValue = stripCurrency(String(value).replace(/[()]/g, '')).trim(); // Remove parentheses first so "(USD 500)" is read
   
   // Handle negative values in parentheses format
   if (String(value).includes('(') && String(value).includes(')')) {
     cleanValue = '-' + cleanValue;
   }
   
-  // Try to parse as number
-  const parsed = parseFloat(cleanValue);
+  return parseLocaleNumber(cleanValue, numberFormat);
+}
+
+/**
+ * Clean and validate date values, reading numeric text dates in the given
+ * day-month order and numbers as Excel serial dates
+ */
+export function cleanDate(value: unknown, dateOrder: DateOrder = DEFAULT_DATE_ORDER): Date | null {
+  return parseDate(value, dateOrder);
+}
+
+// How text amounts and dates are read for one import
+interface RowFormats {
+  numberFormat: NumberFormat;
+  dateOrder: DateOrder;
+  flagAmbiguousDates: boolean;
+}
+
+/**
+ * Formats for an import, from the user's choices or a sample of the amount
+ * and date columns
+ */
+function resolveRowFormats(rows: RawDataRow[], columnMapping: ColumnMapping) {
+  const numberFormat = resolveNumberFormat(rows.map(row => row[columnMapping.amount]), columnMapping.numberFormat);
+  const dateColumn = columnMapping.date;
+  const dateFormat = dateColumn
+    ? resolveDateFormat(rows.map(row => row[dateColumn]), columnMapping.dateOrder)
+    : undefined;
+  const formats: RowFormats = {
+    numberFormat: numberFormat.format,
+    dateOrder: dateFormat?.order ?? DEFAULT_DATE_ORDER,
+    flagAmbiguousDates: dateFormat ? !isDateOrderSettled(dateFormat) : false,
+  };
+  return { numberFormat, dateFormat, formats };
+}
+
+/**
+ * Record a row's amount and date format issues for the validation warnings
+ */
+function recordFormatIssues(
+  row: RawDataRow,
+  columnMapping: ColumnMapping,
+  formats: RowFormats,
+  numberFormatIssues: NumberFormatIssues,
+  dateFormatIssues: DateFormatIssues
+) {
+  recordNumberFormatIssue(numberFormatIssues, row[columnMapping.amount], formats.numberFormat);
+  if (columnMapping.date) {
+    recordDateFormatIssue(dateFormatIssues, row[columnMapping.date], formats.dateOrder);
+  }
+}
+
+/**
+ * Read a debit/credit indicator such as "Debit", "DR" or "CRDT"
+ */
+function cleanDirection(value: unknown): TransactionDirection | undefined {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (/^(debit|dbit|dr|d)$/.test(text)) return 'debit';
+  if (/^(credit|crdt|cr|c)$/.test(text)) return 'credit';
+  return undefined;
+}
+
+/**
+ * Clean one raw row with the column mapping. Returns null for rows without a
+ * usable amount; negative amounts are kept for the credit stream.
+ */
+function cleanRow(
+  row: RawDataRow,
+  columnMapping: ColumnMapping,
+  formats: RowFormats,
+  keepOriginalRow: boolean
+): CleanedDataRow | null {
+  // Clean amount (required)
+  const amount = cleanAmount(row[columnMapping.amount], formats.numberFormat);
   
-  if (isNaN(parsed)) {
+  if (amount === null || amount === 0) {
     return null;
   }
   
-  return parsed;
+  // Clean optional fields
+  const vendor = columnMapping.vendor ? String(row[columnMapping.vendor] || '').trim() || undefined : undefined;
+  const dateValue = columnMapping.date ? row[columnMapping.date] : undefined;
+  const date = cleanDate(dateValue, formats.dateOrder) || undefined;
+  const dateAmbiguous = date && formats.flagAmbiguousDates && classifyDateText(dateValue) === 'ambiguous';
+  const category = columnMapping.category ? String(row[columnMapping.category] || '').trim() || undefined : undefined;
+  const currency = (columnMapping.currency ? normalizeCurrencyCode(row[columnMapping.currency]) : undefined) ??
+    detectCurrency(row[columnMapping.amount]);
+  const transactionType = columnMapping.transactionType
+    ? String(row[columnMapping.transactionType] || '').trim() || undefined
+    : undefined;
+  const direction = columnMapping.direction ? cleanDirection(row[columnMapping.direction]) : undefined;
+  
+  return {
+    amount,
+    vendor,
+    date,
+    ...(dateAmbiguous && { dateAmbiguous }),
+    category,
+    ...(currency && { currency }),
+    ...(transactionType && { transactionType }),
+    ...(direction && { direction }),
+    ...(keepOriginalRow && { originalRow: row })
+  };
 }
 
 /**
- * Clean and validate date values
+ * Dataset size and cleaning warnings shared by the buffered and streaming paths
  */
-export function cleanDate(value: unknown): Date | null {
-  if (value === null || value === undefined || value === '') {
-    return null;
-  }
+function getValidationWarnings(validRows: number, totalRows: number, removedRows: number): string[] {
+  const warnings: string[] = [];
   
-  // If it's already a Date object
-  if (value instanceof Date) {
-    return isNaN(value.getTime()) ? null : value;
+  if (validRows < 10) {
+    warnings.push('Dataset has fewer than 10 valid entries. Analysis may not be reliable.');
   }
   
-  // Try to parse various date formats
-  if (typeof value === 'string' || typeof value === 'number') {
-    const parsed = new Date(value);
-    return isNaN(parsed.getTime()) ? null : parsed;
+  if (validRows < 100) {
+    warnings.push('Dataset has fewer than 100 entries. Benford\'s Law analysis works better with larger datasets.');
   }
   
-  // For other types, try converting to string first
-  try {
-    const parsed = new Date(String(value));
-    return isNaN(parsed.getTime()) ? null : parsed;
-  } catch {
-    return null;
+  if (removedRows > totalRows * 0.5) {
+    warnings.push(`More than 50% of rows were removed during cleaning (${removedRows}/${totalRows})`);
   }
+  
+  return warnings;
 }
 
 /**
@@ -264,8 +523,8 @@ export function processData(
   columnMapping: ColumnMapping
 ): ProcessedDataset {
   const cleanedData: CleanedDataRow[] = [];
+  const credits: CleanedDataRow[] = [];
   const errors: string[] = [];
-  const warnings: string[] = [];
   let removedRows = 0;
   
   // Validate column mapping
@@ -273,13 +532,15 @@ export function processData(
     errors.push('Amount column is required but not mapped');
     return {
       data: [],
+      credits: [],
       validation: {
         isValid: false,
         totalRows: rawData.length,
         validRows: 0,
         removedRows: rawData.length,
+        creditRows: 0,
         errors,
-        warnings
+        warnings: []
       },
       columnMapping,
       preview: {
@@ -290,29 +551,28 @@ export function processData(
     };
   }
   
+  const { numberFormat, dateFormat, formats } = resolveRowFormats(rawData, columnMapping);
+  const numberFormatIssues = createNumberFormatIssues();
+  const dateFormatIssues = createDateFormatIssues();
+  
   // Process each row
   rawData.forEach((row, index) => {
     try {
-      // Clean amount (required)
-      const amount = cleanAmount(row[columnMapping.amount]);
+      recordFormatIssues(row, columnMapping, formats, numberFormatIssues, dateFormatIssues);
+      const cleaned = cleanRow(row, columnMapping, formats, true);
       
-      if (amount === null || amount <= 0) {
+      if (!cleaned) {
         removedRows++;
         return; // Skip this row
       }
       
-      // Clean optional fields
-      const vendor = columnMapping.vendor ? String(row[columnMapping.vendor] || '').trim() || undefined : undefined;
-      const date = columnMapping.date ? cleanDate(row[columnMapping.date]) || undefined : undefined;
-      const category = columnMapping.category ? String(row[columnMapping.category] || '').trim() || undefined : undefined;
+      // Credits, refunds and reversals are analyzed as their own stream
+      if (cleaned.amount < 0) {
+        credits.push(cleaned);
+        return;
+      }
       
-      cleanedData.push({
-        amount,
-        vendor,
-        date,
-        category,
-        originalRow: row
-      });
+      cleanedData.push(cleaned);
       
     } catch (error) {
       removedRows++;
@@ -323,17 +583,10 @@ export function processData(
   // Validation checks
   const validRows = cleanedData.length;
   const totalRows = rawData.length;
-  
-  if (validRows < 10) {
-    warnings.push('Dataset has fewer than 10 valid entries. Analysis may not be reliable.');
-  }
-  
-  if (validRows < 100) {
-    warnings.push('Dataset has fewer than 100 entries. Benford\'s Law analysis works better with larger datasets.');
-  }
-  
-  if (removedRows > totalRows * 0.5) {
-    warnings.push(`More than 50% of rows were removed during cleaning (${removedRows}/${totalRows})`);
+  const warnings = getValidationWarnings(validRows, totalRows, removedRows);
+  warnings.push(...getNumberFormatWarnings(numberFormatIssues, numberFormat));
+  if (dateFormat) {
+    warnings.push(...getDateFormatWarnings(dateFormatIssues, dateFormat));
   }
   
   const isValid = validRows >= 10 && errors.length === 0;
@@ -344,11 +597,15 @@ export function processData(
   
   return {
     data: cleanedData,
+    credits,
+    numberFormat,
+    dateFormat,
     validation: {
       isValid,
       totalRows,
       validRows,
       removedRows,
+      creditRows: credits.length,
       errors,
       warnings
     },
@@ -1,5 +1,7 @@
 // Database Service - Enterprise-level data persistence
-// Handles user preferences, API keys, model configurations, and analysis history
+// Handles user preferences, API keys, model configurations, custom rules, analysis settings, and analysis history
+
+import type { AnalysisSettings, CustomRule } from '../types';
 
 interface UserPreferences {
   id: string;
@@ -106,6 +108,17 @@ interface AnalysisSession {
   createdAt: Date;
 }
 
+interface StoredCustomRule extends CustomRule {
+  userId: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface StoredAnalysisSettings extends AnalysisSettings {
+  userId: string;
+  updatedAt: Date;
+}
+
 interface UsageStatistics {
   userId: string;
   period: 'daily' | 'weekly' | 'monthly';
@@ -125,7 +138,7 @@ export class DatabaseService {
   private static instance: DatabaseService;
   private db: IDBDatabase | null = null;
   private readonly DB_NAME = 'ExpenseAuditAI';
-  private readonly DB_VERSION = 1;
+  private readonly DB_VERSION = 3;
 
   private constructor() {}
 
@@ -199,6 +212,17 @@ export class DatabaseService {
       statsStore.createIndex('userId', 'userId', { unique: false });
       statsStore.createIndex('date', 'date', { unique: false });
     }
+
+    // Custom Detection Rules (added in version 2)
+    if (!db.objectStoreNames.contains('customRules')) {
+      const rulesStore = db.createObjectStore('customRules', { keyPath: 'id' });
+      rulesStore.createIndex('userId', 'userId', { unique: false });
+    }
+
+    // Analysis Settings (added in version 3)
+    if (!db.objectStoreNames.contains('analysisSettings')) {
+      db.createObjectStore('analysisSettings', { keyPath: 'userId' });
+    }
   }
 
   // User Preferences Methods
@@ -325,6 +349,94 @@ export class DatabaseService {
     });
   }
 
+  // Custom Rule Methods
+  async getCustomRules(userId: string): Promise<StoredCustomRule[]> {
+    if (!this.db) await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['customRules'], 'readonly');
+      const store = transaction.objectStore('customRules');
+      const index = store.index('userId');
+      const request = index.getAll(userId);
+
+      request.onsuccess = () => {
+        const rules: StoredCustomRule[] = request.result || [];
+        resolve(rules.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()));
+      };
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveCustomRule(userId: string, rule: Omit<CustomRule, 'id'> & { id?: string }): Promise<StoredCustomRule> {
+    if (!this.db) await this.initialize();
+
+    const now = new Date();
+    const existing = rule.id ? (await this.getCustomRules(userId)).find(saved => saved.id === rule.id) : undefined;
+
+    const fullRule: StoredCustomRule = {
+      ...rule,
+      id: existing?.id || this.generateId(),
+      userId,
+      createdAt: existing?.createdAt || now,
+      updatedAt: now
+    };
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['customRules'], 'readwrite');
+      const store = transaction.objectStore('customRules');
+      const request = store.put(fullRule);
+
+      request.onsuccess = () => resolve(fullRule);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async deleteCustomRule(ruleId: string): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['customRules'], 'readwrite');
+      const store = transaction.objectStore('customRules');
+      const request = store.delete(ruleId);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  // Analysis Settings Methods
+  async getAnalysisSettings(userId: string): Promise<StoredAnalysisSettings | null> {
+    if (!this.db) await this.initialize();
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['analysisSettings'], 'readonly');
+      const store = transaction.objectStore('analysisSettings');
+      const request = store.get(userId);
+
+      request.onsuccess = () => resolve(request.result || null);
+      request.onerror = () => reject(request.error);
+    });
+  }
+
+  async saveAnalysisSettings(userId: string, settings: AnalysisSettings): Promise<void> {
+    if (!this.db) await this.initialize();
+
+    const fullSettings: StoredAnalysisSettings = {
+      ...settings,
+      userId,
+      updatedAt: new Date()
+    };
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(['analysisSettings'], 'readwrite');
+      const store = transaction.objectStore('analysisSettings');
+      const request = store.put(fullSettings);
+
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+  }
+
   // Analysis Session Methods
   async saveAnalysisSession(session: Omit<AnalysisSession, 'id' | 'createdAt'>): Promise<string> {
     if (!this.db) await this.initialize();
@@ -553,14 +665,18 @@ export class DatabaseService {
     preferences: UserPreferences | null;
     apiKeys: Omit<APIKeyConfiguration, 'encryptedKey'>[];
     modelConfigs: ModelConfiguration[];
+    customRules: StoredCustomRule[];
+    analysisSettings: StoredAnalysisSettings | null;
     sessions: AnalysisSession[];
     stats: UsageStatistics[];
     exportedAt: string;
   }> {
-    const [preferences, apiKeys, modelConfigs, sessions, stats] = await Promise.all([
+    const [preferences, apiKeys, modelConfigs, customRules, analysisSettings, sessions, stats] = await Promise.all([
       this.getUserPreferences(userId),
       this.getAPIKeys(userId),
       this.getModelConfigurations(userId),
+      this.getCustomRules(userId),
+      this.getAnalysisSettings(userId),
       this.getAnalysisSessions(userId, 1000),
       this.getUsageStats(userId, 'daily', 365)
     ]);
@@ -569,6 +685,8 @@ export class DatabaseService {
       preferences,
       apiKeys: apiKeys.map(key => ({ ...key, encryptedKey: '[REDACTED]' })), // Don't export actual keys
       modelConfigs,
+      customRules,
+      analysisSettings,
       sessions,
       stats,
       exportedAt: new Date().toISOString()
@@ -0,0 +1,266 @@
+// Date Formats
+// Reads transaction dates written day-first, month-first or year-first, or
+// stored as Excel serial numbers, and infers which order a date column uses
+// from a sample of its values
+
+import type { DateFormatDetection, DateOrder } from '../types';
+import { formatDay, toDayNumber } from './dateUtils';
+
+export const DEFAULT_DATE_ORDER: DateOrder = 'MDY';
+
+export const DATE_ORDER_OPTIONS: DateOrder[] = ['MDY', 'DMY', 'YMD'];
+
+const DETECTION_SAMPLE_SIZE = 1000;
+const MAX_EXAMPLES = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Excel serial day 0 is 1899-12-30, which absorbs Excel's 1900 leap-year bug
+// for every date after February 1900
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+// Numbers read as Excel serials (1927 to 2173, as for serial text) or epoch
+// milliseconds (from 1973); others, such as amounts or epoch seconds, are not dates
+const MIN_EXCEL_SERIAL = 10000;
+const MAX_EXCEL_SERIAL = 100000;
+const MIN_EPOCH_MS = 1e11;
+
+// Three numeric parts with the same "/", "." or "-" separator, optionally followed by a time
+const NUMERIC_DATE = /^(\d{1,4})([./-])(\d{1,2})\2(\d{1,4})(?:[T\s]+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*([AaPp][Mm])?)?$/;
+const COMPACT_DATE = /^(\d{4})(\d{2})(\d{2})$/; // YYYYMMDD
+const SERIAL_TEXT = /^\d{5}(\.\d+)?$/; // Excel serials exported as text, 1927 to 2173
+
+// How a date value shows its order
+export type DateReading = 'day_first' | 'month_first' | 'ambiguous' | 'serial' | 'plain' | 'invalid';
+
+/**
+ * Show a date order as a pattern, e.g. "DD/MM/YYYY"
+ */
+export function describeDateOrder(order: DateOrder): string {
+  switch (order) {
+    case 'DMY': return 'DD/MM/YYYY';
+    case 'MDY': return 'MM/DD/YYYY';
+    case 'YMD': return 'YYYY/MM/DD';
+  }
+}
+
+/**
+ * Convert an Excel serial day number, with an optional time fraction, to a local date
+ */
+export function fromExcelSerial(serial: number): Date {
+  const utc = new Date(EXCEL_EPOCH + Math.round(serial * DAY_MS / 1000) * 1000);
+  return new Date(
+    utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+    utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds()
+  );
+}
+
+/**
+ * Four-digit year from "2024" or "24"; two-digit years below 30 are 20xx, as in Excel
+ */
+function expandYear(text: string): number | null {
+  const year = Number(text);
+  if (text.length === 4) return year;
+  if (text.length === 2) return year < 30 ? 2000 + year : 1900 + year;
+  return null;
+}
+
+/**
+ * Local date from its parts, or null when a part is out of range (e.g. 31/02)
+ */
+function toDate(year: number, month: number, day: number, hours = 0, minutes = 0, seconds = 0): Date | null {
+  if (hours > 23 || minutes > 59 || seconds > 59) return null;
+  const date = new Date(year, month - 1, day, hours, minutes, seconds);
+  if (date.getFullYear() !== year || date.getMonth() !== month - 1 || date.getDate() !== day) return null;
+  return date;
+}
+
+function isExcelSerial(value: number): boolean {
+  return value >= MIN_EXCEL_SERIAL && value < MAX_EXCEL_SERIAL;
+}
+
+/**
+ * Decide whether a date value is day-first or month-first. Dates such as
+ * "03/04/2024", valid either way, are ambiguous.
+ */
+export function classifyDateText(value: unknown): DateReading {
+  if (value instanceof Date) return 'plain';
+  if (typeof value === 'number') {
+    if (isExcelSerial(value)) return 'serial';
+    return parseDate(value, DEFAULT_DATE_ORDER) ? 'plain' : 'invalid';
+  }
+  if (typeof value !== 'string') return 'invalid';
+
+  const text = value.trim();
+  if (SERIAL_TEXT.test(text)) return 'serial';
+  if (COMPACT_DATE.test(text)) return 'plain';
+
+  const match = text.match(NUMERIC_DATE);
+  if (!match) return parseDate(text, DEFAULT_DATE_ORDER) ? 'plain' : 'invalid';
+
+  const [, first, , second, third] = match;
+  if (first.length === 4) return 'plain';
+  if (third.length !== 2 && third.length !== 4) return 'invalid';
+
+  const a = Number(first);
+  const b = Number(second);
+  if (a < 1 || b < 1 || (a > 12 && b > 12)) return 'invalid';
+  if (a > 12) return 'day_first';
+  if (b > 12) return 'month_first';
+  return a === b ? 'plain' : 'ambiguous';
+}
+
+/**
+ * Parse a date value. Numbers are Excel serials, YYYYMMDD or epoch
+ * milliseconds; numeric text such as "03/04/2024" or "04.03.2024" is read in
+ * `order` unless it starts with a four-digit year. Returns null for values
+ * that do not fit rather than guessing.
+ */
+export function parseDate(value: unknown, order: DateOrder): Date | null {
+  if (value === null || value === undefined || value === '') return null;
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value;
+  if (typeof value === 'number') {
+    if (isExcelSerial(value)) return fromExcelSerial(value);
+    if (value >= MIN_EPOCH_MS && isFinite(value)) return new Date(value);
+    if (!Number.isInteger(value)) return null;
+  }
+
+  const text = String(value).trim();
+  if (SERIAL_TEXT.test(text)) return fromExcelSerial(Number(text));
+
+  const compact = text.match(COMPACT_DATE);
+  if (compact) return toDate(Number(compact[1]), Number(compact[2]), Number(compact[3]));
+
+  const match = text.match(NUMERIC_DATE);
+  if (match) {
+    const [, first, , second, third, hours, minutes, seconds, meridiem] = match;
+    let parts: [string, string, string]; // year, month, day
+    if (first.length === 4 || order === 'YMD') {
+      parts = [first, second, third];
+    } else if (order === 'DMY') {
+      parts = [third, second, first];
+    } else {
+      parts = [third, first, second];
+    }
+
+    const year = expandYear(parts[0]);
+    if (year === null) return null;
+    let hour = hours ? Number(hours) : 0;
+    if (meridiem) {
+      if (hour < 1 || hour > 12) return null;
+      hour = (hour % 12) + (/p/i.test(meridiem) ? 12 : 0);
+    }
+    return toDate(year, Number(parts[1]), Number(parts[2]), hour, Number(minutes ?? 0), Number(seconds ?? 0));
+  }
+
+  // Month names ("4 Mar 2024", "March 4, 2024") and ISO timestamps with a zone
+  if (/[A-Za-z]/.test(text) || /^\d{4}-/.test(text)) {
+    const parsed = new Date(text);
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+  return null;
+}
+
+/**
+ * Infer the order of a date column from up to 1,000 values. Without any
+ * day-first or month-first date, dotted dates (04.03.2024) default to
+ * day-first and others to month-first.
+ */
+export function detectDateFormat(values: unknown[]): DateFormatDetection {
+  const sample = values
+    .filter(value => value !== null && value !== undefined && value !== '')
+    .slice(0, DETECTION_SAMPLE_SIZE);
+
+  let dayFirst = 0;
+  let monthFirst = 0;
+  let ambiguousCount = 0;
+  let serialCount = 0;
+  let dotted = 0;
+  sample.forEach(value => {
+    const reading = classifyDateText(value);
+    if (reading === 'day_first') dayFirst++;
+    if (reading === 'month_first') monthFirst++;
+    if (reading === 'ambiguous') ambiguousCount++;
+    if (reading === 'serial') serialCount++;
+    if (typeof value === 'string' && /^\d{1,2}\.\d{1,2}\./.test(value.trim())) dotted++;
+  });
+
+  let order: DateOrder = dotted > sample.length / 2 ? 'DMY' : DEFAULT_DATE_ORDER;
+  if (dayFirst > monthFirst) order = 'DMY';
+  if (monthFirst > dayFirst) order = 'MDY';
+
+  return {
+    order,
+    source: 'detected',
+    sampleSize: sample.length,
+    decisiveCount: dayFirst + monthFirst,
+    ambiguousCount,
+    serialCount,
+  };
+}
+
+/**
+ * The order to read a date column with: the user's choice when made,
+ * otherwise the detected one
+ */
+export function resolveDateFormat(values: unknown[], chosen?: DateOrder): DateFormatDetection {
+  const detection = detectDateFormat(values);
+  return chosen ? { ...detection, order: chosen, source: 'user' } : detection;
+}
+
+/**
+ * Whether ambiguous dates can be trusted: the user chose the order, or some
+ * dates in the column read only one way
+ */
+export function isDateOrderSettled(detection: DateFormatDetection): boolean {
+  return detection.source === 'user' || detection.decisiveCount > 0;
+}
+
+// Date values that read differently in another order, collected while cleaning
+export interface DateFormatIssues {
+  ambiguous: string[];
+  ambiguousCount: number;
+  mismatched: string[];
+  mismatchedCount: number;
+}
+
+export function createDateFormatIssues(): DateFormatIssues {
+  return { ambiguous: [], ambiguousCount: 0, mismatched: [], mismatchedCount: 0 };
+}
+
+/**
+ * Record a date whose reading depends on, or contradicts, the order in use
+ */
+export function recordDateFormatIssue(issues: DateFormatIssues, value: unknown, order: DateOrder): void {
+  if (typeof value !== 'string') return;
+
+  const reading = classifyDateText(value);
+  if (reading === 'ambiguous') {
+    issues.ambiguousCount++;
+    if (issues.ambiguous.length < MAX_EXAMPLES) issues.ambiguous.push(value);
+  } else if ((reading === 'day_first' && order !== 'DMY') || (reading === 'month_first' && order !== 'MDY')) {
+    issues.mismatchedCount++;
+    if (issues.mismatched.length < MAX_EXAMPLES) issues.mismatched.push(value);
+  }
+}
+
+/**
+ * Validation warnings for the collected issues. Ambiguous dates are only
+ * reported when the order is not settled.
+ */
+export function getDateFormatWarnings(issues: DateFormatIssues, detection: DateFormatDetection): string[] {
+  const warnings: string[] = [];
+  const label = describeDateOrder(detection.order);
+
+  if (issues.mismatchedCount > 0) {
+    const count = issues.mismatchedCount;
+    warnings.push(`${count.toLocaleString()} date${count === 1 ? '' : 's'} such as ${issues.mismatched.map(value => `"${value}"`).join(', ')} ${count === 1 ? 'does' : 'do'} not fit the ${label} date format and ${count === 1 ? 'was' : 'were'} left blank. Check the date format.`);
+  }
+
+  if (issues.ambiguousCount > 0 && !isDateOrderSettled(detection)) {
+    const example = issues.ambiguous[0];
+    const day = toDayNumber(parseDate(example, detection.order) ?? undefined);
+    warnings.push(`${issues.ambiguousCount.toLocaleString()} date${issues.ambiguousCount === 1 ? '' : 's'} such as ${issues.ambiguous.map(value => `"${value}"`).join(', ')} could be day-first or month-first and ${issues.ambiguousCount === 1 ? 'was' : 'were'} read as ${label} ("${example}" as ${day === null ? 'invalid' : formatDay(day)}). Choose the date format if this is wrong.`);
+  }
+
+  return warnings;
+}
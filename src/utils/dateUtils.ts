@@ -0,0 +1,22 @@
+// Date Helpers
+// Whole-day arithmetic for transaction dates
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Convert a transaction date to a whole day number, ignoring time of day.
+ * Dates restored from storage arrive as strings, so both forms are accepted.
+ */
+export function toDayNumber(date: Date | string | undefined): number | null {
+  if (!date) return null;
+  const parsed = date instanceof Date ? date : new Date(date);
+  if (isNaN(parsed.getTime())) return null;
+  return Math.round(Date.UTC(parsed.getFullYear(), parsed.getMonth(), parsed.getDate()) / DAY_MS);
+}
+
+/**
+ * Format a day number as YYYY-MM-DD
+ */
+export function formatDay(day: number): string {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
@@ -0,0 +1,160 @@
+// Duplicate Payment Detection
+// Groups transactions on vendor, amount and date to find payments made more than once
+
+import type {
+  CleanedDataRow,
+  DuplicatePaymentGroup,
+  DuplicatePaymentResult,
+  DuplicatePaymentType,
+} from '../types';
+import { formatDay, toDayNumber } from './dateUtils';
+
+// Same-vendor, same-amount payments this many days apart count as near duplicates
+export const DEFAULT_DUPLICATE_WINDOW_DAYS = 7;
+
+interface DatedRow {
+  index: number;
+  amount: number;
+  vendor: string;
+  vendorKey: string;
+  category?: string;
+  day: number;
+}
+
+/**
+ * Normalize a vendor name so that spacing and case differences still match
+ */
+function normalizeVendor(vendor: string): string {
+  return vendor.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function groupRows(rows: DatedRow[], getKey: (row: DatedRow) => string): Map<string, DatedRow[]> {
+  const groups = new Map<string, DatedRow[]>();
+  for (const row of rows) {
+    const key = getKey(row);
+    const group = groups.get(key);
+    if (group) {
+      group.push(row);
+    } else {
+      groups.set(key, [row]);
+    }
+  }
+  return groups;
+}
+
+function buildGroup(type: DuplicatePaymentType, rows: DatedRow[]): DuplicatePaymentGroup {
+  // Reduce rather than spread: large groups would overflow the call stack
+  const firstDay = rows.reduce((min, row) => Math.min(min, row.day), Infinity);
+  const lastDay = rows.reduce((max, row) => Math.max(max, row.day), -Infinity);
+  return {
+    type,
+    amount: rows[0].amount,
+    vendors: Array.from(new Set(rows.map(row => row.vendor))),
+    categories: Array.from(new Set(rows.map(row => row.category).filter((c): c is string => !!c))),
+    firstDate: formatDay(firstDay),
+    lastDate: formatDay(lastDay),
+    rowIndices: rows.map(row => row.index),
+    potentialRecovery: rows[0].amount * (rows.length - 1),
+  };
+}
+
+/**
+ * Same vendor, same amount, same date
+ */
+function findExactDuplicates(rows: DatedRow[]): DuplicatePaymentGroup[] {
+  return Array.from(groupRows(rows, row => `${row.vendorKey}|${row.amount}|${row.day}`).values())
+    .filter(group => group.length > 1)
+    .map(group => buildGroup('exact', group));
+}
+
+/**
+ * Same vendor, same amount, on different days no more than `windowDays` apart.
+ * Same-day repeats are already exact duplicates, so only the first payment of
+ * each day takes part here.
+ */
+function findNearDuplicates(rows: DatedRow[], windowDays: number): DuplicatePaymentGroup[] {
+  const groups: DuplicatePaymentGroup[] = [];
+
+  groupRows(rows, row => `${row.vendorKey}|${row.amount}`).forEach(group => {
+    const firstPerDay = Array.from(groupRows(group, row => String(row.day)).values())
+      .map(sameDay => sameDay[0])
+      .sort((a, b) => a.day - b.day);
+
+    let cluster: DatedRow[] = [];
+    const flush = () => {
+      if (cluster.length > 1) {
+        groups.push(buildGroup('near_same_vendor', cluster));
+      }
+    };
+
+    for (const row of firstPerDay) {
+      if (cluster.length > 0 && row.day - cluster[cluster.length - 1].day > windowDays) {
+        flush();
+        cluster = [];
+      }
+      cluster.push(row);
+    }
+    flush();
+  });
+
+  return groups;
+}
+
+/**
+ * Same amount, same date, paid to more than one vendor
+ */
+function findCrossVendorDuplicates(rows: DatedRow[]): DuplicatePaymentGroup[] {
+  return Array.from(groupRows(rows, row => `${row.amount}|${row.day}`).values())
+    .filter(group => new Set(group.map(row => row.vendorKey)).size > 1)
+    .map(group => buildGroup('same_amount_different_vendor', group));
+}
+
+/**
+ * Detect exact and near duplicate payments. Rows without a vendor or a
+ * usable date cannot be grouped and are skipped. The overall potential
+ * recovery only counts same-vendor duplicates.
+ */
+export function detectDuplicatePayments(
+  data: CleanedDataRow[],
+  windowDays: number = DEFAULT_DUPLICATE_WINDOW_DAYS
+): DuplicatePaymentResult {
+  const rows: DatedRow[] = [];
+  data.forEach((row, index) => {
+    const day = toDayNumber(row.date);
+    const vendor = row.vendor?.trim();
+    if (day === null || !vendor || !isFinite(row.amount) || row.amount === 0) return;
+
+    rows.push({
+      index,
+      amount: row.amount,
+      vendor,
+      vendorKey: normalizeVendor(vendor),
+      category: row.category?.trim() || undefined,
+      day,
+    });
+  });
+
+  const exact = findExactDuplicates(rows);
+  const near = findNearDuplicates(rows, windowDays);
+  const crossVendor = findCrossVendorDuplicates(rows);
+
+  return {
+    windowDays,
+    groups: [...exact, ...near, ...crossVendor].sort((a, b) => b.potentialRecovery - a.potentialRecovery),
+    exactCount: exact.length,
+    nearSameVendorCount: near.length,
+    sameAmountDifferentVendorCount: crossVendor.length,
+    potentialRecovery: [...exact, ...near].reduce((sum, group) => sum + group.potentialRecovery, 0),
+  };
+}
+
+/**
+ * Describe a duplicate payment type for tables and reports
+ */
+export function getDuplicateTypeLabel(type: DuplicatePaymentType): string {
+  switch (type) {
+    case 'exact': return 'Exact duplicate';
+    case 'near_same_vendor': return 'Same vendor, near date';
+    case 'same_amount_different_vendor': return 'Same amount, different vendor';
+  }
+}
@@ -0,0 +1,195 @@
+// Excel Workbooks
+// Lists the sheets of an uploaded workbook, finds each sheet's header row
+// below any title rows, and stacks chosen sheets into one table of raw rows
+
+import * as XLSX from 'xlsx';
+import type { ExcelSheetInfo, ExcelSheetSelection, ExcelWorkbookSummary, RawDataRow } from '../types';
+
+// Column added when several sheets are stacked, naming each row's sheet
+export const SOURCE_SHEET_COLUMN = 'Source Sheet';
+
+const HEADER_SCAN_ROWS = 20;
+const TOTAL_ROW = /^\s*(grand\s+|sub-?)?totals?\b|^\s*sum\b/i;
+
+type Cell = unknown;
+
+/**
+ * Read a workbook from an .xlsx or .xls file
+ */
+export async function readWorkbook(file: File): Promise<XLSX.WorkBook> {
+  try {
+    return XLSX.read(new Uint8Array(await file.arrayBuffer()), { type: 'array' });
+  } catch (error) {
+    throw new Error(`Excel parsing failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+function isFilled(cell: Cell): boolean {
+  return cell !== null && cell !== undefined && String(cell).trim() !== '';
+}
+
+function isBlankRow(row: Cell[]): boolean {
+  return !row.some(isFilled);
+}
+
+function isTotalRow(row: Cell[]): boolean {
+  return row.some(cell => typeof cell === 'string' && TOTAL_ROW.test(cell));
+}
+
+/**
+ * All rows of a sheet, indexed from the sheet's first row so that index 0 is
+ * spreadsheet row 1
+ */
+function getSheetRows(workbook: XLSX.WorkBook, name: string): Cell[][] {
+  const worksheet = workbook.Sheets[name];
+  if (!worksheet?.['!ref']) return [];
+  return XLSX.utils.sheet_to_json<Cell[]>(worksheet, { header: 1, range: 0, blankrows: true, defval: null });
+}
+
+/**
+ * The first row that looks like column names: mostly text, and at least 60%
+ * as wide as the widest of the first 20 rows, so title and cover rows above
+ * the table are passed over
+ */
+export function detectHeaderRow(rows: Cell[][]): number {
+  const candidates = rows.slice(0, HEADER_SCAN_ROWS);
+  const width = Math.max(0, ...candidates.map(row => row.filter(isFilled).length));
+
+  const index = candidates.findIndex(row => {
+    const filled = row.filter(isFilled);
+    const text = filled.filter(cell => typeof cell === 'string' && !/^[-+]?[\d.,\s]+$/.test(cell));
+    return filled.length >= Math.max(2, Math.ceil(width * 0.6)) && text.length >= filled.length * 0.8;
+  });
+  return Math.max(index, 0);
+}
+
+/**
+ * Column names from the header row. A name missing under a merged cell takes
+ * the merged value, and a merged group label in the row above is prefixed,
+ * e.g. "Invoice" over "Date" gives "Invoice Date". Blank and repeated names
+ * are made unique.
+ */
+function buildColumnNames(rows: Cell[][], headerRow: number, worksheet: XLSX.WorkSheet): string[] {
+  const firstColumn = worksheet['!ref'] ? XLSX.utils.decode_range(worksheet['!ref']).s.c : 0;
+  const merges = worksheet['!merges'] ?? [];
+  const valueAt = (row: number, column: number) => {
+    const cell = rows[row]?.[column - firstColumn];
+    return isFilled(cell) ? String(cell).trim() : '';
+  };
+  const mergeAt = (row: number, column: number) =>
+    merges.find(merge => merge.s.r <= row && row <= merge.e.r && merge.s.c <= column && column <= merge.e.c);
+
+  const width = Math.max(...rows.slice(headerRow, headerRow + HEADER_SCAN_ROWS).map(row => row.length), 0);
+  const seen = new Map<string, number>();
+
+  return Array.from({ length: width }, (_, index) => {
+    const column = index + firstColumn;
+    let name = valueAt(headerRow, column);
+    if (!name) {
+      const merge = mergeAt(headerRow, column);
+      if (merge) name = valueAt(merge.s.r, merge.s.c);
+    }
+
+    const group = headerRow > 0 ? mergeAt(headerRow - 1, column) : undefined;
+    if (group && group.s.c !== group.e.c && group.e.r === headerRow - 1) {
+      const label = valueAt(group.s.r, group.s.c);
+      if (label && label !== name) name = name ? `${label} ${name}` : label;
+    }
+
+    name = name || `Column ${index + 1}`;
+    const count = (seen.get(name) ?? 0) + 1;
+    seen.set(name, count);
+    return count === 1 ? name : `${name} (${count})`;
+  });
+}
+
+/**
+ * Data rows below the header, without blank rows and without the total rows
+ * at the end of the table
+ */
+function getBodyRows(rows: Cell[][], headerRow: number): { body: Cell[][]; totalRowsSkipped: number } {
+  const body = rows.slice(headerRow + 1).filter(row => !isBlankRow(row));
+  let end = body.length;
+  while (end > 0 && isTotalRow(body[end - 1])) end--;
+  return { body: body.slice(0, end), totalRowsSkipped: body.length - end };
+}
+
+/**
+ * Describe one sheet with the given header row, or the detected one
+ */
+export function getSheetInfo(workbook: XLSX.WorkBook, name: string, headerRow?: number): ExcelSheetInfo {
+  const rows = getSheetRows(workbook, name);
+  const header = headerRow ?? detectHeaderRow(rows);
+  const { body, totalRowsSkipped } = getBodyRows(rows, header);
+  return {
+    name,
+    headerRow: header,
+    columns: rows.length > 0 ? buildColumnNames(rows, header, workbook.Sheets[name]) : [],
+    rowCount: body.length,
+    totalRowsSkipped,
+  };
+}
+
+/**
+ * Describe every visible sheet; hidden and very hidden sheets are only named
+ */
+export function summarizeWorkbook(workbook: XLSX.WorkBook): ExcelWorkbookSummary {
+  const sheetProps = workbook.Workbook?.Sheets ?? [];
+  const hiddenSheets = workbook.SheetNames.filter((_, index) => (sheetProps[index]?.Hidden ?? 0) !== 0);
+  const sheets = workbook.SheetNames
+    .filter(name => !hiddenSheets.includes(name))
+    .map(name => getSheetInfo(workbook, name));
+  return { sheets, hiddenSheets };
+}
+
+/**
+ * Default choice: the visible sheet with the most data rows, which passes
+ * over cover and notes sheets
+ */
+export function getDefaultSheetSelection(summary: ExcelWorkbookSummary): ExcelSheetSelection[] {
+  const sheet = summary.sheets.reduce<ExcelSheetInfo | null>(
+    (best, candidate) => (!best || candidate.rowCount > best.rowCount ? candidate : best),
+    null
+  );
+  return sheet ? [{ name: sheet.name, headerRow: sheet.headerRow }] : [];
+}
+
+/**
+ * Read the chosen sheets into raw rows. Several sheets are stacked, matching
+ * columns by name, with a column naming each row's sheet.
+ */
+export function readSheets(
+  workbook: XLSX.WorkBook,
+  selection: ExcelSheetSelection[]
+): { data: RawDataRow[]; columns: string[] } {
+  const columns: string[] = [];
+  const data: RawDataRow[] = [];
+  const stacked = selection.length > 1;
+
+  selection.forEach(({ name, headerRow }) => {
+    const rows = getSheetRows(workbook, name);
+    if (rows.length === 0) return;
+    const names = buildColumnNames(rows, headerRow, workbook.Sheets[name]);
+    names.forEach(column => {
+      if (!columns.includes(column)) columns.push(column);
+    });
+
+    getBodyRows(rows, headerRow).body.forEach(row => {
+      const rowObj: RawDataRow = {};
+      names.forEach((column, index) => {
+        const value = row[index];
+        // Type guard to ensure we only assign valid types
+        if (typeof value === 'string' || typeof value === 'number' || value instanceof Date || value === null || value === undefined) {
+          rowObj[column] = value;
+        } else {
+          rowObj[column] = String(value);
+        }
+      });
+      if (stacked) rowObj[SOURCE_SHEET_COLUMN] = name;
+      data.push(rowObj);
+    });
+  });
+
+  if (stacked) columns.push(SOURCE_SHEET_COLUMN);
+  return { data, columns };
+}
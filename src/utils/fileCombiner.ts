@@ -0,0 +1,98 @@
+// Combining Files
+// Aligns the columns of several uploaded files by name, or by user-chosen
+// aliases, and stacks their rows with a column naming each row's file
+
+import type { ColumnAliases, RawDataRow, SchemaReconciliation, SourceFile } from '../types';
+
+// Column added to combined data, naming each row's file
+export const SOURCE_FILE_COLUMN = 'Source File';
+
+/**
+ * Key for matching column names across files; case, spacing, "_" and "-" are ignored
+ */
+function getColumnKey(column: string): string {
+  return column.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+}
+
+/**
+ * Map each file's columns to combined column names. Aliases apply first;
+ * other names take the spelling of the first file that has them.
+ */
+function resolveColumns(files: SourceFile[], aliases: ColumnAliases) {
+  const namesByKey = new Map<string, string>();
+  const columns: string[] = [];
+
+  const fileColumns = files.map(file => {
+    const fileAliases = aliases[file.name] ?? {};
+    const mapping = new Map<string, string>(); // file column -> combined column
+    file.columns.forEach(column => {
+      const target = fileAliases[column] ?? column;
+      const key = getColumnKey(target);
+      let name = namesByKey.get(key);
+      if (!name) {
+        name = target;
+        namesByKey.set(key, name);
+        columns.push(name);
+      }
+      mapping.set(column, name);
+    });
+    return mapping;
+  });
+
+  return { columns, fileColumns };
+}
+
+/**
+ * Compare the columns of files to be combined: what each file lacks and
+ * which of its columns no other file has
+ */
+export function reconcileSchemas(files: SourceFile[], aliases: ColumnAliases = {}): SchemaReconciliation {
+  const { columns, fileColumns } = resolveColumns(files, aliases);
+
+  const fileCounts = new Map<string, number>();
+  fileColumns.forEach(mapping => {
+    new Set(mapping.values()).forEach(name => fileCounts.set(name, (fileCounts.get(name) ?? 0) + 1));
+  });
+
+  const schemas = files.map((file, index) => {
+    const mapping = fileColumns[index];
+    const combined = Array.from(new Set(mapping.values()));
+    return {
+      name: file.name,
+      rowCount: file.data.length,
+      columns: combined,
+      missingColumns: columns.filter(column => !combined.includes(column)),
+      extraColumns: files.length > 1
+        ? file.columns.filter(column => fileCounts.get(mapping.get(column)!) === 1)
+        : [],
+    };
+  });
+
+  return {
+    columns,
+    files: schemas,
+    hasMismatches: schemas.some(schema => schema.missingColumns.length > 0),
+  };
+}
+
+/**
+ * Stack the rows of several files under the combined columns. Columns a file
+ * lacks are left blank for its rows.
+ */
+export function combineFiles(
+  files: SourceFile[],
+  aliases: ColumnAliases = {}
+): { data: RawDataRow[]; columns: string[] } {
+  const { columns, fileColumns } = resolveColumns(files, aliases);
+
+  const data = files.flatMap((file, index) => file.data.map(row => {
+    const combinedRow: RawDataRow = {};
+    fileColumns[index].forEach((name, column) => {
+      combinedRow[name] = row[column];
+    });
+    combinedRow[SOURCE_FILE_COLUMN] = file.name;
+    return combinedRow;
+  }));
+
+  return { data, columns: [...columns, SOURCE_FILE_COLUMN] };
+}
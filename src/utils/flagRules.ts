@@ -0,0 +1,92 @@
+// Transaction Flag Rules
+// Weights behind the composite risk score of a flagged transaction
+
+import type { CustomRuleSeverity, FlagType, FlaggedTransaction, RuleHit } from '../types';
+
+export interface FlagRule {
+  label: string;
+  weight: number;
+}
+
+// Each rule's weight puts it at the risk level it carried on its own; rules
+// that fire together add up, so a weak rule can never lower a strong one
+export const FLAG_RULES: Record<FlagType, FlagRule> = {
+  high_amount: { label: 'Unusually high amount', weight: 25 },
+  round_number: { label: 'Large round number', weight: 10 },
+  overrepresented_digit: { label: 'Overrepresented first digit', weight: 20 },
+  high_digit_amount: { label: 'High amount with suspicious first digit', weight: 25 },
+  duplicate_amount: { label: 'Multiple identical amounts from same vendor', weight: 45 },
+  below_approval_limit: { label: 'Just below approval limit', weight: 30 },
+  split_purchase: { label: 'Possible split purchase', weight: 50 },
+  vendor_outlier: { label: 'Outlier for vendor', weight: 30 },
+  category_outlier: { label: 'Outlier for category', weight: 20 },
+  custom_rule: { label: 'Custom rule', weight: 20 }, // weighted by the rule's severity
+  refund_without_payment: { label: 'Refund without original payment', weight: 45 },
+  high_refund_ratio: { label: 'High refund ratio for vendor', weight: 20 },
+};
+
+// Rules that flag credits rather than payments
+export const CREDIT_FLAG_RULE_IDS: FlagType[] = ['refund_without_payment', 'high_refund_ratio'];
+
+// Rules that flag payments
+export const FLAG_RULE_IDS = (Object.keys(FLAG_RULES) as FlagType[]).filter(ruleId => !CREDIT_FLAG_RULE_IDS.includes(ruleId));
+
+export const MAX_RISK_SCORE = 100;
+
+// Composite score cutoffs: critical at 45 or more, high at 20 or more,
+// medium below that
+export const RISK_SCORE_CUTOFFS = {
+  critical: 45,
+  high: 20,
+} as const;
+
+// A custom rule on its own reaches the risk level of its severity
+export const CUSTOM_RULE_WEIGHTS: Record<CustomRuleSeverity, number> = {
+  medium: 10,
+  high: RISK_SCORE_CUTOFFS.high,
+  critical: RISK_SCORE_CUTOFFS.critical,
+};
+
+/**
+ * Build a rule hit, weighted by the rule unless a weight is given
+ */
+export function createRuleHit(
+  ruleId: FlagType,
+  description: string,
+  evidence: RuleHit['evidence'],
+  weight: number = FLAG_RULES[ruleId].weight
+): RuleHit {
+  return { ruleId, description, weight, evidence };
+}
+
+/**
+ * Composite risk score: the sum of rule weights, capped at MAX_RISK_SCORE
+ */
+export function calculateRiskScore(ruleHits: RuleHit[]): number {
+  return Math.min(MAX_RISK_SCORE, ruleHits.reduce((sum, hit) => sum + hit.weight, 0));
+}
+
+/**
+ * Risk level for a composite score, using RISK_SCORE_CUTOFFS
+ */
+export function getRiskLevelForScore(score: number): FlaggedTransaction['riskLevel'] {
+  if (score >= RISK_SCORE_CUTOFFS.critical) return 'critical';
+  if (score >= RISK_SCORE_CUTOFFS.high) return 'high';
+  return 'medium';
+}
+
+/**
+ * Whether a given rule fired on a flagged transaction
+ */
+export function hasRuleHit(transaction: FlaggedTransaction, ruleId: FlagType): boolean {
+  return transaction.ruleHits.some(hit => hit.ruleId === ruleId);
+}
+
+/**
+ * Format rule evidence as key=value pairs for tables and exports
+ */
+export function formatEvidence(evidence: RuleHit['evidence']): string {
+  return Object.entries(evidence)
+    .map(([key, value]) => `${key}=${typeof value === 'number' ? Number(value.toFixed(4)) : value}`)
+    .join(', ');
+}
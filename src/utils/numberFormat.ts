@@ -0,0 +1,212 @@
+// Number Formats
+// Reads amounts written with English, European, Swiss or Indian separators,
+// and infers which convention an amount column uses from a sample of its values
+
+import type { GroupSeparator, NumberFormat, NumberFormatDetection } from '../types';
+import { stripCurrency } from './currency';
+
+export const DEFAULT_NUMBER_FORMAT: NumberFormat = { decimalSeparator: '.', groupSeparator: ',' };
+
+// Formats offered in the upload step. Indian grouping (12,34,567.89) reads
+// with the first, since only the decimal and group separators matter.
+export const NUMBER_FORMAT_OPTIONS: NumberFormat[] = [
+  { decimalSeparator: '.', groupSeparator: ',' },
+  { decimalSeparator: ',', groupSeparator: '.' },
+  { decimalSeparator: ',', groupSeparator: ' ' },
+  { decimalSeparator: '.', groupSeparator: "'" },
+  { decimalSeparator: '.', groupSeparator: ' ' },
+];
+
+const DETECTION_SAMPLE_SIZE = 1000;
+const MAX_EXAMPLES = 3;
+
+// Spaces (regular, non-breaking, thin) and apostrophes only ever group digits;
+// JavaScript's \s covers all three kinds of space
+const SPACE_GROUPING = /\s/g;
+const APOSTROPHE_GROUPING = /['’]/g;
+
+// Scientific notation as written by JavaScript and spreadsheets, e.g. "1e5" or
+// "2.5E-3"; read the same whatever the column's separators
+const SCIENTIFIC_NOTATION = /^[-+]?(\d+\.?\d*|\.\d+)e[-+]?\d+$/i;
+
+// How a text amount shows its decimal separator
+export type AmountReading = 'decimal_point' | 'decimal_comma' | 'ambiguous' | 'plain';
+
+/**
+ * Show a format as an example amount, e.g. "1.234,56"
+ */
+export function describeNumberFormat({ decimalSeparator, groupSeparator }: NumberFormat): string {
+  return `1${groupSeparator}234${decimalSeparator}56`;
+}
+
+/**
+ * Remove currency, parentheses and spaces around the number
+ */
+function toNumberText(value: string): string {
+  return stripCurrency(value.replace(/[()]/g, '')).trim();
+}
+
+/**
+ * Decide which separator a text amount uses as its decimal point. A single
+ * "." or "," followed by exactly three digits, as in "1.234", is ambiguous.
+ */
+export function classifyAmountText(value: string): AmountReading {
+  const text = toNumberText(value).replace(/^[-+]|-$/g, '');
+  const hasOtherGrouping = /\d[\s'’]+\d/.test(text);
+  const digits = text.replace(SPACE_GROUPING, '').replace(APOSTROPHE_GROUPING, '');
+
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  if (lastDot >= 0 && lastComma >= 0) return lastDot > lastComma ? 'decimal_point' : 'decimal_comma';
+  if (lastDot < 0 && lastComma < 0) return 'plain';
+
+  const separator = lastDot >= 0 ? '.' : ',';
+  const reading: AmountReading = separator === '.' ? 'decimal_point' : 'decimal_comma';
+  const parts = digits.split(separator);
+  // A repeated separator groups digits, so the other one is the decimal point
+  if (parts.length > 2) return reading === 'decimal_point' ? 'decimal_comma' : 'decimal_point';
+
+  // Only 1-3 digits not starting with 0 can precede a group of three
+  const [before, after] = parts;
+  const couldBeGrouping = after.length === 3 && /^[1-9]\d{0,2}$/.test(before);
+  return couldBeGrouping && !hasOtherGrouping ? 'ambiguous' : reading;
+}
+
+/**
+ * Infer the number format of an amount column from up to 1,000 text values.
+ * Values already stored as numbers (Excel, JSON) carry no separators and are skipped.
+ */
+export function detectNumberFormat(values: unknown[]): NumberFormatDetection {
+  const sample = values
+    .filter((value): value is string => typeof value === 'string' && /\d/.test(value))
+    .slice(0, DETECTION_SAMPLE_SIZE);
+
+  let decimalPoint = 0;
+  let decimalComma = 0;
+  let ambiguousCount = 0;
+  let spaceGrouped = 0;
+  let apostropheGrouped = 0;
+  sample.forEach(value => {
+    const reading = classifyAmountText(value);
+    if (reading === 'decimal_point') decimalPoint++;
+    if (reading === 'decimal_comma') decimalComma++;
+    if (reading === 'ambiguous') ambiguousCount++;
+    if (/\d\s\d/.test(value)) spaceGrouped++;
+    if (/\d['’]\d/.test(value)) apostropheGrouped++;
+  });
+
+  const decimalSeparator = decimalComma > decimalPoint ? ',' : '.';
+  let groupSeparator: GroupSeparator = decimalSeparator === '.' ? ',' : '.';
+  if (apostropheGrouped > 0 && apostropheGrouped >= spaceGrouped) {
+    groupSeparator = "'";
+  } else if (spaceGrouped > 0) {
+    groupSeparator = ' ';
+  }
+
+  return {
+    format: { decimalSeparator, groupSeparator },
+    source: 'detected',
+    sampleSize: sample.length,
+    decisiveCount: decimalPoint + decimalComma,
+    ambiguousCount,
+  };
+}
+
+/**
+ * Whether the digit groups before the decimal separator are well formed:
+ * 1-3 leading digits, then groups of three, or of two as in Indian 12,34,567
+ */
+function hasValidGrouping(text: string, { decimalSeparator, groupSeparator }: NumberFormat): boolean {
+  if (groupSeparator !== ',' && groupSeparator !== '.') return true;
+
+  const decimalIndex = text.lastIndexOf(decimalSeparator);
+  const integerPart = (decimalIndex >= 0 ? text.slice(0, decimalIndex) : text).replace(/^[-+]/, '');
+  const fraction = decimalIndex >= 0 ? text.slice(decimalIndex + 1) : '';
+  if (fraction.includes(groupSeparator)) return false;
+  if (!integerPart.includes(groupSeparator)) return true;
+
+  const groups = integerPart.split(groupSeparator);
+  return /^\d{1,3}$/.test(groups[0]) &&
+    groups.slice(1, -1).every(group => /^\d{2,3}$/.test(group)) &&
+    /^\d{3}$/.test(groups[groups.length - 1]);
+}
+
+/**
+ * Parse a text amount with the given separators. A trailing minus, as in
+ * "1.234,56-", is read as negative, and scientific notation is accepted.
+ * Returns null for text that does not fit the format rather than guessing.
+ */
+export function parseLocaleNumber(value: string, format: NumberFormat): number | null {
+  let text = toNumberText(value).replace(SPACE_GROUPING, '').replace(APOSTROPHE_GROUPING, '');
+  text = text.replace(/^(.+)-$/, '-$1');
+
+  if (SCIENTIFIC_NOTATION.test(text)) return Number(text);
+  if (!hasValidGrouping(text, format)) return null;
+  if (format.groupSeparator === ',' || format.groupSeparator === '.') {
+    text = text.split(format.groupSeparator).join('');
+  }
+  if (format.decimalSeparator === ',') {
+    text = text.replace(',', '.');
+  }
+
+  return /^[-+]?(\d+\.?\d*|\.\d+)$/.test(text) ? Number(text) : null;
+}
+
+// Text amounts that read differently under another format, collected while cleaning
+export interface NumberFormatIssues {
+  ambiguous: string[];
+  ambiguousCount: number;
+  mismatched: string[];
+  mismatchedCount: number;
+}
+
+export function createNumberFormatIssues(): NumberFormatIssues {
+  return { ambiguous: [], ambiguousCount: 0, mismatched: [], mismatchedCount: 0 };
+}
+
+/**
+ * Record an amount whose reading depends on, or contradicts, the format in use
+ */
+export function recordNumberFormatIssue(issues: NumberFormatIssues, value: unknown, format: NumberFormat): void {
+  if (typeof value !== 'string') return;
+
+  const reading = classifyAmountText(value);
+  if (reading === 'ambiguous') {
+    issues.ambiguousCount++;
+    if (issues.ambiguous.length < MAX_EXAMPLES) issues.ambiguous.push(value);
+  } else if (reading === (format.decimalSeparator === '.' ? 'decimal_comma' : 'decimal_point')) {
+    issues.mismatchedCount++;
+    if (issues.mismatched.length < MAX_EXAMPLES) issues.mismatched.push(value);
+  }
+}
+
+/**
+ * Validation warnings for the collected issues. Ambiguous amounts are only
+ * reported when nothing else in the column confirmed the format.
+ */
+export function getNumberFormatWarnings(issues: NumberFormatIssues, detection: NumberFormatDetection): string[] {
+  const warnings: string[] = [];
+  const label = describeNumberFormat(detection.format);
+
+  if (issues.mismatchedCount > 0) {
+    const count = issues.mismatchedCount;
+    warnings.push(`${count.toLocaleString()} amount${count === 1 ? '' : 's'} such as ${issues.mismatched.map(value => `"${value}"`).join(', ')} ${count === 1 ? 'does' : 'do'} not match the ${label} number format and ${count === 1 ? 'was' : 'were'} skipped. Check the number format.`);
+  }
+
+  if (issues.ambiguousCount > 0 && detection.source === 'detected' && detection.decisiveCount === 0) {
+    const example = issues.ambiguous[0];
+    const reading = parseLocaleNumber(example, detection.format);
+    warnings.push(`${issues.ambiguousCount.toLocaleString()} amount${issues.ambiguousCount === 1 ? '' : 's'} such as ${issues.ambiguous.map(value => `"${value}"`).join(', ')} could use either separator and were read in the ${label} format ("${example}" as ${reading ?? 'invalid'}). Choose the number format if this is wrong.`);
+  }
+
+  return warnings;
+}
+
+/**
+ * The format to read an amount column with: the user's choice when made,
+ * otherwise the detected one
+ */
+export function resolveNumberFormat(values: unknown[], chosen?: NumberFormat): NumberFormatDetection {
+  const detection = detectNumberFormat(values);
+  return chosen ? { ...detection, format: chosen, source: 'user' } : detection;
+}
@@ -3,7 +3,14 @@
 
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
-import type { BenfordResult, ProcessedDataset } from '../types';
+import { formatEnding } from './benfordAnalysis';
+import { formatPValue } from './statistics';
+import { describeThresholds, getConformityLabel } from './conformity';
+import { getDuplicateTypeLabel } from './duplicatePayments';
+import { getOutlierMethodLabel } from './robustOutliers';
+import { describeAnalysisProfile } from './analysisProfile';
+import { MAX_RISK_SCORE, RISK_SCORE_CUTOFFS } from './flagRules';
+import type { BenfordResult, ConformityLevel, DigitSignificance, ProcessedDataset } from '../types';
 import type { AnalysisSummary } from './aiSummary';
 import type { GeminiSummary } from './geminiIntegration';
 
@@ -31,6 +38,7 @@ export interface ReportMetadata {
   version: string;
   datasetHash: string;
   analysisEngine: string;
+  analysisProfile: string;
 }
 
 /**
@@ -57,7 +65,8 @@ export async function generatePDFReport(
     generatedAt: new Date(),
     version: '1.0',
     datasetHash: generateDatasetHash(dataset),
-    analysisEngine: 'ExpenseAudit AI + Benford\'s Law'
+    analysisEngine: 'ExpenseAudit AI + Benford\'s Law',
+    analysisProfile: result.profile.name
   };
 
   // Cover Page
@@ -108,7 +117,7 @@ export async function generatePDFReport(
   if (config.includeMetadata) {
     pdf.addPage();
     yPosition = 20;
-    await addMetadataPage(pdf, metadata, dataset, yPosition);
+    await addMetadataPage(pdf, metadata, result, dataset, yPosition);
   }
 
   // Add page numbers and footers
@@ -167,6 +176,7 @@ async function addCoverPage(
     ['Generated:', metadata.generatedAt.toLocaleString()],
     ['Analysis Engine:', metadata.analysisEngine],
     ['Report Version:', metadata.version],
+    ['Analysis Profile:', metadata.analysisProfile],
     ['Dataset Hash:', metadata.datasetHash.substring(0, 16) + '...']
   ];
 
@@ -299,12 +309,14 @@ async function addStatisticalAnalysis(
     `${freq.expected.toFixed(1)}%`,
     `${freq.observed.toFixed(1)}%`,
     freq.count.toString(),
-    `${freq.deviation.toFixed(1)}%`
+    `${freq.deviation.toFixed(1)}%`,
+    freq.zStatistic.toFixed(2),
+    getSignificanceLabel(freq.significance)
   ]);
 
   autoTable(pdf, {
     startY: yPosition,
-    head: [['Digit', 'Expected %', 'Observed %', 'Count', 'Deviation %']],
+    head: [['Digit', 'Expected %', 'Observed %', 'Count', 'Deviation %', 'Z-Statistic', 'Significant']],
     body: tableData,
     theme: 'grid',
     styles: { fontSize: 10 },
@@ -321,8 +333,9 @@ async function addStatisticalAnalysis(
 
   pdf.setFont('helvetica', 'normal');
   const interpretations = [
-    `MAD Score: ${result.mad.toFixed(4)} (${getMadInterpretation(result.mad)})`,
-    `Chi-Square: ${result.chiSquare.toFixed(2)} (${getChiSquareInterpretation(result.chiSquare)})`,
+    `MAD Score: ${result.mad.toFixed(4)} (${getMadInterpretation(result.conformity.level)})`,
+    `Chi-Square: ${result.chiSquare.toFixed(2)}, ${result.degreesOfFreedom} df, p = ${formatPValue(result.chiSquarePValue)} (${getChiSquareInterpretation(result.chiSquarePValue)})`,
+    `Kolmogorov-Smirnov: ${result.ksStatistic.toFixed(4)} (critical value ${result.ksCriticalValue.toFixed(4)} at 95%)`,
     `Sample Size: ${result.totalAnalyzed.toLocaleString()} transactions (${getSampleSizeQuality(result.totalAnalyzed)})`
   ];
 
@@ -331,6 +344,386 @@ async function addStatisticalAnalysis(
     yPosition += 8;
   });
 
+  // Cite the conformity ranges the verdicts were based on
+  yPosition += 4;
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'italic');
+  [result.conformity, result.secondDigitTest.conformity, result.firstTwoDigitsTest.conformity]
+    .forEach(({ thresholds }) => {
+      const citation = pdf.splitTextToSize(`MAD ranges: ${describeThresholds(thresholds)}`, 170);
+      pdf.text(citation, 20, yPosition);
+      yPosition += citation.length * 5;
+    });
+  pdf.setFontSize(12);
+
+  // Second digit test
+  const secondDigitTest = result.secondDigitTest;
+  if (secondDigitTest.totalAnalyzed > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Second Digit Frequency Analysis:', 20, yPosition);
+    yPosition += 10;
+
+    autoTable(pdf, {
+      startY: yPosition,
+      head: [['Digit', 'Expected %', 'Observed %', 'Count', 'Deviation %', 'Z-Statistic', 'Significant']],
+      body: secondDigitTest.digitFrequencies.map(freq => [
+        freq.digit.toString(),
+        `${freq.expected.toFixed(1)}%`,
+        `${freq.observed.toFixed(1)}%`,
+        freq.count.toString(),
+        `${freq.deviation.toFixed(1)}%`,
+        freq.zStatistic.toFixed(2),
+        getSignificanceLabel(freq.significance)
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 10 },
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+
+    pdf.setFont('helvetica', 'normal');
+    [
+      `MAD Score: ${secondDigitTest.mad.toFixed(4)} (${getMadInterpretation(secondDigitTest.conformity.level)})`,
+      `Chi-Square: ${secondDigitTest.chiSquare.toFixed(2)}, ${secondDigitTest.degreesOfFreedom} df, p = ${formatPValue(secondDigitTest.chiSquarePValue)}`,
+      `Assessment: ${secondDigitTest.overallAssessment.replace('_', ' ').toUpperCase()} (${secondDigitTest.totalAnalyzed.toLocaleString()} amounts)`
+    ].forEach(line => {
+      pdf.text(`• ${line}`, 20, yPosition);
+      yPosition += 8;
+    });
+  }
+
+  // First-two digits test
+  const firstTwoDigitsTest = result.firstTwoDigitsTest;
+  if (firstTwoDigitsTest.totalAnalyzed > 0) {
+    yPosition += 10;
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('First-Two Digits Test:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    [
+      `MAD Score: ${firstTwoDigitsTest.mad.toFixed(4)} (${getMadInterpretation(firstTwoDigitsTest.conformity.level)})`,
+      `Chi-Square: ${firstTwoDigitsTest.chiSquare.toFixed(2)}, ${firstTwoDigitsTest.degreesOfFreedom} df, p = ${formatPValue(firstTwoDigitsTest.chiSquarePValue)}`,
+      `Assessment: ${firstTwoDigitsTest.overallAssessment.replace('_', ' ').toUpperCase()} (${firstTwoDigitsTest.totalAnalyzed.toLocaleString()} amounts)`
+    ].forEach(line => {
+      pdf.text(`• ${line}`, 20, yPosition);
+      yPosition += 8;
+    });
+
+    const spikes = firstTwoDigitsTest.digitFrequencies
+      .filter(freq => freq.observed > freq.expected && freq.significance !== 'none')
+      .sort((a, b) => b.zStatistic - a.zStatistic);
+
+    if (spikes.length > 0) {
+      autoTable(pdf, {
+        startY: yPosition,
+        head: [['First Two Digits', 'Expected %', 'Observed %', 'Count', 'Z-Statistic']],
+        body: spikes.map(freq => [
+          freq.digit.toString(),
+          `${freq.expected.toFixed(2)}%`,
+          `${freq.observed.toFixed(2)}%`,
+          freq.count.toString(),
+          freq.zStatistic.toFixed(2)
+        ]),
+        theme: 'grid',
+        styles: { fontSize: 10 },
+        headStyles: { fillColor: [79, 70, 229] },
+        margin: { left: 20, right: 20 }
+      });
+
+      yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+    }
+  }
+
+  // Last-two digits test
+  const lastTwoDigitsTest = result.lastTwoDigitsTest;
+  if (lastTwoDigitsTest.totalAnalyzed > 0) {
+    yPosition += 10;
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Last-Two Digits Test:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    const endings = lastTwoDigitsTest.overrepresentedEndings.map(f => formatEnding(f.digit)).join(', ');
+    [
+      `Chi-Square vs uniform: ${lastTwoDigitsTest.chiSquare.toFixed(2)}, ${lastTwoDigitsTest.degreesOfFreedom} df, p = ${formatPValue(lastTwoDigitsTest.chiSquarePValue)} (${lastTwoDigitsTest.totalAnalyzed.toLocaleString()} amounts)`,
+      'Verdict from the chi-square p-value; MAD ranges apply only to Benford tests',
+      `Over-represented endings: ${endings || 'None'}`
+    ].forEach(line => {
+      pdf.text(`• ${line}`, 20, yPosition);
+      yPosition += 8;
+    });
+  }
+
+  // Summation test
+  const summationTest = result.summationTest;
+  if (summationTest.totalAnalyzed > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Summation Test:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    [
+      `Total amount tested: $${summationTest.totalAmount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (${summationTest.totalAnalyzed.toLocaleString()} amounts)`,
+      `Expected share per first-two digits bin: ${(100 / summationTest.bins.length).toFixed(2)}%`,
+      `Bins above twice their share: ${summationTest.spikes.map(bin => bin.digits).join(', ') || 'None'}`
+    ].forEach(line => {
+      pdf.text(`• ${line}`, 20, yPosition);
+      yPosition += 8;
+    });
+
+    if (summationTest.spikes.length > 0) {
+      autoTable(pdf, {
+        startY: yPosition,
+        head: [['First Two Digits', 'Share of Total', 'Transactions', 'Row', 'Vendor', 'Amount', 'Share of Bin']],
+        body: summationTest.spikes.flatMap(bin =>
+          bin.topContributors.map((contributor, i) => [
+            i === 0 ? bin.digits.toString() : '',
+            i === 0 ? `${bin.observed.toFixed(2)}%` : '',
+            i === 0 ? bin.count.toString() : '',
+            (contributor.index + 1).toString(),
+            contributor.vendor || 'N/A',
+            `$${contributor.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+            `${contributor.shareOfBin.toFixed(1)}%`
+          ])
+        ),
+        theme: 'grid',
+        styles: { fontSize: 9 },
+        headStyles: { fillColor: [79, 70, 229] },
+        margin: { left: 20, right: 20 }
+      });
+
+      yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+    }
+  }
+
+  // Number duplication test
+  const numberDuplication = result.numberDuplication;
+  if (numberDuplication.topAmounts.length > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Number Duplication Test:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    pdf.text(`• ${numberDuplication.duplicatedAmountCount.toLocaleString()} of ${numberDuplication.distinctAmounts.toLocaleString()} distinct amounts occur more than once`, 20, yPosition);
+    yPosition += 8;
+
+    autoTable(pdf, {
+      startY: yPosition,
+      head: [['Amount', 'Count', 'Share', 'Vendors', 'Categories']],
+      body: numberDuplication.topAmounts.map(entry => [
+        `$${entry.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        entry.count.toString(),
+        `${entry.share.toFixed(2)}%`,
+        entry.vendors.length.toString(),
+        entry.categories.length.toString()
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+  }
+
+  // Duplicate payments
+  const duplicatePayments = result.duplicatePayments;
+  if (duplicatePayments.groups.length > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Duplicate Payments:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    [
+      `Exact duplicates (same vendor, amount and date): ${duplicatePayments.exactCount}`,
+      `Same vendor and amount within ${duplicatePayments.windowDays} days: ${duplicatePayments.nearSameVendorCount}`,
+      `Same amount and date to different vendors: ${duplicatePayments.sameAmountDifferentVendorCount}`,
+      `Potential recovery: $${duplicatePayments.potentialRecovery.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    ].forEach(line => {
+      pdf.text(`• ${line}`, 20, yPosition);
+      yPosition += 8;
+    });
+
+    autoTable(pdf, {
+      startY: yPosition,
+      head: [['Type', 'Amount', 'Vendor(s)', 'Date(s)', 'Payments', 'Recovery']],
+      body: duplicatePayments.groups.slice(0, 25).map(group => [
+        getDuplicateTypeLabel(group.type),
+        `$${group.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        group.vendors.join(', '),
+        group.firstDate === group.lastDate ? group.firstDate : `${group.firstDate} - ${group.lastDate}`,
+        group.rowIndices.length.toString(),
+        `$${group.potentialRecovery.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+  }
+
+  // Outliers against each vendor's and category's own baseline
+  const robustOutliers = result.robustOutliers;
+  if (robustOutliers.outliers.length > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Vendor & Category Outliers:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    const note = `Amounts far above the typical amounts of their own vendor or category. At least ${robustOutliers.minAgreeingMethods} of modified z-score, IQR fence and log z-score agree for each.`;
+    const noteLines = pdf.splitTextToSize(note, 170);
+    pdf.text(noteLines, 20, yPosition);
+    yPosition += noteLines.length * 6 + 4;
+
+    autoTable(pdf, {
+      startY: yPosition,
+      head: [['Amount', 'Vendor / Category', 'Typical (Median)', 'Q1 - Q3', 'Modified Z', 'Log Z', 'Methods']],
+      body: robustOutliers.outliers.slice(0, 25).map(outlier => [
+        `$${outlier.amount.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        `${outlier.baseline.group} (${outlier.baseline.groupType})`,
+        `$${outlier.baseline.median.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        `$${outlier.baseline.q1.toLocaleString(undefined, { maximumFractionDigits: 2 })} - $${outlier.baseline.q3.toLocaleString(undefined, { maximumFractionDigits: 2 })}`,
+        outlier.modifiedZ.toFixed(1),
+        outlier.logZ.toFixed(1),
+        outlier.methods.map(getOutlierMethodLabel).join(', ')
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+  }
+
+  // Vendor names that look like the same vendor
+  const duplicateVendors = result.duplicateVendors;
+  if (duplicateVendors.groups.length > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Likely Duplicate Vendors:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    const note = `Vendor names that are the same after normalization, or at least ${(duplicateVendors.similarityThreshold * 100).toFixed(0)}% similar. Duplicate vendor records can hide split or duplicate payments.`;
+    const noteLines = pdf.splitTextToSize(note, 170);
+    pdf.text(noteLines, 20, yPosition);
+    yPosition += noteLines.length * 6 + 4;
+
+    autoTable(pdf, {
+      startY: yPosition,
+      head: [['Vendor', 'Variants', 'Match', 'Transactions', 'Total', 'Analysis']],
+      body: duplicateVendors.groups.slice(0, 25).map(group => [
+        group.canonical,
+        group.variants.filter(variant => variant.name !== group.canonical).map(variant => variant.name).join(', '),
+        group.matchType === 'normalized' ? 'Same name' : `${(group.similarity * 100).toFixed(0)}% similar`,
+        group.variants.reduce((sum, variant) => sum + variant.transactionCount, 0).toString(),
+        `$${group.variants.reduce((sum, variant) => sum + variant.totalAmount, 0).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        group.merged ? 'Merged' : 'Kept separate'
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+  }
+
+  // First digit test within each original currency
+  const currencyAnalysis = result.currencyAnalysis;
+  if (currencyAnalysis.currencies.length > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Analysis by Currency:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    const note = currencyAnalysis.reportingCurrency
+      ? `Overall tests use amounts converted to ${currencyAnalysis.reportingCurrency}. Each currency is also tested on its original amounts.`
+      : 'No exchange rates were applied, so the overall tests mix currencies. Each currency is tested on its own amounts below.';
+    const noteLines = pdf.splitTextToSize(note, 170);
+    pdf.text(noteLines, 20, yPosition);
+    yPosition += noteLines.length * 6 + 4;
+
+    autoTable(pdf, {
+      startY: yPosition,
+      head: [['Currency', 'Transactions', 'Total', `Total (${currencyAnalysis.reportingCurrency ?? '-'})`, 'MAD', 'Conformity']],
+      body: currencyAnalysis.currencies.map(breakdown => [
+        breakdown.currency,
+        breakdown.transactionCount.toString(),
+        breakdown.originalTotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+        breakdown.convertedTotal !== null ? breakdown.convertedTotal.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) : '-',
+        breakdown.firstDigitTest.mad.toFixed(4),
+        getConformityLabel(breakdown.firstDigitTest.conformity.level)
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+  }
+
+  // Credits, refunds and reversals
+  const creditAnalysis = result.creditAnalysis;
+  if (creditAnalysis.flaggedCredits.length > 0) {
+    pdf.addPage();
+    yPosition = 20;
+
+    pdf.setFont('helvetica', 'bold');
+    pdf.text('Credits & Refunds:', 20, yPosition);
+    yPosition += 10;
+
+    pdf.setFont('helvetica', 'normal');
+    const note = `${creditAnalysis.totalCredits} negative amounts totaling $${creditAnalysis.totalCreditAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })} were analyzed apart from payments. ${creditAnalysis.unmatchedRefundCount} have no original payment from the same vendor.`;
+    const noteLines = pdf.splitTextToSize(note, 170);
+    pdf.text(noteLines, 20, yPosition);
+    yPosition += noteLines.length * 6 + 4;
+
+    autoTable(pdf, {
+      startY: yPosition,
+      head: [['Amount', 'Vendor', 'Risk', 'Reason']],
+      body: creditAnalysis.flaggedCredits.slice(0, 25).map(credit => [
+        `-$${Math.abs(credit.amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        credit.vendor || 'Unknown',
+        `${credit.riskLevel.toUpperCase()} (${credit.score})`,
+        credit.reason
+      ]),
+      theme: 'grid',
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [79, 70, 229] },
+      margin: { left: 20, right: 20 }
+    });
+
+    yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+  }
+
   return yPosition;
 }
 
@@ -443,24 +836,30 @@ async function addFlaggedTransactions(
     `$${transaction.amount.toLocaleString()}`,
     transaction.vendor || 'N/A',
     transaction.firstDigit.toString(),
-    transaction.riskLevel.toUpperCase(),
-    transaction.reason
+    `${transaction.riskLevel.toUpperCase()} (${transaction.score})`,
+    transaction.ruleHits.map(hit => `${hit.description} (+${hit.weight})`).join('\n')
   ]);
 
   autoTable(pdf, {
     startY: yPosition,
-    head: [['Index', 'Amount', 'Vendor', 'First Digit', 'Risk', 'Reason']],
+    head: [['Index', 'Amount', 'Vendor', 'First Digit', 'Risk (Score)', 'Rules (Weight)']],
     body: transactionData,
     theme: 'grid',
     styles: { fontSize: 8 },
     headStyles: { fillColor: [220, 38, 127] },
     margin: { left: 20, right: 20 },
     columnStyles: {
-      5: { cellWidth: 40 }
+      5: { cellWidth: 60 }
     }
   });
 
-  return (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 20 || yPosition + 150;
+  yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 10 || yPosition + 150;
+
+  pdf.setFontSize(9);
+  pdf.setFont('helvetica', 'italic');
+  pdf.text(`Score = sum of rule weights (max ${MAX_RISK_SCORE}). Critical at ${RISK_SCORE_CUTOFFS.critical}+, high at ${RISK_SCORE_CUTOFFS.high}+, otherwise medium.`, 20, yPosition);
+
+  return yPosition + 20;
 }
 
 /**
@@ -597,6 +996,7 @@ async function addRawDataPage(
 async function addMetadataPage(
   pdf: jsPDF,
   metadata: ReportMetadata,
+  result: BenfordResult,
   _dataset: ProcessedDataset,
   yPosition: number
 ): Promise<number> {
@@ -629,7 +1029,26 @@ async function addMetadataPage(
     yPosition += 8;
   });
 
-  yPosition += 20;
+  yPosition += 12;
+
+  // Parameters behind every pattern and flag in this report
+  pdf.setFont('helvetica', 'bold');
+  pdf.text('Analysis Parameters:', 20, yPosition);
+  yPosition += 4;
+
+  autoTable(pdf, {
+    startY: yPosition,
+    body: [
+      ...describeAnalysisProfile(result.profile),
+      ['Approval limits', result.thresholdAvoidance.approvalLimits.map(limit => `$${limit.toLocaleString()}`).join(', ') || 'None']
+    ],
+    theme: 'grid',
+    styles: { fontSize: 9 },
+    columnStyles: { 0: { fontStyle: 'bold', cellWidth: 90 } },
+    margin: { left: 20, right: 20 }
+  });
+
+  yPosition = (pdf as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable?.finalY + 15 || yPosition + 80;
 
   // Legal disclaimer
   pdf.setFont('helvetica', 'bold');
@@ -698,18 +1117,23 @@ function getRiskColor(riskLevel: string): { r: number; g: number; b: number } {
   }
 }
 
-function getMadInterpretation(mad: number): string {
-  if (mad < 0.006) return 'Close conformity to Benford\'s Law';
-  if (mad < 0.012) return 'Acceptable conformity';
-  if (mad < 0.015) return 'Marginally acceptable conformity';
-  if (mad < 0.022) return 'Nonconformity - Investigation recommended';
-  return 'Strong nonconformity - Immediate investigation required';
+function getMadInterpretation(level: ConformityLevel): string {
+  if (level === 'nonconformity') return 'Nonconformity - Investigation recommended';
+  return getConformityLabel(level);
+}
+
+function getChiSquareInterpretation(pValue: number): string {
+  if (pValue >= 0.05) return 'No significant deviation detected';
+  if (pValue >= 0.01) return 'Deviation significant at 95% confidence';
+  return 'Deviation significant at 99% confidence - Requires investigation';
 }
 
-function getChiSquareInterpretation(chiSquare: number): string {
-  if (chiSquare < 15.51) return 'No significant deviation detected';
-  if (chiSquare < 20.09) return 'Moderate deviation detected';
-  return 'Significant deviation - Requires investigation';
+function getSignificanceLabel(significance: DigitSignificance): string {
+  switch (significance) {
+    case 'significant_99': return '99%';
+    case 'significant_95': return '95%';
+    default: return '-';
+  }
 }
 
 function getSampleSizeQuality(size: number): string {
@@ -0,0 +1,124 @@
+// Refund Checks
+// Matches credits (negative amounts) to the payments they refund, and compares
+// each vendor's refunds with what it was paid
+
+import type { CleanedDataRow, VendorRefundRatio } from '../types';
+import { toDayNumber } from './dateUtils';
+
+// Amounts within half a cent are the same amount
+const AMOUNT_TOLERANCE = 0.005;
+
+// Why a refund could not be traced to a payment
+export type UnmatchedRefundReason = 'no_payments' | 'no_matching_payment';
+
+export interface UnmatchedRefund {
+  index: number; // into the credits
+  reason: UnmatchedRefundReason;
+}
+
+interface OpenPayment {
+  amount: number;
+  day: number | null;
+  remaining: number; // not yet refunded
+}
+
+function groupByVendor(rows: CleanedDataRow[]): Map<string, number[]> {
+  const groups = new Map<string, number[]>();
+  rows.forEach((row, index) => {
+    const vendor = row.vendor?.trim();
+    if (!vendor) return;
+    const indices = groups.get(vendor);
+    if (indices) {
+      indices.push(index);
+    } else {
+      groups.set(vendor, [index]);
+    }
+  });
+  return groups;
+}
+
+/**
+ * Find refunds with no original payment: a payment to the same vendor, on or
+ * before the refund, with enough left unrefunded to cover it. Each payment can
+ * back refunds up to its own amount, preferring one of exactly the refunded
+ * amount. Credits without a vendor cannot be traced and are skipped.
+ */
+export function findUnmatchedRefunds(credits: CleanedDataRow[], payments: CleanedDataRow[]): UnmatchedRefund[] {
+  const paymentsByVendor = groupByVendor(payments);
+  const unmatched: UnmatchedRefund[] = [];
+
+  groupByVendor(credits).forEach((creditIndices, vendor) => {
+    const open: OpenPayment[] = (paymentsByVendor.get(vendor) ?? []).map(index => ({
+      amount: payments[index].amount,
+      day: toDayNumber(payments[index].date),
+      remaining: payments[index].amount,
+    }));
+    if (open.length === 0) {
+      creditIndices.forEach(index => unmatched.push({ index, reason: 'no_payments' }));
+      return;
+    }
+
+    // Earliest refunds claim payments first; undated ones go last
+    const byDate = creditIndices
+      .map(index => ({ index, amount: Math.abs(credits[index].amount), day: toDayNumber(credits[index].date) }))
+      .sort((a, b) => (a.day ?? Infinity) - (b.day ?? Infinity));
+
+    byDate.forEach(refund => {
+      const candidates = open.filter(payment =>
+        payment.remaining >= refund.amount - AMOUNT_TOLERANCE &&
+        (refund.day === null || payment.day === null || payment.day <= refund.day)
+      );
+      const original =
+        candidates.find(payment => Math.abs(payment.amount - refund.amount) < AMOUNT_TOLERANCE) ??
+        candidates.sort((a, b) => b.remaining - a.remaining)[0];
+
+      if (original) {
+        original.remaining -= refund.amount;
+      } else {
+        unmatched.push({ index: refund.index, reason: 'no_matching_payment' });
+      }
+    });
+  });
+
+  return unmatched.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Refunds against payments for every vendor with credits, highest ratio first.
+ * A vendor is high when its refunds exceed `refundRatioPercent` of its
+ * payments, or when it was refunded without ever being paid.
+ */
+export function calculateVendorRefundRatios(
+  credits: CleanedDataRow[],
+  payments: CleanedDataRow[],
+  refundRatioPercent: number
+): VendorRefundRatio[] {
+  const paymentsByVendor = groupByVendor(payments);
+
+  return Array.from(groupByVendor(credits), ([vendor, creditIndices]) => {
+    const paymentIndices = paymentsByVendor.get(vendor) ?? [];
+    const paymentTotal = paymentIndices.reduce((sum, index) => sum + payments[index].amount, 0);
+    const refundTotal = creditIndices.reduce((sum, index) => sum + Math.abs(credits[index].amount), 0);
+    const ratio = paymentTotal > 0 ? refundTotal / paymentTotal : null;
+
+    return {
+      vendor,
+      paymentCount: paymentIndices.length,
+      paymentTotal,
+      refundCount: creditIndices.length,
+      refundTotal,
+      ratio,
+      isHigh: ratio === null || ratio * 100 > refundRatioPercent,
+    };
+  }).sort((a, b) => (b.ratio ?? Infinity) - (a.ratio ?? Infinity) || b.refundTotal - a.refundTotal);
+}
+
+/**
+ * Human-readable explanation of an unmatched refund
+ */
+export function getUnmatchedRefundLabel(reason: UnmatchedRefundReason): string {
+  switch (reason) {
+    case 'no_payments': return 'Vendor has no payments';
+    case 'no_matching_payment': return 'No earlier payment covers the amount';
+  }
+}
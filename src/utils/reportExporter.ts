@@ -1,6 +1,12 @@
 // Professional Report Exporter
 // Generates comprehensive audit reports in multiple formats
 
+import { formatEnding } from './benfordAnalysis';
+import { formatPValue } from './statistics';
+import { describeThresholds, getConformityLabel } from './conformity';
+import { getDuplicateTypeLabel } from './duplicatePayments';
+import { describeAnalysisProfile } from './analysisProfile';
+import { formatEvidence } from './flagRules';
 import type { BenfordResult, ProcessedDataset } from '../types';
 import type { AnalysisSummary } from './aiSummary';
 import type { GeminiSummary } from './geminiIntegration';
@@ -77,9 +83,28 @@ ${aiSummary.recommendations.map(rec => `• ${rec}`).join('\n')}
 ## TECHNICAL METRICS
 
 **Statistical Analysis:**
-• Mean Absolute Deviation (MAD): ${result.mad.toFixed(4)}
-• Chi-Square Statistic: ${result.chiSquare.toFixed(2)}
+• Mean Absolute Deviation (MAD): ${result.mad.toFixed(4)} (${getConformityLabel(result.conformity.level)})
+• MAD Ranges Applied: ${describeThresholds(result.conformity.thresholds)}
+• Chi-Square Statistic: ${result.chiSquare.toFixed(2)} (${result.degreesOfFreedom} df, p = ${formatPValue(result.chiSquarePValue)})
+• Kolmogorov-Smirnov: ${result.ksStatistic.toFixed(4)} (critical value ${result.ksCriticalValue.toFixed(4)} at 95%)
+• Significant Digits: ${result.digitFrequencies.filter(f => f.significance !== 'none').map(f => `${f.digit} (Z = ${f.zStatistic.toFixed(2)})`).join(', ') || 'none'}
 • Overall Assessment: ${result.overallAssessment.replace('_', ' ').toUpperCase()}
+• Second Digit Test: MAD ${result.secondDigitTest.mad.toFixed(4)}, Chi-Square ${result.secondDigitTest.chiSquare.toFixed(2)} (${result.secondDigitTest.overallAssessment.replace('_', ' ').toUpperCase()})
+• First-Two Digits Test: MAD ${result.firstTwoDigitsTest.mad.toFixed(4)}, Chi-Square ${result.firstTwoDigitsTest.chiSquare.toFixed(2)} (${result.firstTwoDigitsTest.overallAssessment.replace('_', ' ').toUpperCase()})
+• Last-Two Digits Test: Chi-Square ${result.lastTwoDigitsTest.chiSquare.toFixed(2)}, over-represented endings: ${result.lastTwoDigitsTest.overrepresentedEndings.map(f => formatEnding(f.digit)).join(', ') || 'none'}
+• Number Duplication: ${result.numberDuplication.duplicatedAmountCount} amounts repeat; most frequent: ${result.numberDuplication.topAmounts.slice(0, 5).map(entry => `$${entry.amount.toLocaleString()} ×${entry.count}`).join(', ') || 'none'}
+• Duplicate Payments: ${result.duplicatePayments.exactCount} exact, ${result.duplicatePayments.nearSameVendorCount} same vendor within ${result.duplicatePayments.windowDays} days, ${result.duplicatePayments.sameAmountDifferentVendorCount} same amount to different vendors (potential recovery $${result.duplicatePayments.potentialRecovery.toLocaleString()})
+• Approval Limits (${result.thresholdAvoidance.approvalLimits.map(limit => `$${limit.toLocaleString()}`).join(', ') || 'none'}): ${result.thresholdAvoidance.clusters.filter(cluster => cluster.isClustered).length} with amounts clustered just below, ${result.thresholdAvoidance.splitPurchases.length} possible split purchases
+• Vendor/Category Outliers: ${result.robustOutliers.outliers.length} amounts far above their own baseline across ${result.robustOutliers.baselines.length} vendors and categories; largest: ${result.robustOutliers.outliers.slice(0, 3).map(outlier => `$${outlier.amount.toLocaleString()} to ${outlier.baseline.group} (typical $${outlier.baseline.median.toLocaleString(undefined, { maximumFractionDigits: 2 })})`).join(', ') || 'none'}
+• Duplicate Vendors: ${result.duplicateVendors.groups.length} vendors recorded under more than one name (${result.duplicateVendors.groups.filter(group => group.merged).length} merged for analysis): ${result.duplicateVendors.groups.slice(0, 3).map(group => group.variants.map(variant => `"${variant.name}"`).join(' / ')).join(', ') || 'none'}
+• Credits & Refunds: ${result.creditAnalysis.totalCredits} negative amounts totaling $${result.creditAnalysis.totalCreditAmount.toLocaleString(undefined, { maximumFractionDigits: 2 })} (${(result.creditAnalysis.creditToPaymentRatio * 100).toFixed(1)}% of payments)${result.creditAnalysis.benfordTest ? `, first digit MAD ${result.creditAnalysis.benfordTest.mad.toFixed(4)}` : ''}; ${result.creditAnalysis.unmatchedRefundCount} without an original payment; high refund ratios: ${result.creditAnalysis.vendorRatios.filter(ratio => ratio.isHigh).slice(0, 3).map(ratio => `${ratio.vendor} (${ratio.ratio === null ? 'never paid' : `${(ratio.ratio * 100).toFixed(0)}%`})`).join(', ') || 'none'}
+• Currencies: ${result.currencyAnalysis.currencies.length > 0 ? `${result.currencyAnalysis.currencies.map(breakdown => `${breakdown.currency} (${breakdown.transactionCount} transactions, MAD ${breakdown.firstDigitTest.mad.toFixed(4)})`).join(', ')}; ${result.currencyAnalysis.reportingCurrency ? `overall tests on amounts converted to ${result.currencyAnalysis.reportingCurrency}${result.currencyAnalysis.unconvertedRows > 0 ? `, ${result.currencyAnalysis.unconvertedRows} rows without a rate left out` : ''}` : 'not converted'}` : 'single currency'}
+• Category Analysis: ${result.categoryAnalysis.length} categories tested; high risk: ${result.categoryAnalysis.filter(c => c.riskLevel === 'high' || c.riskLevel === 'critical').map(c => `${c.category} (MAD ${c.mad.toFixed(4)})`).join(', ') || 'none'}
+• Drift Over Time: ${result.temporalDrift ? `${result.temporalDrift.monthly.periods.filter(period => period.isBreakdown).length} of ${result.temporalDrift.monthly.periods.length} months nonconforming${result.temporalDrift.monthly.firstBreakdown ? `, first in ${result.temporalDrift.monthly.firstBreakdown}` : ''}` : 'no dates available'}
+• Summation Test: bins above twice their share of the total amount: ${result.summationTest.spikes.map(bin => `${bin.digits} (${bin.observed.toFixed(2)}%)`).join(', ') || 'none'}
+
+**Analysis Parameters:**
+${describeAnalysisProfile(result.profile).map(([label, value]) => `• ${label}: ${value}`).join('\n')}
 
 **Data Quality:**
 • Total Transactions: ${aiSummary.keyMetrics.totalTransactions}
@@ -117,24 +142,39 @@ ${geminiSummary.furtherInvestigation.map((item: string) => `• ${item}`).join('
 }
 
 /**
- * Export flagged transactions to CSV format
+ * Quote a CSV field, doubling any quotes inside it
+ */
+export function csvField(value: string | number): string {
+  return `"${String(value).replace(/"/g, '""')}"`;
+}
+
+/**
+ * Export flagged transactions to CSV format, one row per rule hit so the
+ * composite score can be traced to its rules and evidence
  */
 export function exportFlaggedTransactionsCSV(result: BenfordResult, dataset: ProcessedDataset): string {
-  const headers = ['Index', 'Amount', 'Vendor', 'First Digit', 'Risk Level', 'Reason', 'Date'];
+  const headers = ['Index', 'Amount', 'Vendor', 'Transaction Type', 'First Digit', 'Risk Level', 'Score', 'Rule', 'Rule Description', 'Weight', 'Evidence', 'Date'];
   const csvContent = [headers.join(',')];
 
   result.flaggedTransactions.forEach(transaction => {
     const originalRow = dataset.data[transaction.index];
-    const row = [
-      transaction.index.toString(),
-      `"$${transaction.amount.toLocaleString()}"`,
-      `"${transaction.vendor || 'N/A'}"`,
-      transaction.firstDigit.toString(),
-      transaction.riskLevel,
-      `"${transaction.reason}"`,
-      originalRow?.date ? originalRow.date.toLocaleDateString() : 'N/A'
-    ];
-    csvContent.push(row.join(','));
+    transaction.ruleHits.forEach(hit => {
+      const row = [
+        transaction.index.toString(),
+        csvField(`$${transaction.amount.toLocaleString()}`),
+        csvField(transaction.vendor || 'N/A'),
+        csvField(transaction.transactionType || 'N/A'),
+        transaction.firstDigit.toString(),
+        transaction.riskLevel,
+        transaction.score.toString(),
+        hit.ruleId,
+        csvField(hit.description),
+        hit.weight.toString(),
+        csvField(formatEvidence(hit.evidence)),
+        originalRow?.date ? new Date(originalRow.date).toLocaleDateString() : 'N/A'
+      ];
+      csvContent.push(row.join(','));
+    });
   });
 
   return csvContent.join('\n');
@@ -149,12 +189,35 @@ export function exportSuspiciousVendorsCSV(result: BenfordResult): string {
 
   result.suspiciousVendors.forEach(vendor => {
     const row = [
-      `"${vendor.vendor}"`,
+      csvField(vendor.vendor),
       vendor.transactionCount.toString(),
       vendor.mad.toFixed(4),
       vendor.chiSquare.toFixed(2),
       vendor.riskLevel,
-      `"${vendor.suspiciousPatterns.join('; ')}"`
+      csvField(vendor.suspiciousPatterns.join('; '))
+    ];
+    csvContent.push(row.join(','));
+  });
+
+  return csvContent.join('\n');
+}
+
+/**
+ * Export category analysis to CSV format
+ */
+export function exportCategoryAnalysisCSV(result: BenfordResult): string {
+  const headers = ['Category', 'Transaction Count', 'Total Amount', 'MAD Score', 'Chi-Square', 'Risk Level', 'Suspicious Patterns'];
+  const csvContent = [headers.join(',')];
+
+  result.categoryAnalysis.forEach(category => {
+    const row = [
+      csvField(category.category),
+      category.transactionCount.toString(),
+      csvField(`$${category.totalAmount.toLocaleString()}`),
+      category.mad.toFixed(4),
+      category.chiSquare.toFixed(2),
+      category.riskLevel,
+      csvField(category.suspiciousPatterns.join('; '))
     ];
     csvContent.push(row.join(','));
   });
@@ -162,6 +225,34 @@ export function exportSuspiciousVendorsCSV(result: BenfordResult): string {
   return csvContent.join('\n');
 }
 
+/**
+ * Export duplicate payment groups to CSV format, one line per transaction
+ */
+export function exportDuplicatePaymentsCSV(result: BenfordResult, dataset: ProcessedDataset): string {
+  const headers = ['Group', 'Type', 'Index', 'Amount', 'Vendor', 'Category', 'Transaction Type', 'Date', 'Potential Recovery'];
+  const csvContent = [headers.join(',')];
+
+  result.duplicatePayments.groups.forEach((group, groupIndex) => {
+    group.rowIndices.forEach(index => {
+      const originalRow = dataset.data[index];
+      const row = [
+        (groupIndex + 1).toString(),
+        csvField(getDuplicateTypeLabel(group.type)),
+        index.toString(),
+        csvField(`$${group.amount.toLocaleString()}`),
+        csvField(originalRow?.vendor || 'N/A'),
+        csvField(originalRow?.category || 'N/A'),
+        csvField(originalRow?.transactionType || 'N/A'),
+        originalRow?.date ? new Date(originalRow.date).toLocaleDateString() : 'N/A',
+        csvField(`$${group.potentialRecovery.toLocaleString()}`)
+      ];
+      csvContent.push(row.join(','));
+    });
+  });
+
+  return csvContent.join('\n');
+}
+
 /**
  * Generate comprehensive JSON export
  */
@@ -177,6 +268,7 @@ export function generateJSONExport(
       exportType: 'ExpenseAudit_AI_Analysis',
       version: '1.0',
       generatedAt: new Date().toISOString(),
+      analysisProfile: result.profile,
       options
     },
     analysis: {
@@ -0,0 +1,152 @@
+// Robust Outlier Detection
+// Compares each amount with the typical amounts of its own vendor and category,
+// so a payment that is normal for one vendor can still stand out for another.
+// All three methods work on ln(amount): spend is right-skewed, and on a linear
+// scale the ordinary tail of a vendor's amounts would look like outliers.
+
+import type {
+  AnalysisProfile,
+  CleanedDataRow,
+  GroupBaseline,
+  OutlierGroupType,
+  OutlierMethod,
+  RobustOutlier,
+  RobustOutlierResult,
+} from '../types';
+import { DEFAULT_ANALYSIS_PROFILE } from './analysisProfile';
+
+// An amount is only an outlier when at least this many methods agree
+export const MIN_AGREEING_METHODS = 2;
+
+// Scales the MAD to the standard deviation of a normal distribution (Iglewicz & Hoaglin)
+const MODIFIED_Z_SCALE = 0.6745;
+// Scales the mean absolute deviation when the MAD is zero
+const MEAN_ABSOLUTE_DEVIATION_SCALE = 1.253314;
+
+/**
+ * Percentile of sorted values, interpolating between neighbours
+ */
+function percentile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Modified z-score of ln(amount) against the group median. Groups where most
+ * amounts are identical have a MAD of zero, so the mean absolute deviation is
+ * used instead.
+ */
+function modifiedZScore(amount: number, baseline: GroupBaseline, logMeanAbsoluteDeviation: number): number {
+  const deviation = Math.log(amount) - Math.log(baseline.median);
+  if (baseline.logMad > 0) return (MODIFIED_Z_SCALE * deviation) / baseline.logMad;
+  if (logMeanAbsoluteDeviation > 0) return deviation / (MEAN_ABSOLUTE_DEVIATION_SCALE * logMeanAbsoluteDeviation);
+  return 0;
+}
+
+/**
+ * Build the baseline of one vendor or category from its positive amounts
+ */
+export function calculateGroupBaseline(groupType: OutlierGroupType, group: string, amounts: number[], iqrMultiple: number): GroupBaseline {
+  const sorted = amounts.filter(amount => amount > 0).sort((a, b) => a - b);
+  const logs = sorted.map(amount => Math.log(amount));
+  const logMedian = percentile(logs, 0.5);
+  const logDeviations = logs.map(value => Math.abs(value - logMedian)).sort((a, b) => a - b);
+  const q1 = percentile(sorted, 0.25);
+  const q3 = percentile(sorted, 0.75);
+  const logMean = logs.reduce((sum, value) => sum + value, 0) / logs.length;
+  const logVariance = logs.reduce((sum, value) => sum + (value - logMean) ** 2, 0) / Math.max(1, logs.length - 1);
+
+  return {
+    groupType,
+    group,
+    transactionCount: sorted.length,
+    median: Math.exp(logMedian),
+    q1,
+    q3,
+    upperFence: q3 * (q3 / q1) ** iqrMultiple,
+    logMad: percentile(logDeviations, 0.5),
+    logMean,
+    logStdDev: Math.sqrt(logVariance),
+  };
+}
+
+function detectGroupOutliers(
+  data: CleanedDataRow[],
+  groupType: OutlierGroupType,
+  profile: AnalysisProfile
+): { baselines: GroupBaseline[]; outliers: RobustOutlier[] } {
+  const groups = new Map<string, number[]>();
+  data.forEach((row, index) => {
+    const group = row[groupType]?.trim();
+    if (!group || !(row.amount > 0)) return;
+    const indices = groups.get(group);
+    if (indices) {
+      indices.push(index);
+    } else {
+      groups.set(group, [index]);
+    }
+  });
+
+  const baselines: GroupBaseline[] = [];
+  const outliers: RobustOutlier[] = [];
+
+  groups.forEach((indices, group) => {
+    if (indices.length < profile.minGroupTransactions) return;
+
+    const amounts = indices.map(index => data[index].amount);
+    const baseline = calculateGroupBaseline(groupType, group, amounts, profile.outlierIqrMultiple);
+    const logMedian = Math.log(baseline.median);
+    const logMeanAbsoluteDeviation = amounts.reduce((sum, amount) => sum + Math.abs(Math.log(amount) - logMedian), 0) / amounts.length;
+    baselines.push(baseline);
+
+    indices.forEach(index => {
+      const amount = data[index].amount;
+      // Only unusually large amounts matter here; small ones are not a fraud signal
+      if (amount <= baseline.median) return;
+
+      const modifiedZ = modifiedZScore(amount, baseline, logMeanAbsoluteDeviation);
+      const logZ = baseline.logStdDev > 0 ? (Math.log(amount) - baseline.logMean) / baseline.logStdDev : 0;
+      const methods: OutlierMethod[] = [];
+      if (modifiedZ > profile.outlierModifiedZ) methods.push('modified_z');
+      if (amount > baseline.upperFence) methods.push('iqr');
+      if (logZ > profile.outlierLogZ) methods.push('log_z');
+
+      if (methods.length >= MIN_AGREEING_METHODS) {
+        outliers.push({ index, amount, baseline, modifiedZ, logZ, methods });
+      }
+    });
+  });
+
+  return { baselines, outliers };
+}
+
+/**
+ * Find amounts far above their vendor's or category's own baseline. Vendors and
+ * categories with fewer than `minGroupTransactions` amounts have no baseline.
+ */
+export function detectRobustOutliers(
+  data: CleanedDataRow[],
+  profile: AnalysisProfile = DEFAULT_ANALYSIS_PROFILE
+): RobustOutlierResult {
+  const vendors = detectGroupOutliers(data, 'vendor', profile);
+  const categories = detectGroupOutliers(data, 'category', profile);
+
+  return {
+    minAgreeingMethods: MIN_AGREEING_METHODS,
+    baselines: [...vendors.baselines, ...categories.baselines],
+    outliers: [...vendors.outliers, ...categories.outliers].sort((a, b) => b.modifiedZ - a.modifiedZ),
+  };
+}
+
+/**
+ * Human-readable label for an outlier method
+ */
+export function getOutlierMethodLabel(method: OutlierMethod): string {
+  switch (method) {
+    case 'modified_z': return 'Modified z-score';
+    case 'iqr': return 'IQR fence';
+    case 'log_z': return 'Log z-score';
+  }
+}
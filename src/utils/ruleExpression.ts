@@ -0,0 +1,503 @@
+// Rule Expression Language
+// Parses user-defined detection rules into predicates over cleaned rows, e.g.
+//   category == "Meals" and amount > 250
+//   weekday(date) in [Sat, Sun]
+//   vendor matches /cash/i and isRound(amount, 100)
+
+import type { CleanedDataRow } from '../types';
+import { toDayNumber } from './dateUtils';
+
+type ValueType = 'number' | 'string' | 'boolean' | 'date';
+
+// null stands for a missing field; conditions on a missing field never match
+type Value = number | string | boolean | Date | null;
+
+interface Token {
+  type: 'number' | 'string' | 'identifier' | 'regex' | 'operator' | 'end';
+  text: string;
+  position: number;
+}
+
+// An expression compiled to a closure, with its static type for validation
+interface Compiled {
+  type: ValueType;
+  evaluate: (row: CleanedDataRow) => Value;
+  position: number;
+  constant?: Value; // set for literals
+}
+
+export type RulePredicate = (row: CleanedDataRow) => boolean;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const KEYWORDS = ['and', 'or', 'not', 'in', 'matches', 'contains', 'true', 'false'];
+
+const OPERATORS = ['==', '!=', '<=', '>=', '<', '>', '+', '-', '*', '/', '(', ')', '[', ']', ','];
+
+const COMPARISON_OPERATORS = ['==', '!=', '<', '<=', '>', '>='];
+
+function toDate(value: Date | string | undefined): Date | null {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+const FIELDS: Record<string, { type: ValueType; read: (row: CleanedDataRow) => Value }> = {
+  amount: { type: 'number', read: row => row.amount },
+  vendor: { type: 'string', read: row => row.vendor ?? null },
+  category: { type: 'string', read: row => row.category ?? null },
+  date: { type: 'date', read: row => toDate(row.date) },
+};
+
+// Functions receive non-null arguments; a missing argument makes the result missing
+const FUNCTIONS: Record<string, { params: ValueType[]; returns: ValueType; apply: (...args: never[]) => Value }> = {
+  weekday: { params: ['date'], returns: 'string', apply: (date: Date) => WEEKDAYS[date.getDay()] },
+  day: { params: ['date'], returns: 'number', apply: (date: Date) => date.getDate() },
+  month: { params: ['date'], returns: 'number', apply: (date: Date) => date.getMonth() + 1 },
+  year: { params: ['date'], returns: 'number', apply: (date: Date) => date.getFullYear() },
+  isRound: {
+    params: ['number', 'number'],
+    returns: 'boolean',
+    apply: (value: number, unit: number) => unit !== 0 && value !== 0 && Math.abs(value / unit - Math.round(value / unit)) < 1e-9,
+  },
+  firstDigit: {
+    params: ['number'],
+    returns: 'number',
+    apply: (value: number) => (value === 0 ? null : Number(Math.abs(value).toExponential()[0])),
+  },
+  abs: { params: ['number'], returns: 'number', apply: (value: number) => Math.abs(value) },
+  lower: { params: ['string'], returns: 'string', apply: (value: string) => value.toLowerCase() },
+};
+
+export const RULE_FIELDS = Object.keys(FIELDS);
+
+export const RULE_FUNCTIONS = Object.entries(FUNCTIONS).map(
+  ([name, fn]) => `${name}(${fn.params.join(', ')})`
+);
+
+function fail(message: string, position: number): never {
+  throw new Error(`${message} at position ${position + 1}`);
+}
+
+function describeToken(token: Token): string {
+  return token.type === 'end' ? 'end of rule' : `'${token.text}'`;
+}
+
+function describeType(type: ValueType): string {
+  return type === 'date' ? 'a date' : `a ${type}`;
+}
+
+/**
+ * Split an expression into tokens. A regular expression literal is only read
+ * right after `matches`, so `/` is division everywhere else.
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < expression.length) {
+    const char = expression[i];
+    const start = i;
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    const previous = tokens[tokens.length - 1];
+    if (char === '/' && previous?.type === 'identifier' && previous.text.toLowerCase() === 'matches') {
+      i++;
+      let source = '';
+      while (i < expression.length && expression[i] !== '/') {
+        if (expression[i] === '\\' && i + 1 < expression.length) source += expression[i++];
+        source += expression[i++];
+      }
+      if (i >= expression.length) fail('Unterminated regular expression', start);
+      i++;
+      let flags = '';
+      while (i < expression.length && /[a-z]/i.test(expression[i])) flags += expression[i++];
+      try {
+        new RegExp(source, flags);
+      } catch (error) {
+        fail(`Invalid regular expression /${source}/${flags} (${error instanceof Error ? error.message : 'invalid pattern'})`, start);
+      }
+      tokens.push({ type: 'regex', text: `/${source}/${flags}`, position: start });
+      continue;
+    }
+
+    if (/\d/.test(char)) {
+      const match = /^\d+(\.\d+)?/.exec(expression.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'number', text: match[0], position: start });
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      i++;
+      let text = '';
+      while (i < expression.length && expression[i] !== char) {
+        if (expression[i] === '\\' && i + 1 < expression.length) i++;
+        text += expression[i++];
+      }
+      if (i >= expression.length) fail('Unterminated string', start);
+      i++;
+      tokens.push({ type: 'string', text, position: start });
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(char)) {
+      const match = /^[A-Za-z_][A-Za-z0-9_]*/.exec(expression.slice(i))!;
+      i += match[0].length;
+      tokens.push({ type: 'identifier', text: match[0], position: start });
+      continue;
+    }
+
+    const operator = OPERATORS.find(op => expression.startsWith(op, i));
+    if (operator) {
+      i += operator.length;
+      tokens.push({ type: 'operator', text: operator, position: start });
+      continue;
+    }
+
+    if (char === '=') fail("Use '==' to compare values", start);
+    fail(`Unexpected character '${char}'`, start);
+  }
+
+  tokens.push({ type: 'end', text: '', position: expression.length });
+  return tokens;
+}
+
+// Accept a string literal where a date is expected, e.g. date >= "2024-01-01"
+function coerce(node: Compiled, expected: ValueType, context: string): Compiled {
+  if (node.type === expected) return node;
+  if (expected === 'date' && node.type === 'string' && typeof node.constant === 'string') {
+    const date = toDate(node.constant);
+    if (!date) fail(`'${node.constant}' is not a valid date`, node.position);
+    return { type: 'date', evaluate: () => date, position: node.position, constant: date };
+  }
+  return fail(`${context} expects ${describeType(expected)}, got ${describeType(node.type)}`, node.position);
+}
+
+function compareValues(left: Value, right: Value, type: ValueType): number {
+  if (type === 'date') return toDayNumber(left as Date)! - toDayNumber(right as Date)!;
+  if (type === 'string') return (left as string).toLowerCase().localeCompare((right as string).toLowerCase());
+  if (type === 'number') {
+    const difference = (left as number) - (right as number);
+    return Math.abs(difference) < 1e-9 ? 0 : difference;
+  }
+  return left === right ? 0 : 1;
+}
+
+function isTrue(value: Value): boolean {
+  return value === true;
+}
+
+/**
+ * Compile a rule expression into a predicate over cleaned rows. Throws an
+ * Error naming the problem and its position when the rule is invalid.
+ */
+export function compileRuleExpression(expression: string): RulePredicate {
+  if (!expression.trim()) throw new Error('Rule expression is empty');
+
+  const tokens = tokenize(expression);
+  let current = 0;
+
+  const peek = () => tokens[current];
+  const next = () => tokens[current++];
+  const isKeyword = (token: Token, keyword: string) =>
+    token.type === 'identifier' && token.text.toLowerCase() === keyword;
+  const isOperator = (token: Token, operator: string) => token.type === 'operator' && token.text === operator;
+  const expectOperator = (operator: string) => {
+    const token = next();
+    if (!isOperator(token, operator)) fail(`Expected '${operator}' but found ${describeToken(token)}`, token.position);
+  };
+  const requireType = (node: Compiled, type: ValueType, context: string) => {
+    if (node.type !== type) fail(`${context} expects ${describeType(type)}, got ${describeType(node.type)}`, node.position);
+  };
+
+  function parseOr(): Compiled {
+    let left = parseAnd();
+    while (isKeyword(peek(), 'or')) {
+      const operator = next();
+      const right = parseAnd();
+      requireType(left, 'boolean', "'or'");
+      requireType(right, 'boolean', "'or'");
+      const [a, b] = [left.evaluate, right.evaluate];
+      left = { type: 'boolean', evaluate: row => isTrue(a(row)) || isTrue(b(row)), position: operator.position };
+    }
+    return left;
+  }
+
+  function parseAnd(): Compiled {
+    let left = parseNot();
+    while (isKeyword(peek(), 'and')) {
+      const operator = next();
+      const right = parseNot();
+      requireType(left, 'boolean', "'and'");
+      requireType(right, 'boolean', "'and'");
+      const [a, b] = [left.evaluate, right.evaluate];
+      left = { type: 'boolean', evaluate: row => isTrue(a(row)) && isTrue(b(row)), position: operator.position };
+    }
+    return left;
+  }
+
+  function parseNot(): Compiled {
+    if (isKeyword(peek(), 'not')) {
+      const operator = next();
+      const operand = parseNot();
+      requireType(operand, 'boolean', "'not'");
+      return { type: 'boolean', evaluate: row => operand.evaluate(row) === false, position: operator.position };
+    }
+    return parseComparison();
+  }
+
+  function parseList(left: Compiled): Compiled[] {
+    expectOperator('[');
+    const items: Compiled[] = [];
+    while (!isOperator(peek(), ']')) {
+      const token = next();
+      let item: Compiled;
+      if (token.type === 'number' || (isOperator(token, '-') && peek().type === 'number')) {
+        const value = token.type === 'number' ? Number(token.text) : -Number(next().text);
+        item = { type: 'number', evaluate: () => value, position: token.position, constant: value };
+      } else if (token.type === 'string' || token.type === 'identifier') {
+        // Bare words are text, so weekday(date) in [Sat, Sun] needs no quotes
+        item = { type: 'string', evaluate: () => token.text, position: token.position, constant: token.text };
+      } else {
+        fail(`Expected a list value but found ${describeToken(token)}`, token.position);
+      }
+      items.push(coerce(item, left.type, "'in' list"));
+      if (!isOperator(peek(), ']')) expectOperator(',');
+    }
+    next();
+    if (items.length === 0) fail("'in' list is empty", left.position);
+    return items;
+  }
+
+  function parseComparison(): Compiled {
+    const left = parseAdditive();
+    const token = peek();
+
+    if (token.type === 'operator' && COMPARISON_OPERATORS.includes(token.text)) {
+      next();
+      let right = parseAdditive();
+      const context = `'${token.text}'`;
+      let typedLeft = left;
+      if (left.type === 'date') right = coerce(right, 'date', context);
+      else if (right.type === 'date') typedLeft = coerce(left, 'date', context);
+      else if (left.type !== right.type) {
+        fail(`Cannot compare ${describeType(left.type)} with ${describeType(right.type)}`, token.position);
+      }
+      if (typedLeft.type === 'boolean' && token.text !== '==' && token.text !== '!=') {
+        fail(`${context} cannot order true/false values`, token.position);
+      }
+      const type = typedLeft.type;
+      const test: Record<string, (order: number) => boolean> = {
+        '==': order => order === 0,
+        '!=': order => order !== 0,
+        '<': order => order < 0,
+        '<=': order => order <= 0,
+        '>': order => order > 0,
+        '>=': order => order >= 0,
+      };
+      const check = test[token.text];
+      return {
+        type: 'boolean',
+        evaluate: row => {
+          const a = typedLeft.evaluate(row);
+          const b = right.evaluate(row);
+          return a !== null && b !== null && check(compareValues(a, b, type));
+        },
+        position: token.position,
+      };
+    }
+
+    const negated = isKeyword(token, 'not') && isKeyword(tokens[current + 1], 'in');
+    if (negated || isKeyword(token, 'in')) {
+      if (negated) next();
+      next();
+      if (left.type === 'boolean') fail("'in' cannot be used with true/false values", token.position);
+      const items = parseList(left);
+      const values = items.map(item => item.constant!);
+      return {
+        type: 'boolean',
+        evaluate: row => {
+          const value = left.evaluate(row);
+          if (value === null) return false;
+          return values.some(item => compareValues(value, item, left.type) === 0) !== negated;
+        },
+        position: token.position,
+      };
+    }
+
+    if (isKeyword(token, 'matches')) {
+      next();
+      requireType(left, 'string', "'matches'");
+      const regexToken = next();
+      if (regexToken.type !== 'regex') {
+        fail(`'matches' expects a regular expression like /cash/i, found ${describeToken(regexToken)}`, regexToken.position);
+      }
+      const end = regexToken.text.lastIndexOf('/');
+      const pattern = new RegExp(regexToken.text.slice(1, end), regexToken.text.slice(end + 1).replace('g', ''));
+      return {
+        type: 'boolean',
+        evaluate: row => {
+          const value = left.evaluate(row);
+          return value !== null && pattern.test(value as string);
+        },
+        position: token.position,
+      };
+    }
+
+    if (isKeyword(token, 'contains')) {
+      next();
+      requireType(left, 'string', "'contains'");
+      const right = parseAdditive();
+      requireType(right, 'string', "'contains'");
+      return {
+        type: 'boolean',
+        evaluate: row => {
+          const a = left.evaluate(row);
+          const b = right.evaluate(row);
+          return a !== null && b !== null && (a as string).toLowerCase().includes((b as string).toLowerCase());
+        },
+        position: token.position,
+      };
+    }
+
+    return left;
+  }
+
+  function parseArithmetic(operators: string[], parseOperand: () => Compiled): Compiled {
+    let left = parseOperand();
+    while (peek().type === 'operator' && operators.includes(peek().text)) {
+      const operator = next();
+      const right = parseOperand();
+      requireType(left, 'number', `'${operator.text}'`);
+      requireType(right, 'number', `'${operator.text}'`);
+      const [a, b] = [left.evaluate, right.evaluate];
+      const apply = {
+        '+': (x: number, y: number) => x + y,
+        '-': (x: number, y: number) => x - y,
+        '*': (x: number, y: number) => x * y,
+        '/': (x: number, y: number) => (y === 0 ? null : x / y),
+      }[operator.text as '+' | '-' | '*' | '/'];
+      left = {
+        type: 'number',
+        evaluate: row => {
+          const x = a(row);
+          const y = b(row);
+          return x === null || y === null ? null : apply(x as number, y as number);
+        },
+        position: operator.position,
+      };
+    }
+    return left;
+  }
+
+  function parseAdditive(): Compiled {
+    return parseArithmetic(['+', '-'], parseMultiplicative);
+  }
+
+  function parseMultiplicative(): Compiled {
+    return parseArithmetic(['*', '/'], parseUnary);
+  }
+
+  function parseUnary(): Compiled {
+    if (isOperator(peek(), '-')) {
+      const operator = next();
+      const operand = parseUnary();
+      requireType(operand, 'number', "'-'");
+      return {
+        type: 'number',
+        evaluate: row => {
+          const value = operand.evaluate(row);
+          return value === null ? null : -(value as number);
+        },
+        position: operator.position,
+      };
+    }
+    return parsePrimary();
+  }
+
+  function parseCall(name: Token): Compiled {
+    const fn = FUNCTIONS[name.text];
+    if (!fn) {
+      fail(`Unknown function '${name.text}' (available: ${RULE_FUNCTIONS.join(', ')})`, name.position);
+    }
+    expectOperator('(');
+    const args: Compiled[] = [];
+    while (!isOperator(peek(), ')')) {
+      args.push(parseOr());
+      if (!isOperator(peek(), ')')) expectOperator(',');
+    }
+    next();
+    if (args.length !== fn.params.length) {
+      fail(`${name.text}() takes ${fn.params.length} argument${fn.params.length === 1 ? '' : 's'}, got ${args.length}`, name.position);
+    }
+    const typedArgs = args.map((arg, i) => coerce(arg, fn.params[i], `${name.text}() argument ${i + 1}`));
+    const apply = fn.apply as (...values: Value[]) => Value;
+    return {
+      type: fn.returns,
+      evaluate: row => {
+        const values = typedArgs.map(arg => arg.evaluate(row));
+        return values.some(value => value === null) ? null : apply(...values);
+      },
+      position: name.position,
+    };
+  }
+
+  function parsePrimary(): Compiled {
+    const token = next();
+
+    if (token.type === 'number') {
+      const value = Number(token.text);
+      return { type: 'number', evaluate: () => value, position: token.position, constant: value };
+    }
+    if (token.type === 'string') {
+      return { type: 'string', evaluate: () => token.text, position: token.position, constant: token.text };
+    }
+    if (isOperator(token, '(')) {
+      const inner = parseOr();
+      expectOperator(')');
+      return inner;
+    }
+    if (token.type === 'identifier') {
+      const word = token.text.toLowerCase();
+      if (word === 'true' || word === 'false') {
+        const value = word === 'true';
+        return { type: 'boolean', evaluate: () => value, position: token.position, constant: value };
+      }
+      if (KEYWORDS.includes(word)) fail(`Unexpected '${token.text}'`, token.position);
+      if (isOperator(peek(), '(')) return parseCall(token);
+      const field = FIELDS[token.text];
+      if (!field) {
+        fail(`Unknown field '${token.text}' (available: ${RULE_FIELDS.join(', ')})`, token.position);
+      }
+      return { type: field.type, evaluate: field.read, position: token.position };
+    }
+
+    return fail(token.type === 'end' ? 'Unexpected end of rule' : `Unexpected ${describeToken(token)}`, token.position);
+  }
+
+  const root = parseOr();
+  const trailing = peek();
+  if (trailing.type !== 'end') fail(`Unexpected ${describeToken(trailing)}`, trailing.position);
+  if (root.type !== 'boolean') {
+    fail(`Rule must be a condition such as amount > 100, but this is ${describeType(root.type)}`, root.position);
+  }
+
+  return row => isTrue(root.evaluate(row));
+}
+
+/**
+ * Check a rule expression, returning the parse error message or null when valid
+ */
+export function validateRuleExpression(expression: string): string | null {
+  try {
+    compileRuleExpression(expression);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid rule';
+  }
+}
@@ -0,0 +1,110 @@
+// Statistical Distribution Helpers
+// Small numeric routines used to turn test statistics into p-values
+
+const MAX_ITERATIONS = 200;
+const EPSILON = 1e-12;
+
+/**
+ * Natural log of the gamma function (Lanczos approximation)
+ */
+export function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146,
+    -86.50532032941678,
+    24.01409824083091,
+    -1.231739572450155,
+    0.1208650973866179e-2,
+    -0.5395239384953e-5,
+  ];
+
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    y += 1;
+    series += coefficient / y;
+  }
+
+  return -tmp + Math.log((2.5066282746310002 * series) / x);
+}
+
+/**
+ * Regularized lower incomplete gamma function P(a, x), by series expansion
+ */
+function gammaSeries(a: number, x: number): number {
+  let sum = 1 / a;
+  let term = sum;
+
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    term *= x / (a + n);
+    sum += term;
+    if (Math.abs(term) < Math.abs(sum) * EPSILON) break;
+  }
+
+  return sum * Math.exp(-x + a * Math.log(x) - logGamma(a));
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x), by continued fraction
+ */
+function gammaContinuedFraction(a: number, x: number): number {
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+
+  return Math.exp(-x + a * Math.log(x) - logGamma(a)) * h;
+}
+
+/**
+ * Regularized upper incomplete gamma function Q(a, x)
+ */
+export function regularizedGammaQ(a: number, x: number): number {
+  if (x <= 0) return 1;
+  if (x < a + 1) {
+    return 1 - gammaSeries(a, x);
+  }
+  return gammaContinuedFraction(a, x);
+}
+
+/**
+ * Probability of a chi-square value at least this large under the null hypothesis
+ */
+export function chiSquarePValue(chiSquare: number, degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= 0 || !isFinite(chiSquare)) {
+    return 1;
+  }
+  return Math.min(1, Math.max(0, regularizedGammaQ(degreesOfFreedom / 2, chiSquare / 2)));
+}
+
+/**
+ * Critical value of the Kolmogorov-Smirnov statistic for a sample size
+ */
+export function ksCriticalValue(sampleSize: number, confidence: 95 | 99 = 95): number {
+  if (sampleSize <= 0) {
+    return 0;
+  }
+  const coefficient = confidence === 99 ? 1.63 : 1.36;
+  return coefficient / Math.sqrt(sampleSize);
+}
+
+/**
+ * Format a p-value for display, avoiding a misleading "0.0000"
+ */
+export function formatPValue(pValue: number): string {
+  return pValue < 0.0001 ? '< 0.0001' : pValue.toFixed(4);
+}
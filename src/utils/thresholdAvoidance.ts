@@ -0,0 +1,149 @@
+// Threshold Avoidance Detection
+// Finds amounts kept just under approval limits and purchases split to stay below them
+
+import type {
+  ApprovalLimitCluster,
+  CleanedDataRow,
+  SplitPurchase,
+  ThresholdAvoidanceResult,
+} from '../types';
+import { formatDay, toDayNumber } from './dateUtils';
+
+export const DEFAULT_APPROVAL_LIMITS = [5000, 10000];
+
+// Amounts within this fraction below a limit count as "just below" it
+const JUST_BELOW_BAND = 0.1;
+
+// A limit shows clustering when the band below holds this many amounts and
+// more than twice as many as the same-width band above
+const MIN_CLUSTER_COUNT = 5;
+const CLUSTER_RATIO = 2;
+
+// Payments to one vendor this many days apart can form a split purchase
+const SPLIT_WINDOW_DAYS = 1;
+
+// Parts smaller than this fraction of the limit are incidental, not a split
+const MIN_SPLIT_PART = 0.1;
+
+/**
+ * Clean a list of approval limits: positive, unique and ascending
+ */
+export function normalizeApprovalLimits(limits: number[]): number[] {
+  return Array.from(new Set(limits.filter(limit => isFinite(limit) && limit > 0))).sort((a, b) => a - b);
+}
+
+/**
+ * Format an approval limit for patterns and reasons, e.g. $5,000
+ */
+export function formatLimit(limit: number): string {
+  return `$${limit.toLocaleString()}`;
+}
+
+/**
+ * Count amounts just below and just above each approval limit
+ */
+function findLimitClusters(data: CleanedDataRow[], limits: number[]): ApprovalLimitCluster[] {
+  return limits.map(limit => {
+    const bandFloor = limit * (1 - JUST_BELOW_BAND);
+    const bandCeiling = limit * (1 + JUST_BELOW_BAND);
+    const rowIndices: number[] = [];
+    let justAboveCount = 0;
+
+    data.forEach((row, index) => {
+      if (row.amount >= bandFloor && row.amount < limit) {
+        rowIndices.push(index);
+      } else if (row.amount >= limit && row.amount < bandCeiling) {
+        justAboveCount++;
+      }
+    });
+
+    return {
+      limit,
+      bandFloor,
+      justBelowCount: rowIndices.length,
+      justAboveCount,
+      isClustered: rowIndices.length >= MIN_CLUSTER_COUNT && rowIndices.length > justAboveCount * CLUSTER_RATIO,
+      rowIndices,
+    };
+  });
+}
+
+/**
+ * Find payments to the same vendor on the same or adjacent days that are each
+ * under a limit but add up to at least that limit. Windows do not overlap, and
+ * each window reports the highest limit it crosses.
+ */
+function findSplitPurchases(data: CleanedDataRow[], limits: number[]): SplitPurchase[] {
+  const vendorRows = new Map<string, { index: number; day: number }[]>();
+  data.forEach((row, index) => {
+    const vendor = row.vendor?.trim();
+    const day = toDayNumber(row.date);
+    if (!vendor || day === null || row.amount <= 0) return;
+    if (!vendorRows.has(vendor)) {
+      vendorRows.set(vendor, []);
+    }
+    vendorRows.get(vendor)!.push({ index, day });
+  });
+
+  const splits: SplitPurchase[] = [];
+  const limitsDescending = [...limits].reverse();
+
+  vendorRows.forEach((rows, vendor) => {
+    if (rows.length < 2) return;
+    rows.sort((a, b) => a.day - b.day);
+
+    let start = 0;
+    while (start < rows.length) {
+      let end = start;
+      while (end + 1 < rows.length && rows[end + 1].day - rows[start].day <= SPLIT_WINDOW_DAYS) {
+        end++;
+      }
+      const window = rows.slice(start, end + 1);
+
+      const split = limitsDescending
+        .map(limit => {
+          const parts = window.filter(row => {
+            const amount = data[row.index].amount;
+            return amount < limit && amount >= limit * MIN_SPLIT_PART;
+          });
+          const total = parts.reduce((sum, row) => sum + data[row.index].amount, 0);
+          return { limit, parts, total };
+        })
+        .find(({ limit, parts, total }) => parts.length > 1 && total >= limit);
+
+      if (split) {
+        splits.push({
+          vendor,
+          limit: split.limit,
+          total: split.total,
+          firstDate: formatDay(split.parts[0].day),
+          lastDate: formatDay(split.parts[split.parts.length - 1].day),
+          rowIndices: split.parts.map(row => row.index),
+        });
+        start = end + 1;
+      } else {
+        start++;
+      }
+    }
+  });
+
+  return splits.sort((a, b) => b.total - a.total);
+}
+
+/**
+ * Detect approval-limit avoidance: clustering just below each limit and
+ * split purchases that cross a limit in pieces
+ */
+export function detectThresholdAvoidance(
+  data: CleanedDataRow[],
+  approvalLimits: number[] = DEFAULT_APPROVAL_LIMITS
+): ThresholdAvoidanceResult {
+  const limits = normalizeApprovalLimits(approvalLimits);
+
+  return {
+    approvalLimits: limits,
+    bandWidth: JUST_BELOW_BAND,
+    clusters: findLimitClusters(data, limits),
+    splitPurchases: findSplitPurchases(data, limits),
+  };
+}
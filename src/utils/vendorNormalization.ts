@@ -0,0 +1,244 @@
+// Vendor Name Normalization
+// Folds vendor name variants ("ABC Corp", "ABC Corporation", "abc corp.") into
+// one vendor, and finds near-identical names that may be duplicate vendor records
+
+import type {
+  CleanedDataRow,
+  DuplicateVendorGroup,
+  DuplicateVendorResult,
+  VendorMergeMap,
+  VendorVariant,
+} from '../types';
+
+// Jaro-Winkler similarity at which two normalized names are proposed as one vendor
+export const DEFAULT_VENDOR_SIMILARITY = 0.92;
+
+// Shorter normalized names are only merged on an exact match; "abc" and "abd" are different vendors
+const MIN_FUZZY_NAME_LENGTH = 5;
+
+// Legal-form words dropped from the end of a name (and "the" from the start)
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'companies',
+  'llc', 'llp', 'lp', 'ltd', 'limited', 'plc', 'pllc', 'pc',
+  'gmbh', 'ag', 'kg', 'sa', 'sas', 'sarl', 'srl', 'spa', 'bv', 'nv', 'oy', 'ab', 'as',
+  'pty', 'pte', 'pvt', 'kk', 'holdings', 'group',
+]);
+
+/**
+ * Normalize a vendor name for matching: case folding, accents, punctuation and
+ * legal suffixes are removed. Returns an empty string for names made only of those.
+ */
+export function normalizeVendorName(name: string): string {
+  const words = name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // combining accents left by NFKD
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’.]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+
+  if (words[0] === 'the' && words.length > 1) words.shift();
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1])) words.pop();
+
+  return words.join(' ');
+}
+
+/**
+ * Jaro-Winkler similarity of two strings, from 0 (nothing shared) to 1 (equal)
+ */
+export function jaroWinklerSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (!a || !b) return 0;
+
+  const matchWindow = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(b.length - 1, i + matchWindow);
+    for (let j = start; j <= end; j++) {
+      if (bMatched[j] || a[i] !== b[j]) continue;
+      aMatched[i] = true;
+      bMatched[j] = true;
+      matches++;
+      break;
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// Names that differ in their numbers ("Store 12", "Store 13") are different vendors
+function digitsOf(key: string): string {
+  return key.replace(/[^0-9]+/g, ' ').trim();
+}
+
+function isFuzzyCandidate(a: string, b: string, threshold: number): boolean {
+  if (a.length < MIN_FUZZY_NAME_LENGTH || b.length < MIN_FUZZY_NAME_LENGTH) return false;
+  if (digitsOf(a) !== digitsOf(b)) return false;
+  // Names that differ this much in length cannot reach the threshold
+  if (Math.min(a.length, b.length) / Math.max(a.length, b.length) < threshold - 0.3) return false;
+  return jaroWinklerSimilarity(a, b) >= threshold;
+}
+
+/**
+ * Group vendor names that normalize to the same name or are near-identical.
+ * Only names with more than one variant are returned; `merged` is set for
+ * groups that differ only in normalization, the safe default before review.
+ */
+export function findDuplicateVendors(
+  data: CleanedDataRow[],
+  threshold: number = DEFAULT_VENDOR_SIMILARITY
+): DuplicateVendorGroup[] {
+  // Distinct raw names with their totals
+  const names = new Map<string, { transactionCount: number; totalAmount: number; key: string }>();
+  data.forEach(row => {
+    const name = row.vendor?.trim();
+    if (!name) return;
+    const entry = names.get(name);
+    if (entry) {
+      entry.transactionCount++;
+      entry.totalAmount += row.amount;
+    } else {
+      names.set(name, { transactionCount: 1, totalAmount: row.amount, key: normalizeVendorName(name) || name.toLowerCase() });
+    }
+  });
+
+  // Union-find over normalized names, linking near-identical ones
+  const keys = Array.from(new Set(Array.from(names.values()).map(entry => entry.key))).sort();
+  const parent = new Map(keys.map(key => [key, key]));
+  const find = (key: string): string => {
+    let root = key;
+    while (parent.get(root) !== root) root = parent.get(root)!;
+    parent.set(key, root);
+    return root;
+  };
+
+  // Compare within the same first letter only. This cuts the number of pairs but is still
+  // quadratic within a letter, so a list dominated by one initial stays slow.
+  const byInitial = new Map<string, string[]>();
+  keys.forEach(key => {
+    const block = byInitial.get(key[0]);
+    if (block) {
+      block.push(key);
+    } else {
+      byInitial.set(key[0], [key]);
+    }
+  });
+  byInitial.forEach(block => {
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        if (isFuzzyCandidate(block[i], block[j], threshold)) parent.set(find(block[j]), find(block[i]));
+      }
+    }
+  });
+
+  const clusters = new Map<string, string[]>();
+  names.forEach((entry, name) => {
+    const root = find(entry.key);
+    const cluster = clusters.get(root);
+    if (cluster) {
+      cluster.push(name);
+    } else {
+      clusters.set(root, [name]);
+    }
+  });
+
+  const groups: DuplicateVendorGroup[] = [];
+  clusters.forEach(clusterNames => {
+    if (clusterNames.length < 2) return;
+
+    // The most used spelling becomes the canonical name
+    const [canonical] = [...clusterNames].sort((a, b) =>
+      names.get(b)!.transactionCount - names.get(a)!.transactionCount || a.length - b.length || a.localeCompare(b)
+    );
+    const canonicalKey = names.get(canonical)!.key;
+    const variants: VendorVariant[] = clusterNames
+      .map(name => {
+        const entry = names.get(name)!;
+        return {
+          name,
+          transactionCount: entry.transactionCount,
+          totalAmount: entry.totalAmount,
+          similarity: jaroWinklerSimilarity(entry.key, canonicalKey),
+        };
+      })
+      .sort((a, b) => Number(b.name === canonical) - Number(a.name === canonical) || b.similarity - a.similarity);
+    const isNormalizedMatch = clusterNames.every(name => names.get(name)!.key === canonicalKey);
+
+    groups.push({
+      canonical,
+      matchType: isNormalizedMatch ? 'normalized' : 'fuzzy',
+      similarity: Math.min(...variants.map(variant => variant.similarity)),
+      variants,
+      merged: isNormalizedMatch,
+    });
+  });
+
+  return groups.sort((a, b) => a.similarity - b.similarity || a.canonical.localeCompare(b.canonical));
+}
+
+/**
+ * Merge map for the groups marked as merged
+ */
+export function buildVendorMergeMap(groups: DuplicateVendorGroup[]): VendorMergeMap {
+  const mergeMap: VendorMergeMap = {};
+  groups
+    .filter(group => group.merged)
+    .forEach(group => group.variants.forEach(variant => {
+      if (variant.name !== group.canonical) mergeMap[variant.name] = group.canonical;
+    }));
+  return mergeMap;
+}
+
+/**
+ * Rename merged vendors to their canonical name. Rows keep their positions, so
+ * row indices in results still point at the uploaded data.
+ */
+export function applyVendorMergeMap(data: CleanedDataRow[], mergeMap: VendorMergeMap): CleanedDataRow[] {
+  if (Object.keys(mergeMap).length === 0) return data;
+  return data.map(row => {
+    const canonical = row.vendor ? mergeMap[row.vendor.trim()] : undefined;
+    return canonical ? { ...row, vendor: canonical } : row;
+  });
+}
+
+/**
+ * Find duplicate vendor records and the merges to apply. A reviewed merge map
+ * replaces the default of merging only names that normalize identically.
+ */
+export function resolveDuplicateVendors(
+  data: CleanedDataRow[],
+  reviewedMergeMap?: VendorMergeMap,
+  threshold: number = DEFAULT_VENDOR_SIMILARITY
+): DuplicateVendorResult {
+  const groups = findDuplicateVendors(data, threshold).map(group => (
+    reviewedMergeMap
+      ? { ...group, merged: group.variants.some(variant => reviewedMergeMap[variant.name] === group.canonical) }
+      : group
+  ));
+
+  return {
+    similarityThreshold: threshold,
+    groups,
+    mergeMap: reviewedMergeMap ?? buildVendorMergeMap(groups),
+  };
+}
@@ -0,0 +1,20 @@
+// Benford Analysis Worker
+// Runs the analysis engine off the main thread and reports progress per stage
+
+import { performBenfordAnalysis } from '../utils/benfordAnalysis';
+import type { AnalysisWorkerRequest, AnalysisWorkerResponse } from '../types';
+
+function post(message: AnalysisWorkerResponse) {
+  self.postMessage(message);
+}
+
+self.onmessage = (event: MessageEvent<AnalysisWorkerRequest>) => {
+  const { dataset, options } = event.data;
+
+  try {
+    const result = performBenfordAnalysis(dataset, options, progress => post({ type: 'progress', progress }));
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', error: error instanceof Error ? error.message : 'Analysis failed' });
+  }
+};